@@ -1,13 +1,63 @@
-import React, { useState, useEffect } from 'react';
-import { Activity, Play, RotateCcw, Cpu, AlertTriangle, CheckCircle, BrainCircuit, Trash2, Home } from 'lucide-react';
-import { CodeEditor } from './components/CodeEditor';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Activity, Play, RotateCcw, Cpu, AlertTriangle, CheckCircle, BrainCircuit, Trash2, Home, Settings, TerminalSquare, History, Square, ArrowDownUp, Database, Languages, Gauge, FileUp, NotebookText, X, Bug, Wand2, ShieldCheck, ListTree, Table2, Network } from 'lucide-react';
+import { CodeEditor, EditorDiagnostic } from './components/CodeEditor';
 import { TraceMap } from './components/TraceMap';
 import { FlashcardReview } from './components/FlashcardReview';
+import { PROVIDER_LABELS, SettingsPanel } from './components/SettingsPanel';
+import { HistorySidebar } from './components/HistorySidebar';
+import { RunDiffView } from './components/RunDiffView';
+import { DeckTransferPanel } from './components/DeckTransferPanel';
+import { DiagnosisErrorPanel } from './components/DiagnosisErrorPanel';
+import { NotebookImportPanel } from './components/NotebookImportPanel';
+import { TracebackInput } from './components/TracebackInput';
+import { FixPreviewPanel } from './components/FixPreviewPanel';
+import { VariableTimeline } from './components/VariableTimeline';
+import { ControlFlowView } from './components/ControlFlowView';
 import { analyzeCode } from './services/geminiService';
-import { DiagnosisState, Flashcard } from './types';
+import { toDiagnosisError } from './services/diagnosisErrors';
+import { planAnalysis } from './services/codeChunker';
+import { deckKey } from './services/deckTransfer';
+import { clearHistory, deleteRun, listRuns, saveRun } from './services/historyStore';
+import { DEFAULT_PROVIDER_SETTINGS, describeModel } from './services/providers';
+import { findStepForLine, runPython } from './services/pythonRunner';
+import { applyFixBonus, applyHintUsage, createInitialStats, getDueCards, migrateFlashcard, qualityFromResult, reviewCard } from './services/scheduler';
+import { buildLocalDiagnosis, runStaticChecks } from './services/staticChecks';
+import { DEFAULT_LANGUAGE, getLanguage, isLanguageId } from './services/languages';
+import { DEFAULT_LOCALE, LOCALES, MessageKey, createTranslator, isLocale } from './services/i18n';
+import { ImportFailureReason, NotebookCell, NotebookImportError, ParsedNotebook, assembleNotebook, attributeCells, outputsForCode, readImportedFile } from './services/notebookImport';
+import { FixBatch, applyAllFixes, applyFix, getFixStates } from './services/fixApplier';
+import { anchorFailingStep, findFailingStep, locateTraceback, parseTraceback } from './services/tracebackParser';
+import { completeVerification, countVerdicts, findResolvedCards, previousErrorSteps } from './services/fixVerification';
+import { sharesCodeLine } from './services/sourceLocator';
+import { applyExecutionSnapshots } from './services/variableTimeline';
+import { CheckStrategyId, DiagnosisResponse, DiagnosisRun, DiagnosisState, ExecutionResult, Flashcard, LanguageId, Locale, NotebookCellOutput, ProviderSettings } from './types';
 
 const PORTAL_URL = "https://ai-trainer-porama-system.vercel.app/";
 
+const IMPORT_ERROR_KEYS: Record<ImportFailureReason, MessageKey> = {
+  unsupportedFile: 'import.error.unsupportedFile',
+  invalidJson: 'import.error.invalidJson',
+  notNotebook: 'import.error.notNotebook',
+  unsupportedVersion: 'import.error.unsupportedVersion',
+  noCodeCells: 'import.error.noCodeCells',
+};
+
+type TraceView = 'steps' | 'variables' | 'flow';
+
+const TRACE_VIEWS: TraceView[] = ['steps', 'variables', 'flow'];
+
+const TRACE_VIEW_LABELS: Record<TraceView, MessageKey> = {
+  steps: 'report.view.steps',
+  variables: 'report.view.variables',
+  flow: 'report.view.flow',
+};
+
+const TRACE_VIEW_ICONS: Record<TraceView, typeof ListTree> = {
+  steps: ListTree,
+  variables: Table2,
+  flow: Network,
+};
+
 const App: React.FC = () => {
   const [code, setCode] = useState<string>('');
   const [diagnosisState, setDiagnosisState] = useState<DiagnosisState>({
@@ -19,13 +69,77 @@ const App: React.FC = () => {
   // Flashcard State
   const [flashcards, setFlashcards] = useState<Flashcard[]>([]);
   const [isReviewMode, setIsReviewMode] = useState(false);
+  const [isDeckTransferOpen, setIsDeckTransferOpen] = useState(false);
+
+  // Provider Settings
+  const [settings, setSettings] = useState<ProviderSettings>(() => {
+    const saved = localStorage.getItem('code_doctor_settings');
+    if (!saved) return DEFAULT_PROVIDER_SETTINGS;
+    try {
+      const parsed = JSON.parse(saved) as Partial<ProviderSettings>;
+      // Nested options saved by an older version may lack newer fields
+      return {
+        ...DEFAULT_PROVIDER_SETTINGS,
+        ...parsed,
+        analysis: { ...DEFAULT_PROVIDER_SETTINGS.analysis, ...parsed.analysis },
+      };
+    } catch (e) {
+      console.error("[CodeDoctor] Error parsing saved settings:", e);
+      return DEFAULT_PROVIDER_SETTINGS;
+    }
+  });
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [diagnosedCode, setDiagnosedCode] = useState<string | null>(null);
+  const [revealLine, setRevealLine] = useState<{ line: number; nonce: number } | undefined>(undefined);
+  const [runInSandbox, setRunInSandbox] = useState<boolean>(() => localStorage.getItem('code_doctor_run_sandbox') === 'true');
+  const [language, setLanguage] = useState<LanguageId>(() => {
+    const saved = localStorage.getItem('code_doctor_language');
+    return isLanguageId(saved) ? saved : DEFAULT_LANGUAGE;
+  });
+  const isRunnable = getLanguage(language).runnable;
+  const [locale, setLocale] = useState<Locale>(() => {
+    const saved = localStorage.getItem('code_doctor_locale');
+    return isLocale(saved) ? saved : DEFAULT_LOCALE;
+  });
+  const t = createTranslator(locale);
+
+  // In-flight diagnosis, so it can be cancelled
+  const abortRef = useRef<AbortController | null>(null);
+
+  // File import (.py / .ipynb)
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [pendingNotebook, setPendingNotebook] = useState<{ notebook: ParsedNotebook; fileName: string } | null>(null);
+  // Outputs saved in the imported notebook, sent as evidence while their cells are still in the editor
+  const [notebookEvidence, setNotebookEvidence] = useState<{ fileName: string; outputs: NotebookCellOutput[] } | null>(null);
+
+  // "Apply all fixes" preview
+  const [fixPreview, setFixPreview] = useState<FixBatch | null>(null);
+
+  // Report view: the step list, the variable-state table or the control-flow graph
+  const [traceView, setTraceView] = useState<TraceView>('steps');
+
+  // Pasted traceback (Python only), re-located whenever the code changes
+  const [tracebackText, setTracebackText] = useState('');
+  const parsedTraceback = useMemo(() => {
+    const parsed = language === 'python' && tracebackText.trim() ? parseTraceback(tracebackText) : null;
+    return parsed && locateTraceback(parsed, code);
+  }, [tracebackText, code, language]);
+
+  // History State
+  const [history, setHistory] = useState<DiagnosisRun[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const activeRun = history.find(run => run.id === activeRunId);
+  const [comparedRuns, setComparedRuns] = useState<{ older: DiagnosisRun; newer: DiagnosisRun } | null>(null);
 
   // Load flashcards from localStorage on mount
   useEffect(() => {
     const saved = localStorage.getItem('code_doctor_flashcards');
     if (saved) {
       try {
-        const parsed = JSON.parse(saved);
+        const parsed = (JSON.parse(saved) as Flashcard[]).map(card => migrateFlashcard(card));
         setFlashcards(parsed);
         console.log(`[CodeDoctor] Initialized: Loaded ${parsed.length} flashcards.`);
       } catch (e) {
@@ -36,37 +150,138 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Load diagnosis history from IndexedDB on mount
+  useEffect(() => {
+    listRuns()
+      .then(runs => {
+        setHistory(runs);
+        console.log(`[CodeDoctor] Initialized: Loaded ${runs.length} history runs.`);
+      })
+      .catch(e => console.error("[CodeDoctor] Error loading history:", e));
+  }, []);
+
   // Save flashcards whenever they change
   useEffect(() => {
     console.log(`[CodeDoctor] Syncing ${flashcards.length} flashcards to localStorage.`);
     localStorage.setItem('code_doctor_flashcards', JSON.stringify(flashcards));
   }, [flashcards]);
 
-  const handleDiagnose = async () => {
+  // Save settings whenever they change
+  useEffect(() => {
+    localStorage.setItem('code_doctor_settings', JSON.stringify(settings));
+  }, [settings]);
+
+  useEffect(() => {
+    localStorage.setItem('code_doctor_run_sandbox', String(runInSandbox));
+  }, [runInSandbox]);
+
+  useEffect(() => {
+    localStorage.setItem('code_doctor_language', language);
+  }, [language]);
+
+  useEffect(() => {
+    localStorage.setItem('code_doctor_locale', locale);
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const handleImportFile = async (file: File) => {
+    console.log(`[CodeDoctor] Importing file ${file.name}.`);
+    setImportError(null);
+    try {
+      const imported = readImportedFile(file.name, await file.text());
+      if (imported.kind === 'notebook') {
+        setPendingNotebook({ notebook: imported.notebook, fileName: file.name });
+        return;
+      }
+      setCode(imported.code);
+      setLanguage(imported.language);
+      setNotebookEvidence(null);
+    } catch (err) {
+      console.error("[CodeDoctor] File import failed:", err);
+      const reason = err instanceof NotebookImportError ? t(IMPORT_ERROR_KEYS[err.reason]) : String(err);
+      setImportError(t('import.failed', { name: file.name, reason }));
+    }
+  };
+
+  const importNotebookCells = (cells: NotebookCell[]) => {
+    if (!pendingNotebook) return;
+    const { notebook, fileName } = pendingNotebook;
+    setCode(assembleNotebook(cells, notebook.language));
+    setLanguage(notebook.language);
+    const outputs = cells.flatMap(cell => (cell.output ? [cell.output] : []));
+    setNotebookEvidence(outputs.length > 0 ? { fileName, outputs } : null);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (file && diagnosisState.status !== 'analyzing') handleImportFile(file);
+  };
+
+  const handleDiagnose = async ({ forceFresh = false, verify = false }: { forceFresh?: boolean; verify?: boolean } = {}) => {
     if (!code.trim()) {
       console.warn("[CodeDoctor] Diagnosis blocked: Empty code input.");
       return;
     }
 
-    console.log("[CodeDoctor] Diagnosis triggered.");
+    // Verify-fix mode checks the errors of the diagnosis on screen against the edited code
+    const previousErrors = verify && diagnosisState.result ? previousErrorSteps(diagnosisState.result.trace) : [];
+    const previousRun = verify ? activeRun : undefined;
+
+    console.log(`[CodeDoctor] Diagnosis triggered${previousErrors.length > 0 ? ` (verifying ${previousErrors.length} earlier error(s))` : ''}.`);
     setDiagnosisState({ status: 'analyzing', result: null, error: null });
+    setActiveRunId(null); // the new run becomes active once it is recorded
+
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const result = await analyzeCode(code);
+      // Static pre-checks and the sandbox only exist for runnable languages (Python)
+      const precheck = isRunnable ? runStaticChecks(code, locale) : null;
+      let execution: ExecutionResult | undefined;
+      let result: DiagnosisResponse;
+      const notebookOutputs = notebookEvidence ? outputsForCode(notebookEvidence.outputs, code) : [];
+      const traceback = parsedTraceback ?? undefined;
+
+      if (precheck?.hasSyntaxErrors && settings.skipModelOnSyntaxErrors) {
+        console.log("[CodeDoctor] Syntax errors found locally, skipping the model.");
+        result = completeVerification(buildLocalDiagnosis(precheck, locale), code, previousErrors);
+      } else {
+        if (runInSandbox && isRunnable) {
+          execution = await runPython(code, { locale });
+          console.log("[CodeDoctor] Sandbox execution:", execution);
+        }
+
+        result = await analyzeCode(code, settings, { execution, traceback, staticFindings: precheck?.steps, language, locale, notebookOutputs, previousErrors }, {
+          signal: controller.signal,
+          forceFresh,
+          onProgress: partial => setDiagnosisState(prev => ({ ...prev, partial: { ...partial, trace: attributeCells(partial.trace, code) } })),
+        });
+      }
+      // Pin the error step to the traceback's failing line, swap in the variables the sandbox
+      // really saw, then tag steps with their notebook cell
+      const anchored = traceback?.errorLine !== undefined ? anchorFailingStep(result.trace, code, traceback.errorLine) : result.trace;
+      const observed = execution?.snapshots ? applyExecutionSnapshots(anchored, execution.snapshots, code) : anchored;
+      result = { ...result, trace: attributeCells(observed, code) };
       console.log("[CodeDoctor] Diagnosis complete:", result);
-      setDiagnosisState({ status: 'complete', result, error: null });
+      setDiagnosisState({ status: 'complete', result, error: null, execution, traceback });
+      setDiagnosedCode(code);
 
       // Process new flashcards from the analysis
+      let newCards: Flashcard[] = [];
+      let cachedCardIds: string[] = [];
       if (result.generatedFlashcards && result.generatedFlashcards.length > 0) {
-        console.log(`[CodeDoctor] Processing ${result.generatedFlashcards.length} new flashcards.`);
-        const newCards: Flashcard[] = result.generatedFlashcards.map((data, index) => ({
+        // A cache hit replays the stored cards: those already in the deck are linked to the run, not added again
+        const inDeck = new Map(result.cachedAt !== undefined ? flashcards.map(card => [deckKey(card), card.id]) : []);
+        const fresh = result.generatedFlashcards.filter(data => !inDeck.has(deckKey(data)));
+        cachedCardIds = result.generatedFlashcards.map(data => inDeck.get(deckKey(data))).filter((id): id is string => id !== undefined);
+        console.log(`[CodeDoctor] Processing ${fresh.length} new flashcards (${cachedCardIds.length} already in the deck).`);
+        newCards = fresh.map((data, index) => ({
           ...data,
           id: `${Date.now()}-${index}`,
-          stats: {
-            correctStreak: 0,
-            incorrectCount: 0,
-            status: 'new'
-          }
+          stats: createInitialStats(),
+          language,
         }));
         
         setFlashcards(prev => [...prev, ...newCards]);
@@ -74,46 +289,125 @@ const App: React.FC = () => {
         console.log("[CodeDoctor] No new flashcards in response.");
       }
 
-    } catch (err: any) {
+      // Cards made from an error the student has now fixed get a small scheduling bonus
+      if (result.verification) {
+        const candidates = previousRun
+          ? flashcards.filter(card => previousRun.flashcardIds.includes(card.id))
+          : flashcards.filter(card => (card.language ?? DEFAULT_LANGUAGE) === language);
+        const resolvedIds = findResolvedCards(result.verification, candidates);
+        if (resolvedIds.length > 0) {
+          console.log(`[CodeDoctor] Fix verified for ${resolvedIds.length} card(s), applying the scheduling bonus.`);
+          const now = Date.now();
+          setFlashcards(prev => prev.map(card => (resolvedIds.includes(card.id) ? { ...card, stats: applyFixBonus(card.stats, now) } : card)));
+        }
+      }
+
+      // Record the run in history
+      const run: DiagnosisRun = {
+        id: `run-${Date.now()}`,
+        createdAt: Date.now(),
+        code,
+        result,
+        providerId: settings.providerId,
+        model: result.localOnly ? 'static-precheck' : describeModel(settings),
+        flashcardIds: [...cachedCardIds, ...newCards.map(card => card.id)],
+        execution,
+        traceback,
+        language,
+      };
+      setHistory(prev => [run, ...prev]);
+      setActiveRunId(run.id);
+      saveRun(run).catch(e => console.error("[CodeDoctor] Error saving run to history:", e));
+
+    } catch (err) {
+      if (controller.signal.aborted) {
+        console.log("[CodeDoctor] Diagnosis cancelled.");
+        setDiagnosisState({ status: 'idle', result: null, error: null });
+        return;
+      }
       console.error("[CodeDoctor] Diagnosis error:", err);
       setDiagnosisState({
         status: 'error',
         result: null,
-        error: err.message || '系统发生未知错误。',
+        error: toDiagnosisError(err),
       });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
     }
   };
 
+  const applyStepFix = (index: number) => {
+    const step = diagnosisState.result?.trace[index];
+    if (!step) return;
+    const result = applyFix(code, step);
+    if (result.status !== 'ready') {
+      console.warn(`[CodeDoctor] Fix for step ${index + 1} not applied: ${result.status}.`);
+      return;
+    }
+    console.log(`[CodeDoctor] Applied fix for step ${index + 1} at line ${result.line}.`);
+    setCode(result.code);
+    setRevealLine({ line: result.line, nonce: Date.now() });
+  };
+
+  // Hint mode: one more level for a step, saved with the run. The cards this run made for
+  // that error start out harder by the stored count.
+  const revealHint = (index: number) => {
+    const step = diagnosisState.result?.trace[index];
+    if (!step || !activeRun) return;
+    const updated: DiagnosisRun = { ...activeRun, hintsUsed: { ...activeRun.hintsUsed, [index]: (activeRun.hintsUsed?.[index] ?? 0) + 1 } };
+    setHistory(prev => prev.map(run => (run.id === updated.id ? updated : run)));
+    saveRun(updated).catch(e => console.error("[CodeDoctor] Error saving hint usage:", e));
+
+    if (!step.badCode) return;
+    const used = updated.hintsUsed![index];
+    setFlashcards(prev => prev.map(card =>
+      updated.flashcardIds.includes(card.id) && sharesCodeLine(step.badCode, card.frontCode)
+        ? { ...card, stats: applyHintUsage(card.stats, used) }
+        : card
+    ));
+  };
+
+  const cancelDiagnose = () => {
+    console.log("[CodeDoctor] Cancelling diagnosis.");
+    abortRef.current?.abort();
+  };
+
   const reset = () => {
     console.log("[CodeDoctor] Resetting view.");
     setDiagnosisState({ status: 'idle', result: null, error: null });
+    setActiveRunId(null);
+  };
+
+  const openRun = (run: DiagnosisRun) => {
+    console.log(`[CodeDoctor] Reopening run ${run.id} from history.`);
+    setCode(run.code);
+    setLanguage(run.language ?? DEFAULT_LANGUAGE);
+    setNotebookEvidence(null);
+    setTracebackText('');
+    setDiagnosedCode(run.code);
+    setDiagnosisState({ status: 'complete', result: run.result, error: null, execution: run.execution, traceback: run.traceback });
+    setActiveRunId(run.id);
+    setIsHistoryOpen(false);
+  };
+
+  const removeRun = (id: string) => {
+    setHistory(prev => prev.filter(run => run.id !== id));
+    deleteRun(id).catch(e => console.error("[CodeDoctor] Error deleting run:", e));
+  };
+
+  const removeAllRuns = () => {
+    setHistory([]);
+    clearHistory().catch(e => console.error("[CodeDoctor] Error clearing history:", e));
   };
 
-  const handleUpdateCard = (id: string, isCorrect: boolean) => {
-    console.log(`[CodeDoctor] Updating card ${id} - Correct: ${isCorrect}`);
+  const handleUpdateCard = (id: string, isCorrect: boolean, strategy: CheckStrategyId) => {
+    console.log(`[CodeDoctor] Updating card ${id} - Correct: ${isCorrect} (${strategy})`);
     setFlashcards(prev => prev.map(card => {
       if (card.id !== id) return card;
 
-      let newStats = { ...card.stats };
-
-      if (isCorrect) {
-        newStats.correctStreak += 1;
-        // If 3 consecutive correct answers, mark as mastered
-        if (newStats.correctStreak >= 3) {
-          newStats.status = 'mastered';
-          console.log(`[CodeDoctor] Card ${id} mastered!`);
-        } else {
-          newStats.status = 'learning';
-        }
-      } else {
-        newStats.correctStreak = 0; // Reset streak
-        newStats.incorrectCount += 1;
-        // If 3 total errors, mark as critical
-        if (newStats.incorrectCount >= 3) {
-          newStats.status = 'critical';
-          console.log(`[CodeDoctor] Card ${id} marked critical.`);
-        }
-      }
+      const acceptedBy = isCorrect ? strategy : undefined;
+      const newStats = reviewCard(card.stats, qualityFromResult(isCorrect, acceptedBy), Date.now(), acceptedBy);
+      console.log(`[CodeDoctor] Card ${id} -> ${newStats.status}, next review in ${newStats.interval} day(s).`);
 
       return { ...card, stats: newStats };
     }));
@@ -125,7 +419,35 @@ const App: React.FC = () => {
     console.log(`[CodeDoctor] Cleared mastered cards. Count reduced from ${countBefore} to ${flashcards.length}.`);
   };
 
-  const activeCardsCount = flashcards.filter(c => c.stats.status !== 'mastered').length;
+  // Editor markers for every located warning/error step (hidden once the code is edited, as ranges go stale)
+  const editorDiagnostics: EditorDiagnostic[] = (code === diagnosedCode ? diagnosisState.result?.trace ?? [] : [])
+    .filter(step => step.range && step.status !== 'success')
+    .map(step => ({
+      range: step.highlightRange ?? step.range!,
+      severity: step.status === 'error' ? 'error' : 'warning',
+      message: step.title,
+    }));
+
+  // Whether each step's fix can still be applied to the code as it is now
+  const fixStates = useMemo(
+    () => (diagnosisState.result ? getFixStates(code, diagnosisState.result.trace) : []),
+    [code, diagnosisState.result]
+  );
+  const readyFixCount = fixStates.filter(state => state === 'ready').length;
+
+  // Verify-fix mode needs a diagnosis with errors and code edited since
+  const canVerify = diagnosisState.status === 'complete' && code !== diagnosedCode
+    && Boolean(diagnosisState.result?.trace.some(step => step.status === 'error'));
+  const verification = diagnosisState.result?.verification;
+  const hasVariables = Boolean(diagnosisState.result?.trace.some(step => step.variables?.length));
+  const traceViews = TRACE_VIEWS.filter(view => (view !== 'variables' || hasVariables) && (view !== 'flow' || language === 'python'));
+  const activeView = traceViews.includes(traceView) ? traceView : 'steps';
+
+  // Prompt size estimate for the editor footer (chunks are only planned once over the limit)
+  const sizePlan = useMemo(() => planAnalysis(code, language, settings.analysis), [code, language, settings.analysis]);
+
+  const dueCardsCount = getDueCards(flashcards).length;
+  const masteredCount = flashcards.filter(c => c.stats.status === 'mastered').length;
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-200 p-4 md:p-6 lg:p-8 font-sans bg-[url('https://grainy-gradients.vercel.app/noise.svg')] bg-opacity-20">
@@ -137,10 +459,79 @@ const App: React.FC = () => {
             console.log("[CodeDoctor] Closing review mode.");
             setIsReviewMode(false);
           }}
+          settings={settings}
+          locale={locale}
           onUpdateCard={handleUpdateCard}
         />
       )}
 
+      {isHistoryOpen && (
+        <HistorySidebar
+          runs={history}
+          activeRunId={activeRunId}
+          locale={locale}
+          onOpen={openRun}
+          onCompare={(older, newer) => {
+            setComparedRuns({ older, newer });
+            setIsHistoryOpen(false);
+          }}
+          onDelete={removeRun}
+          onClear={removeAllRuns}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {comparedRuns && (
+        <RunDiffView
+          older={comparedRuns.older}
+          newer={comparedRuns.newer}
+          locale={locale}
+          onClose={() => setComparedRuns(null)}
+        />
+      )}
+
+      {isDeckTransferOpen && (
+        <DeckTransferPanel
+          cards={flashcards}
+          locale={locale}
+          onImport={setFlashcards}
+          onClose={() => setIsDeckTransferOpen(false)}
+        />
+      )}
+
+      {pendingNotebook && (
+        <NotebookImportPanel
+          notebook={pendingNotebook.notebook}
+          fileName={pendingNotebook.fileName}
+          locale={locale}
+          onImport={importNotebookCells}
+          onClose={() => setPendingNotebook(null)}
+        />
+      )}
+
+      {fixPreview && diagnosisState.result && (
+        <FixPreviewPanel
+          code={code}
+          batch={fixPreview}
+          trace={diagnosisState.result.trace}
+          locale={locale}
+          onConfirm={fixed => {
+            console.log(`[CodeDoctor] Applied ${fixPreview.applied.length} fixes at once.`);
+            setCode(fixed);
+          }}
+          onClose={() => setFixPreview(null)}
+        />
+      )}
+
+      {isSettingsOpen && (
+        <SettingsPanel
+          settings={settings}
+          locale={locale}
+          onSave={setSettings}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
       <div className="max-w-7xl mx-auto h-full flex flex-col gap-6">
         
         {/* Header */}
@@ -153,7 +544,7 @@ const App: React.FC = () => {
               <h1 className="text-2xl md:text-3xl font-bold tracking-tight text-white flex items-center gap-2">
                 CODE <span className="text-neon-green">DOCTOR</span>
               </h1>
-              <p className="text-slate-500 text-sm font-mono">AI 逻辑溯源系统 // v1.1.0</p>
+              <p className="text-slate-500 text-sm font-mono">{t('app.subtitle')}</p>
             </div>
           </div>
           
@@ -162,32 +553,75 @@ const App: React.FC = () => {
              <div className="relative">
                 <button 
                   onClick={() => {
-                    if (activeCardsCount > 0) {
+                    if (dueCardsCount > 0) {
                       console.log("[CodeDoctor] Opening review mode.");
                       setIsReviewMode(true);
                     }
                   }}
-                  disabled={activeCardsCount === 0}
+                  disabled={dueCardsCount === 0}
                   className={`
                     flex items-center gap-2 px-4 py-2 rounded-full border transition-all text-sm font-bold
-                    ${activeCardsCount > 0 
+                    ${dueCardsCount > 0 
                       ? 'bg-slate-900 border-neon-blue text-neon-blue hover:bg-slate-800 hover:shadow-[0_0_15px_rgba(59,130,246,0.3)]' 
                       : 'bg-slate-900/50 border-slate-800 text-slate-600 cursor-not-allowed'}
                   `}
                 >
                   <BrainCircuit size={16} />
-                  <span>错题闪卡</span>
-                  {activeCardsCount > 0 && (
+                  <span>{t('header.flashcards')}</span>
+                  {dueCardsCount > 0 && (
                     <span className="bg-neon-blue text-slate-950 text-[10px] px-1.5 py-0.5 rounded-full font-bold">
-                      {activeCardsCount}
+                      {dueCardsCount}
                     </span>
                   )}
                 </button>
              </div>
 
+            <button
+              onClick={() => setIsDeckTransferOpen(true)}
+              className="p-2 rounded-full border border-slate-800 bg-slate-900 text-slate-400 hover:text-white hover:border-slate-600 transition-colors"
+              title={t('header.deckTransfer')}
+            >
+              <ArrowDownUp size={16} />
+            </button>
+
+            <button
+              onClick={() => setIsHistoryOpen(true)}
+              className="flex items-center gap-2 px-4 py-2 rounded-full border border-slate-800 bg-slate-900 text-slate-400 hover:text-white hover:border-slate-600 transition-colors text-sm font-bold"
+            >
+              <History size={16} />
+              <span>{t('header.history')}</span>
+              {history.length > 0 && (
+                <span className="bg-slate-700 text-slate-200 text-[10px] px-1.5 py-0.5 rounded-full font-bold">{history.length}</span>
+              )}
+            </button>
+
+            <button
+              onClick={() => setIsSettingsOpen(true)}
+              className="p-2 rounded-full border border-slate-800 bg-slate-900 text-slate-400 hover:text-white hover:border-slate-600 transition-colors"
+              title={t('header.settings')}
+            >
+              <Settings size={16} />
+            </button>
+
+            <label
+              className="flex items-center gap-1 px-2 py-1.5 rounded-full border border-slate-800 bg-slate-900 text-slate-400 hover:border-slate-600 transition-colors"
+              title={t('header.locale')}
+            >
+              <Languages size={16} />
+              <select
+                value={locale}
+                onChange={e => isLocale(e.target.value) && setLocale(e.target.value)}
+                className="bg-transparent text-xs font-mono outline-none cursor-pointer"
+              >
+                {(Object.keys(LOCALES) as Locale[]).map(id => (
+                  <option key={id} value={id} className="bg-slate-900">{LOCALES[id].label}</option>
+                ))}
+              </select>
+            </label>
+
             <div className="flex items-center gap-3 pl-4 border-l border-slate-800">
               <div className="hidden md:block px-3 py-1 rounded-full bg-slate-900 border border-slate-800 text-xs text-slate-400 font-mono">
-                系统状态: 在线
+                {t('header.engine', { name: t(PROVIDER_LABELS[settings.providerId]) })}
               </div>
               <div className="w-2 h-2 rounded-full bg-neon-green animate-pulse"></div>
             </div>
@@ -201,53 +635,158 @@ const App: React.FC = () => {
           <section className="flex flex-col gap-4">
             <div className="flex items-center justify-between">
               <h2 className="text-sm font-bold text-slate-400 tracking-wider flex items-center gap-2">
-                <Cpu size={16} /> 输入终端 (INPUT TERMINAL)
+                <Cpu size={16} /> {t('input.title')}
               </h2>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".py,.ipynb,.js,.sql"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleImportFile(file);
+                }}
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={diagnosisState.status === 'analyzing'}
+                title={t('import.openTitle')}
+                className="text-xs text-slate-500 hover:text-white flex items-center gap-1 transition-colors disabled:opacity-40"
+              >
+                <FileUp size={14} /> {t('import.open')}
+              </button>
             </div>
+
+            {importError && (
+              <p className="text-xs text-rose-400 font-mono">{importError}</p>
+            )}
             
-            <div className="flex-1 min-h-[400px]">
+            <div
+              className="relative flex-1 min-h-[400px]"
+              onDragOver={e => {
+                if (!e.dataTransfer.types.includes('Files')) return;
+                e.preventDefault();
+                setIsDraggingFile(true);
+              }}
+              onDragLeave={e => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFile(false);
+              }}
+              onDrop={handleDrop}
+            >
+              {isDraggingFile && (
+                <div className="absolute inset-0 z-30 rounded-xl border-2 border-dashed border-neon-blue bg-slate-950/80 flex flex-col items-center justify-center gap-2 text-neon-blue font-mono text-sm pointer-events-none">
+                  <FileUp size={32} />
+                  {t('import.drop')}
+                </div>
+              )}
               <CodeEditor 
                 value={code} 
                 onChange={setCode} 
                 isAnalyzing={diagnosisState.status === 'analyzing'}
+                diagnostics={editorDiagnostics}
+                revealLine={revealLine}
+                language={language}
+                onLanguageChange={setLanguage}
+                locale={locale}
               />
             </div>
 
+            {language === 'python' && (
+              <TracebackInput
+                value={tracebackText}
+                onChange={setTracebackText}
+                parsed={parsedTraceback}
+                locale={locale}
+                disabled={diagnosisState.status === 'analyzing'}
+              />
+            )}
+
+            {notebookEvidence && outputsForCode(notebookEvidence.outputs, code).length > 0 && (
+              <div className="flex items-center gap-2 text-xs font-mono text-slate-500">
+                <NotebookText size={14} />
+                <span>{t('import.evidence', { name: notebookEvidence.fileName, n: outputsForCode(notebookEvidence.outputs, code).length })}</span>
+                <button
+                  onClick={() => setNotebookEvidence(null)}
+                  title={t('import.dropEvidence')}
+                  className="text-slate-600 hover:text-rose-400 transition-colors"
+                >
+                  <X size={12} />
+                </button>
+              </div>
+            )}
+
+            {code.trim() && (
+              <div className={`flex flex-wrap items-center gap-2 text-xs font-mono ${sizePlan.overLimit ? 'text-amber-400' : sizePlan.nearLimit ? 'text-amber-300/70' : 'text-slate-600'}`}>
+                <Gauge size={14} />
+                <span>{t('input.tokens', { tokens: sizePlan.tokens, limit: settings.analysis.maxPromptTokens })}</span>
+                {sizePlan.chunks
+                  ? <span>{t('input.overLimitChunked', { n: sizePlan.chunks.length })}</span>
+                  : sizePlan.overLimit
+                    ? <span>{t('input.overLimit')}</span>
+                    : sizePlan.nearLimit && <span>{t('input.nearLimit')}</span>}
+              </div>
+            )}
+
+            <label className={`flex items-center gap-2 text-xs text-slate-400 font-mono select-none ${isRunnable ? 'cursor-pointer' : 'opacity-40 cursor-not-allowed'}`}>
+              <input
+                type="checkbox"
+                disabled={!isRunnable}
+                checked={runInSandbox && isRunnable}
+                onChange={e => setRunInSandbox(e.target.checked)}
+                className="accent-emerald-500"
+              />
+              <TerminalSquare size={14} />
+              {t('input.sandbox')}
+            </label>
+
             <button
-              onClick={handleDiagnose}
-              disabled={diagnosisState.status === 'analyzing' || !code.trim()}
+              onClick={diagnosisState.status === 'analyzing' ? cancelDiagnose : () => handleDiagnose()}
+              disabled={diagnosisState.status !== 'analyzing' && !code.trim()}
               className={`
                 relative w-full py-4 rounded-xl font-bold tracking-widest transition-all duration-300 overflow-hidden group
                 ${diagnosisState.status === 'analyzing' 
-                  ? 'bg-slate-800 text-slate-500 cursor-not-allowed border border-slate-700' 
+                  ? 'bg-slate-800 text-slate-400 hover:text-rose-400 hover:border-rose-500/50 border border-slate-700' 
                   : 'bg-neon-green hover:bg-emerald-400 text-slate-950 hover:shadow-[0_0_20px_rgba(16,185,129,0.4)] border border-emerald-400'}
               `}
             >
               <span className="relative z-10 flex items-center justify-center gap-2">
                 {diagnosisState.status === 'analyzing' ? (
                   <>
-                    <RotateCcw className="animate-spin" size={20} />
-                    正在诊断逻辑...
+                    <RotateCcw className="animate-spin group-hover:hidden" size={20} />
+                    <Square className="hidden group-hover:block" fill="currentColor" size={16} />
+                    <span className="group-hover:hidden">{t('input.analyzing')}</span>
+                    <span className="hidden group-hover:inline">{t('input.cancel')}</span>
                   </>
                 ) : (
                   <>
                     <Play fill="currentColor" size={20} />
-                    启动扫描
+                    {t('input.start')}
                   </>
                 )}
               </span>
             </button>
+
+            {canVerify && (
+              <button
+                onClick={() => handleDiagnose({ verify: true })}
+                title={t('verify.buttonHint')}
+                className="w-full py-3 rounded-xl font-bold tracking-widest border border-emerald-500/50 text-emerald-300 hover:bg-emerald-500/10 transition-colors flex items-center justify-center gap-2"
+              >
+                <ShieldCheck size={18} /> {t('verify.button')}
+              </button>
+            )}
           </section>
 
           {/* Right Column: Analysis */}
           <section className="flex flex-col gap-4">
             <div className="flex items-center justify-between">
               <h2 className="text-sm font-bold text-slate-400 tracking-wider flex items-center gap-2">
-                <Activity size={16} /> 诊断报告 (DIAGNOSTIC REPORT)
+                <Activity size={16} /> {t('report.title')}
               </h2>
               {diagnosisState.status === 'complete' && (
                  <button onClick={reset} className="text-xs text-slate-500 hover:text-white underline decoration-slate-700 underline-offset-4">
-                   重置视图
+                   {t('report.reset')}
                  </button>
               )}
             </div>
@@ -260,17 +799,17 @@ const App: React.FC = () => {
               {diagnosisState.status === 'idle' && (
                 <div className="text-center text-slate-600">
                   <Cpu size={48} className="mx-auto mb-4 opacity-50" />
-                  <p className="font-mono text-sm">等待输入流...</p>
+                  <p className="font-mono text-sm">{t('report.waiting')}</p>
                   {flashcards.length > 0 && (
                     <div className="mt-8 p-4 bg-slate-900/50 rounded-lg border border-slate-800 max-w-sm">
-                      <h4 className="text-slate-400 text-xs font-bold uppercase mb-2">错题集数据</h4>
+                      <h4 className="text-slate-400 text-xs font-bold uppercase mb-2">{t('report.deckStats')}</h4>
                       <div className="flex justify-between text-sm">
-                         <span>待复习: <span className="text-neon-blue">{activeCardsCount}</span></span>
-                         <span>已掌握: <span className="text-emerald-500">{flashcards.length - activeCardsCount}</span></span>
+                         <span>{t('report.due')}: <span className="text-neon-blue">{dueCardsCount}</span></span>
+                         <span>{t('report.mastered')}: <span className="text-emerald-500">{masteredCount}</span></span>
                       </div>
-                      {flashcards.length - activeCardsCount > 0 && (
+                      {masteredCount > 0 && (
                         <button onClick={clearMasteredCards} className="mt-2 text-xs text-slate-500 hover:text-rose-500 flex items-center gap-1">
-                          <Trash2 size={10} /> 清理已掌握卡片
+                          <Trash2 size={10} /> {t('report.clearMastered')}
                         </button>
                       )}
                     </div>
@@ -278,30 +817,46 @@ const App: React.FC = () => {
                 </div>
               )}
 
-              {diagnosisState.status === 'analyzing' && (
+              {diagnosisState.status === 'analyzing' && diagnosisState.partial && (diagnosisState.partial.rawError || diagnosisState.partial.trace.length > 0) && (
+                <div className="space-y-8">
+                  {/* Streaming Summary */}
+                  <div className="p-4 rounded-lg bg-gradient-to-r from-slate-900 to-slate-800 border-l-4 border-l-neon-green border-y border-r border-slate-700 shadow-lg">
+                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">{t('report.summary')}</h3>
+                    <p className="text-lg text-slate-100 font-medium leading-relaxed">
+                      {diagnosisState.partial.rawError}
+                      <span className="inline-block w-2 h-5 ml-1 align-middle bg-neon-green animate-pulse" />
+                    </p>
+                  </div>
+
+                  <TraceMap trace={diagnosisState.partial.trace} locale={locale} />
+
+                  <div className="flex items-center justify-center gap-2 text-neon-green font-mono text-xs animate-pulse">
+                    <RotateCcw className="animate-spin" size={12} />
+                    {t('report.receivingStep', { n: diagnosisState.partial.trace.length + 1 })}
+                  </div>
+                </div>
+              )}
+
+              {diagnosisState.status === 'analyzing' && !(diagnosisState.partial && (diagnosisState.partial.rawError || diagnosisState.partial.trace.length > 0)) && (
                 <div className="flex flex-col items-center justify-center h-full gap-4">
                   <div className="relative w-16 h-16">
                     <div className="absolute inset-0 border-4 border-slate-800 rounded-full"></div>
                     <div className="absolute inset-0 border-4 border-t-neon-green rounded-full animate-spin"></div>
                   </div>
                   <div className="space-y-2 text-center">
-                    <p className="text-neon-green font-mono text-sm animate-pulse">正在追踪逻辑流</p>
-                    <p className="text-slate-500 text-xs">解析 AST... 提取病灶... 生成闪卡...</p>
+                    <p className="text-neon-green font-mono text-sm animate-pulse">{t('report.tracing')}</p>
+                    <p className="text-slate-500 text-xs">{t('report.tracingDetail')}</p>
                   </div>
                 </div>
               )}
 
-              {diagnosisState.status === 'error' && (
-                 <div className="flex flex-col items-center justify-center h-full text-center p-8">
-                   <div className="w-16 h-16 bg-rose-500/10 rounded-full flex items-center justify-center mb-4">
-                     <AlertTriangle className="text-rose-500" size={32} />
-                   </div>
-                   <h3 className="text-xl font-bold text-white mb-2">系统故障</h3>
-                   <p className="text-rose-300/80 mb-6">{diagnosisState.error}</p>
-                   <button onClick={handleDiagnose} className="px-6 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-sm font-mono border border-slate-700 transition-colors">
-                     重试连接
-                   </button>
-                 </div>
+              {diagnosisState.status === 'error' && diagnosisState.error && (
+                <DiagnosisErrorPanel
+                  failure={diagnosisState.error}
+                  locale={locale}
+                  onRetry={() => handleDiagnose()}
+                  onOpenSettings={() => setIsSettingsOpen(true)}
+                />
               )}
 
               {diagnosisState.status === 'complete' && diagnosisState.result && (
@@ -310,7 +865,33 @@ const App: React.FC = () => {
                   <div className="p-4 rounded-lg bg-gradient-to-r from-slate-900 to-slate-800 border-l-4 border-l-neon-green border-y border-r border-slate-700 shadow-lg">
                     <div className="flex justify-between items-start">
                       <div>
-                        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">诊断摘要</h3>
+                        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2 flex items-center gap-2">
+                          {t('report.summary')}
+                          {(diagnosisState.traceback?.exceptionType ?? diagnosisState.execution?.exceptionType) && (
+                            <span className="normal-case tracking-normal font-mono text-[10px] px-1.5 py-0.5 rounded border border-rose-500/40 bg-rose-950/40 text-rose-300 flex items-center gap-1">
+                              <Bug size={10} /> {diagnosisState.traceback?.exceptionType ?? diagnosisState.execution?.exceptionType}
+                            </span>
+                          )}
+                          {diagnosisState.result.localOnly && (
+                            <span className="normal-case tracking-normal font-mono text-[10px] px-1.5 py-0.5 rounded border border-amber-500/40 text-amber-300">
+                              {t('report.localOnly')}
+                            </span>
+                          )}
+                          {diagnosisState.result.cachedAt !== undefined && (
+                            <span
+                              title={t('report.cachedAt', { time: new Date(diagnosisState.result.cachedAt).toLocaleString(locale) })}
+                              className="normal-case tracking-normal font-mono text-[10px] px-1.5 py-0.5 rounded border border-cyan-500/40 text-cyan-300 flex items-center gap-1"
+                            >
+                              <Database size={10} /> {t('report.cacheHit')}
+                              <button
+                                onClick={() => handleDiagnose({ forceFresh: true })}
+                                className="ml-1 underline decoration-dotted hover:text-white"
+                              >
+                                {t('report.reanalyse')}
+                              </button>
+                            </span>
+                          )}
+                        </h3>
                         <p className="text-lg text-slate-100 font-medium leading-relaxed">
                           {diagnosisState.result.rawError}
                         </p>
@@ -318,22 +899,131 @@ const App: React.FC = () => {
                       {diagnosisState.result.generatedFlashcards && diagnosisState.result.generatedFlashcards.length > 0 && (
                         <div className="bg-blue-900/20 border border-blue-500/30 rounded px-3 py-2 flex flex-col items-center">
                            <BrainCircuit className="text-neon-blue mb-1" size={18} />
-                           <span className="text-[10px] text-blue-300 font-bold">+{diagnosisState.result.generatedFlashcards.length} 闪卡</span>
+                           <span className="text-[10px] text-blue-300 font-bold">{t('report.newCards', { n: diagnosisState.result.generatedFlashcards.length })}</span>
                         </div>
                       )}
                     </div>
                   </div>
 
+                  {/* Validation Repairs */}
+                  {diagnosisState.result.repairs && diagnosisState.result.repairs.length > 0 && (
+                    <details className="text-xs rounded-lg border border-amber-500/30 bg-amber-950/20 px-3 py-2 text-amber-300/80">
+                      <summary className="cursor-pointer font-mono flex items-center gap-2">
+                        <AlertTriangle size={12} className="inline" /> {t('report.repairs', { n: diagnosisState.result.repairs.length })}
+                      </summary>
+                      <ul className="mt-2 space-y-1 font-mono text-amber-200/60 list-disc pl-5">
+                        {diagnosisState.result.repairs.map((repair, i) => <li key={i}>{repair}</li>)}
+                      </ul>
+                    </details>
+                  )}
+
+                  {/* Sandbox Execution Output */}
+                  {diagnosisState.execution && diagnosisState.execution.status !== 'unavailable' && (
+                    <div className="rounded-lg border border-slate-700 bg-slate-950/60 text-xs font-mono overflow-hidden">
+                      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-800 text-slate-400">
+                        <span className="flex items-center gap-2"><TerminalSquare size={12} /> {t('report.sandbox')}</span>
+                        <span className={diagnosisState.execution.status === 'ok' ? 'text-emerald-400' : 'text-rose-400'}>
+                          {diagnosisState.execution.exceptionType ?? diagnosisState.execution.status.toUpperCase()} · {diagnosisState.execution.durationMs}ms
+                        </span>
+                      </div>
+                      {diagnosisState.execution.stdout && (
+                        <pre className="px-3 py-2 text-slate-300 whitespace-pre-wrap max-h-40 overflow-y-auto">{diagnosisState.execution.stdout}</pre>
+                      )}
+                      {(diagnosisState.execution.traceback || diagnosisState.execution.stderr) && (
+                        <pre className="px-3 py-2 text-rose-300/80 whitespace-pre-wrap max-h-40 overflow-y-auto border-t border-slate-800">
+                          {diagnosisState.execution.traceback || diagnosisState.execution.stderr}
+                        </pre>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Fix Verification */}
+                  {verification && verification.length > 0 && (
+                    <div className="rounded-lg border border-slate-700 bg-slate-950/40 p-4">
+                      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                          <ShieldCheck size={14} className="text-emerald-400" /> {t('verify.title')}
+                        </h3>
+                        <span className="text-xs font-mono text-slate-400">{t('verify.summary', countVerdicts(verification))}</span>
+                      </div>
+                      <TraceMap trace={verification.map(entry => entry.step)} locale={locale} verdicts={verification} />
+                    </div>
+                  )}
+
                   {/* The Metro Map */}
                   <div className="relative">
-                    <TraceMap trace={diagnosisState.result.trace} />
+                    {verification && verification.length > 0 && (
+                      <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4">{t('verify.newTrace')}</h3>
+                    )}
+                    {(traceViews.length > 1 || (readyFixCount > 0 && !settings.hintMode)) && (
+                      <div className="flex items-center justify-between gap-2 mb-4">
+                        {traceViews.length > 1 ? (
+                          <div className="flex rounded-lg border border-slate-700 overflow-hidden text-xs font-mono">
+                            {traceViews.map(view => {
+                              const Icon = TRACE_VIEW_ICONS[view];
+                              return (
+                                <button
+                                  key={view}
+                                  onClick={() => setTraceView(view)}
+                                  className={`px-3 py-1.5 flex items-center gap-1.5 transition-colors ${activeView === view ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                                >
+                                  <Icon size={14} /> {t(TRACE_VIEW_LABELS[view])}
+                                </button>
+                              );
+                            })}
+                          </div>
+                        ) : <span />}
+                        {readyFixCount > 0 && !settings.hintMode && (
+                          <button
+                            onClick={() => setFixPreview(applyAllFixes(code, diagnosisState.result!.trace))}
+                            className="px-3 py-1.5 rounded-lg border border-emerald-500/40 text-emerald-300 hover:bg-emerald-500/10 text-xs font-mono flex items-center gap-2 transition-colors"
+                          >
+                            <Wand2 size={14} /> {t('fix.applyAll', { n: readyFixCount })}
+                          </button>
+                        )}
+                      </div>
+                    )}
+                    {activeView === 'variables' ? (
+                      <VariableTimeline
+                        trace={diagnosisState.result.trace}
+                        locale={locale}
+                        onStepSelect={step => step.range && setRevealLine({ line: step.range.startLine, nonce: Date.now() })}
+                      />
+                    ) : activeView === 'flow' ? (
+                      <ControlFlowView
+                        code={diagnosedCode ?? code}
+                        trace={diagnosisState.result.trace}
+                        locale={locale}
+                        errorLine={diagnosisState.execution?.errorLine ?? diagnosisState.traceback?.errorLine}
+                        onLineSelect={line => setRevealLine({ line, nonce: Date.now() })}
+                      />
+                    ) : (
+                      <TraceMap
+                        trace={diagnosisState.result.trace}
+                        locale={locale}
+                        onStepSelect={step => step.range && setRevealLine({ line: step.range.startLine, nonce: Date.now() })}
+                        runtimeMatch={diagnosisState.execution?.errorLine ? {
+                          stepIndex: findStepForLine(diagnosisState.result.trace, code, diagnosisState.execution.errorLine),
+                          line: diagnosisState.execution.errorLine,
+                          source: 'sandbox',
+                        } : diagnosisState.traceback?.errorLine !== undefined ? {
+                          stepIndex: findFailingStep(diagnosisState.result.trace, code, diagnosisState.traceback.errorLine),
+                          line: diagnosisState.traceback.errorLine,
+                          source: 'traceback',
+                        } : undefined}
+                        fixStates={fixStates}
+                        onApplyFix={applyStepFix}
+                        hintLevels={settings.hintMode ? activeRun?.hintsUsed ?? {} : undefined}
+                        onRevealHint={revealHint}
+                      />
+                    )}
                   </div>
                   
                   {/* Final Status */}
                   <div className="flex items-center justify-center pt-8 border-t border-slate-800">
                     <div className="flex items-center gap-2 text-slate-500 text-sm font-mono">
                        <CheckCircle size={14} />
-                       <span>分析完成_时间戳_{Date.now()}</span>
+                       <span>{t('report.complete', { time: Date.now() })}</span>
                     </div>
                   </div>
                 </div>
@@ -347,11 +1037,11 @@ const App: React.FC = () => {
       <a
         href={PORTAL_URL}
         className="fixed bottom-6 right-6 z-50 p-4 bg-indigo-600 hover:bg-indigo-500 text-white rounded-full shadow-[0_0_20px_rgba(99,102,241,0.4)] backdrop-blur-md transition-all duration-300 hover:scale-110 hover:-translate-y-1 group flex items-center gap-0 hover:gap-2 overflow-hidden border border-white/20"
-        title="返回备考系统门户"
+        title={t('portal.title')}
       >
         <Home className="w-6 h-6" />
         <span className="max-w-0 group-hover:max-w-xs transition-all duration-500 ease-in-out whitespace-nowrap opacity-0 group-hover:opacity-100 text-sm font-bold">
-          返回门户
+          {t('portal.label')}
         </span>
       </a>
     </div>
@@ -1,90 +1,197 @@
-import React, { useRef, useState, useEffect } from 'react';
-import { Terminal, Eraser } from 'lucide-react';
+import React, { useRef, useState, useEffect, useMemo } from 'react';
+import { Terminal, Eraser, Undo2, Redo2 } from 'lucide-react';
+import { LanguageId, Locale, SourceRange } from '../types';
+import { PythonToken, TokenizeResult, TokenType } from '../services/pythonTokenizer';
+import { LANGUAGES, getLanguage } from '../services/languages';
+import { DEFAULT_LOCALE, createTranslator } from '../services/i18n';
+
+export interface EditorDiagnostic {
+  range: SourceRange;
+  severity: 'error' | 'warning';
+  message: string;
+}
 
 interface CodeEditorProps {
   value: string;
   onChange: (value: string) => void;
   isAnalyzing: boolean;
+  diagnostics?: EditorDiagnostic[];
+  revealLine?: { line: number; nonce: number }; // nonce lets the same line be revealed twice
+  language?: LanguageId;
+  onLanguageChange?: (language: LanguageId) => void; // shows the language selector when set
+  title?: string; // defaults to the language's file label
+  placeholder?: string; // defaults to the language's sample snippet
+  minLines?: number; // gutter always shows at least this many line numbers
+  onSubmit?: () => void; // Ctrl/Cmd+Enter
+  autoFocus?: boolean;
+  locale?: Locale;
 }
 
-// Lightweight Python Syntax Highlighter Logic
-const highlightPython = (code: string) => {
-  if (!code) return null;
-
-  // Split by strings and comments first.
-  // This preserves the logic that we don't highlight keywords inside strings/comments.
-  const tokens = code.split(/(".*?"|'.*?'|#.*$)/gm);
-  
-  const keywordsList = "def|class|return|if|else|elif|for|while|import|from|try|except|print|in|is|not|and|or|True|False|None|as|with|pass|break|continue|global|lambda|yield".split('|');
-  const keywordsSet = new Set(keywordsList);
-
-  // Regex construction:
-  // We need to match keywords, numbers, or identifiers followed by (.
-  // Order: Keywords (highest priority), Function Calls, Numbers.
-  // Note: We use non-capturing groups (?:) inside the alternatives, 
-  // but wrap the WHOLE thing in one capturing group for .split() to retain it.
-  const syntaxRegex = new RegExp(
-    `(` +
-    `\\b(?:${keywordsList.join('|')})\\b` + // Keywords
-    `|` +
-    `\\b[a-zA-Z_][a-zA-Z0-9_]*(?=\\()` + // Function calls
-    `|` +
-    `\\b\\d+\\b` + // Numbers
-    `)`,
-    'g'
-  );
+type Severity = EditorDiagnostic['severity'];
+
+const UNDO_LIMIT = 200;
+const TYPING_GROUP_MS = 800; // keystrokes closer together than this undo as one step
+
+const SQUIGGLE_CLASS: Record<Severity, string> = {
+  error: 'underline decoration-wavy decoration-rose-500 bg-rose-500/10',
+  warning: 'underline decoration-wavy decoration-amber-400 bg-amber-500/10',
+};
 
-  return tokens.map((token, index) => {
-    // 1. Strings (Green)
-    if (token.startsWith('"') || token.startsWith("'")) {
-       return <span key={index} className="text-emerald-400">{token}</span>;
+// Worst severity per line, for the gutter.
+const severityByLine = (diagnostics: EditorDiagnostic[]): Map<number, EditorDiagnostic> => {
+  const map = new Map<number, EditorDiagnostic>();
+  for (const d of diagnostics) {
+    for (let line = d.range.startLine; line <= d.range.endLine; line++) {
+      const existing = map.get(line);
+      if (!existing || (existing.severity === 'warning' && d.severity === 'error')) map.set(line, d);
     }
-    // 2. Comments (Gray Italic)
-    if (token.startsWith('#')) {
-       return <span key={index} className="text-slate-500 italic">{token}</span>;
+  }
+  return map;
+};
+
+// Transparent copy of the code (one block per line) carrying squiggly underlines.
+// It wraps exactly like the highlight layer, so it doubles as a line-position map for scrolling.
+const renderDiagnosticLayer = (code: string, diagnostics: EditorDiagnostic[], flashLine: number | null) => {
+  return code.split('\n').map((text, i) => {
+    const lineNo = i + 1;
+    const marks: (Severity | null)[] = new Array(text.length).fill(null);
+
+    for (const d of diagnostics) {
+      if (lineNo < d.range.startLine || lineNo > d.range.endLine) continue;
+      const from = lineNo === d.range.startLine ? d.range.startColumn : 0;
+      const to = lineNo === d.range.endLine ? d.range.endColumn : text.length;
+      for (let c = Math.max(0, from); c < Math.min(to, text.length); c++) {
+        if (marks[c] !== 'error') marks[c] = d.severity;
+      }
     }
 
-    // 3. Code
-    // Split by syntax elements using the capturing group regex
-    const parts = token.split(syntaxRegex);
-    
-    const highlightedParts = parts.map((part, partIndex) => {
-       // Even indices: plain text (delimiters, whitespace, non-highlighted identifiers)
-       // Odd indices: matches (keywords, numbers, function calls)
-       if (partIndex % 2 === 0) {
-          // Escape HTML for safety
-          return part.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
-       } else {
-          // Identify what type of match it is
-          if (keywordsSet.has(part)) {
-             return `<span class="text-pink-400 font-bold">${part}</span>`;
-          }
-          if (/^\d+$/.test(part)) {
-             return `<span class="text-amber-400">${part}</span>`;
-          }
-          // Default to function call for other matches (identifiers followed by '(')
-          // Note: The regex for function calls matches the identifier but NOT the '('. 
-          // The '(' remains in the 'next' even part.
-          return `<span class="text-cyan-400">${part}</span>`;
-       }
-    }).join('');
-
-    return <span key={index} dangerouslySetInnerHTML={{ __html: highlightedParts }} />;
+    // Group consecutive columns with the same mark into spans
+    const pieces: React.ReactNode[] = [];
+    let start = 0;
+    for (let c = 1; c <= text.length; c++) {
+      if (c === text.length || marks[c] !== marks[start]) {
+        const chunk = text.slice(start, c);
+        const mark = marks[start];
+        pieces.push(mark ? <span key={start} className={SQUIGGLE_CLASS[mark]}>{chunk}</span> : chunk);
+        start = c;
+      }
+    }
+
+    return (
+      <div key={i} data-line={lineNo} className={`transition-colors duration-700 ${flashLine === lineNo ? 'bg-neon-blue/20' : ''}`}>
+        {text.length ? pieces : '\u00A0'}
+      </div>
+    );
   });
 };
 
-export const CodeEditor: React.FC<CodeEditorProps> = ({ value, onChange, isAnalyzing }) => {
+const TOKEN_CLASS: Partial<Record<TokenType, string>> = {
+  keyword: 'text-pink-400 font-bold',
+  softKeyword: 'text-pink-400 font-bold',
+  builtin: 'text-violet-400',
+  function: 'text-cyan-400',
+  decorator: 'text-yellow-300',
+  number: 'text-amber-400',
+  string: 'text-emerald-400',
+  comment: 'text-slate-500 italic',
+  error: 'text-rose-400 underline decoration-dotted',
+};
+
+// Renders tokenizer output; unstyled tokens (names, operators, whitespace) stay plain text.
+const highlightPython = (tokens: PythonToken[]) =>
+  tokens.map((token, index) => {
+    const className = TOKEN_CLASS[token.type];
+    return className ? <span key={index} className={className}>{token.text}</span> : token.text;
+  });
+
+export const CodeEditor: React.FC<CodeEditorProps> = ({
+  value,
+  onChange,
+  isAnalyzing,
+  diagnostics = [],
+  revealLine,
+  language: languageId,
+  onLanguageChange,
+  title,
+  placeholder,
+  minLines = 15,
+  onSubmit,
+  autoFocus,
+  locale = DEFAULT_LOCALE,
+}) => {
+  const t = createTranslator(locale);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const preRef = useRef<HTMLPreElement>(null);
+  const markerRef = useRef<HTMLDivElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
   const [lineCount, setLineCount] = useState(1);
+  const [flashLine, setFlashLine] = useState<number | null>(null);
+  const tokenCacheRef = useRef<TokenizeResult | undefined>(undefined);
+  const language = getLanguage(languageId);
+
+  // Undo/redo. The textarea's native history is lost whenever the value is replaced from
+  // outside (applied fixes, imports, reopened runs), so the editor keeps its own.
+  // Every outside change is one step; bursts of typing are grouped.
+  const historyRef = useRef({ past: [] as string[], future: [] as string[], current: value, typedAt: 0 });
+  const typingRef = useRef(false);
+  const [historySize, setHistorySize] = useState({ past: 0, future: 0 });
+
+  useEffect(() => {
+    const history = historyRef.current;
+    if (value === history.current) return; // echo of our own undo/redo
+    const now = Date.now();
+    const grouped = typingRef.current && now - history.typedAt < TYPING_GROUP_MS;
+    if (!grouped) history.past = [...history.past, history.current].slice(-UNDO_LIMIT);
+    history.future = [];
+    history.current = value;
+    history.typedAt = typingRef.current ? now : 0;
+    typingRef.current = false;
+    setHistorySize({ past: history.past.length, future: 0 });
+  }, [value]);
+
+  const stepHistory = (direction: 'undo' | 'redo') => {
+    const history = historyRef.current;
+    const from = direction === 'undo' ? history.past : history.future;
+    const to = direction === 'undo' ? history.future : history.past;
+    const target = from.pop();
+    if (target === undefined) return;
+    to.push(history.current);
+    history.current = target;
+    history.typedAt = 0;
+    setHistorySize({ past: history.past.length, future: history.future.length });
+    onChange(target);
+  };
+
+  // Re-tokenize incrementally: lines untouched by the edit are reused from the last pass
+  const tokens = useMemo(() => {
+    const result = language.tokenize(value, tokenCacheRef.current);
+    tokenCacheRef.current = result;
+    return result.tokens;
+  }, [value, language]);
 
   // Sync line count on value change
   useEffect(() => {
     setLineCount(value.split('\n').length);
   }, [value]);
 
+  // Scroll a requested line into view and briefly flash it
+  useEffect(() => {
+    if (!revealLine || !textareaRef.current || !markerRef.current) return;
+    const lineEl = markerRef.current.querySelector<HTMLElement>(`[data-line="${revealLine.line}"]`);
+    if (!lineEl) return;
+
+    console.log(`[CodeDoctor] Revealing editor line ${revealLine.line}.`);
+    textareaRef.current.scrollTop = Math.max(0, lineEl.offsetTop - 64);
+    setFlashLine(revealLine.line);
+    const timer = setTimeout(() => setFlashLine(null), 1500);
+    return () => clearTimeout(timer);
+  }, [revealLine]);
+
+  const markedLines = severityByLine(diagnostics);
+
   const handleInput = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const val = e.target.value;
+    typingRef.current = true;
     onChange(val);
   };
 
@@ -93,25 +200,54 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ value, onChange, isAnaly
       preRef.current.scrollTop = e.currentTarget.scrollTop;
       preRef.current.scrollLeft = e.currentTarget.scrollLeft;
     }
+    if (markerRef.current) {
+      markerRef.current.scrollTop = e.currentTarget.scrollTop;
+      markerRef.current.scrollLeft = e.currentTarget.scrollLeft;
+    }
+    if (gutterRef.current) {
+      gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+    }
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-    if (e.key === 'Tab') {
-      e.preventDefault();
-      const textarea = textareaRef.current;
-      if (!textarea) return;
-
-      const start = textarea.selectionStart;
-      const end = textarea.selectionEnd;
-      const spaces = '    '; // 4 spaces for Python
+  // Replaces the selection with `text` and puts the caret after it
+  const insertText = (textarea: HTMLTextAreaElement, text: string) => {
+    const start = textarea.selectionStart;
+    const end = textarea.selectionEnd;
+    typingRef.current = true;
+    onChange(value.substring(0, start) + text + value.substring(end));
 
-      const newValue = value.substring(0, start) + spaces + value.substring(end);
-      onChange(newValue);
+    // Move caret
+    setTimeout(() => {
+      textarea.selectionStart = textarea.selectionEnd = start + text.length;
+    }, 0);
+  };
 
-      // Move caret
-      setTimeout(() => {
-        textarea.selectionStart = textarea.selectionEnd = start + spaces.length;
-      }, 0);
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const textarea = textareaRef.current;
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey) && onSubmit) {
+      e.preventDefault();
+      onSubmit();
+      return;
+    }
+    if ((e.ctrlKey || e.metaKey) && !e.altKey && (e.key.toLowerCase() === 'z' || e.key.toLowerCase() === 'y')) {
+      e.preventDefault();
+      stepHistory(e.key.toLowerCase() === 'y' || e.shiftKey ? 'redo' : 'undo');
+      return;
+    }
+    if (e.key === 'Tab' && textarea) {
+      e.preventDefault();
+      insertText(textarea, language.indent.unit);
+    }
+    // Keep the current indentation on Enter, one level deeper after a block opener
+    if (e.key === 'Enter' && !e.shiftKey && textarea && textarea.selectionStart === textarea.selectionEnd) {
+      const lineStart = value.lastIndexOf('\n', textarea.selectionStart - 1) + 1;
+      const currentLine = value.substring(lineStart, textarea.selectionStart);
+      const indent = /^[ \t]*/.exec(currentLine)![0];
+      const deeper = language.indent.opensBlock?.test(currentLine) ? language.indent.unit : '';
+      if (indent || deeper) {
+        e.preventDefault();
+        insertText(textarea, '\n' + indent + deeper);
+      }
     }
   };
 
@@ -127,26 +263,68 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ value, onChange, isAnaly
       <div className="flex items-center justify-between px-4 py-3 bg-slate-900 border-b border-slate-800">
         <div className="flex items-center gap-2 text-neon-blue">
           <Terminal size={18} />
-          <span className="font-mono text-sm font-bold tracking-wider">SOURCE_INPUT.py</span>
+          <span className="font-mono text-sm font-bold tracking-wider">{title ?? language.fileLabel}</span>
+          {onLanguageChange && (
+            <select
+              value={language.id}
+              onChange={e => onLanguageChange(e.target.value as LanguageId)}
+              disabled={isAnalyzing}
+              className="ml-2 bg-slate-800 border border-slate-700 rounded px-2 py-0.5 text-xs font-mono text-slate-300 focus:outline-none focus:border-neon-blue"
+            >
+              {Object.values(LANGUAGES).map(lang => (
+                <option key={lang.id} value={lang.id}>{lang.label}</option>
+              ))}
+            </select>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => stepHistory('undo')}
+            disabled={isAnalyzing || historySize.past === 0}
+            title={t('editor.undo')}
+            className="text-slate-500 hover:text-slate-300 transition-colors disabled:opacity-30 disabled:hover:text-slate-500"
+          >
+            <Undo2 size={14} />
+          </button>
+          <button
+            onClick={() => stepHistory('redo')}
+            disabled={isAnalyzing || historySize.future === 0}
+            title={t('editor.redo')}
+            className="text-slate-500 hover:text-slate-300 transition-colors disabled:opacity-30 disabled:hover:text-slate-500"
+          >
+            <Redo2 size={14} />
+          </button>
+          <button 
+            onClick={handleClear}
+            className="text-slate-500 hover:text-slate-300 transition-colors text-xs flex items-center gap-1"
+            disabled={isAnalyzing}
+          >
+            <Eraser size={14} />
+            {t('editor.clear')}
+          </button>
         </div>
-        <button 
-          onClick={handleClear}
-          className="text-slate-500 hover:text-slate-300 transition-colors text-xs flex items-center gap-1"
-          disabled={isAnalyzing}
-        >
-          <Eraser size={14} />
-          清空
-        </button>
       </div>
 
       {/* Editor Area */}
       <div className="relative flex-1 bg-slate-950 font-mono text-sm overflow-hidden group">
         
         {/* Line Numbers Sidebar */}
-        <div className="absolute left-0 top-0 bottom-0 w-12 bg-slate-900/50 border-r border-slate-800 text-right pr-3 pt-4 text-slate-600 select-none font-mono leading-6 z-20">
-          {Array.from({ length: Math.max(lineCount, 15) }).map((_, i) => (
-            <div key={i}>{i + 1}</div>
-          ))}
+        <div ref={gutterRef} className="absolute left-0 top-0 bottom-0 w-12 bg-slate-900/50 border-r border-slate-800 text-right pr-3 pt-4 text-slate-600 select-none font-mono leading-6 z-20 overflow-hidden">
+          {Array.from({ length: Math.max(lineCount, minLines) }).map((_, i) => {
+            const mark = markedLines.get(i + 1);
+            return (
+              <div
+                key={i}
+                title={mark?.message}
+                className={`relative ${mark ? (mark.severity === 'error' ? 'text-rose-400 font-bold' : 'text-amber-400 font-bold') : ''}`}
+              >
+                {mark && (
+                  <span className={`absolute left-1 top-1/2 -translate-y-1/2 w-1.5 h-1.5 rounded-full ${mark.severity === 'error' ? 'bg-rose-500' : 'bg-amber-400'}`} />
+                )}
+                {i + 1}
+              </div>
+            );
+          })}
         </div>
 
         {/* 
@@ -162,11 +340,20 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ value, onChange, isAnaly
           aria-hidden="true"
           className="absolute inset-0 pl-14 pr-4 pt-4 w-full h-full bg-transparent resize-none leading-6 pointer-events-none whitespace-pre-wrap break-all overflow-hidden text-slate-300 font-mono"
         >
-          {highlightPython(value)}
+          {highlightPython(tokens)}
           {/* Add a break at the end to ensure newlines are rendered correctly in pre */}
           <br />
         </pre>
 
+        {/* Layer 1b: Diagnostics (squiggles + line map) */}
+        <div
+          ref={markerRef}
+          aria-hidden="true"
+          className="absolute inset-0 pl-14 pr-4 pt-4 w-full h-full leading-6 pointer-events-none whitespace-pre-wrap break-all overflow-hidden text-transparent font-mono"
+        >
+          {renderDiagnosticLayer(value, diagnostics, flashLine)}
+        </div>
+
         {/* Layer 2: Input (Foreground) */}
         <textarea
           ref={textareaRef}
@@ -179,7 +366,8 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ value, onChange, isAnaly
           autoComplete="off"
           autoCorrect="off"
           disabled={isAnalyzing}
-          placeholder="# 在此粘贴 Python 代码...&#10;def hello():&#10;    print('你好，世界')"
+          autoFocus={autoFocus}
+          placeholder={placeholder ?? language.sample}
           className="absolute inset-0 pl-14 pr-4 pt-4 w-full h-full bg-transparent resize-none text-transparent caret-white focus:outline-none focus:ring-0 leading-6 z-10 font-mono selection:bg-neon-blue/30 selection:text-transparent"
         />
       </div>
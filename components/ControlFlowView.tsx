@@ -0,0 +1,206 @@
+import React, { useMemo } from 'react';
+import { Locale, TraceStep } from '../types';
+import { createTranslator, MessageKey } from '../services/i18n';
+import { buildControlFlowGraph, CfgEdge, CfgEdgeKind, CfgNode, overlayTrace } from '../services/controlFlow';
+import { stepLabels } from './TraceMap';
+
+interface ControlFlowViewProps {
+  code: string; // 诊断时的代码 (trace 的行号以它为准)
+  trace: TraceStep[];
+  locale: Locale;
+  errorLine?: number; // 沙箱或 traceback 报告的出错行
+  onLineSelect?: (line: number) => void;
+}
+
+const NODE_W = 240;
+const NODE_H = 30;
+const ROW_H = 50;
+const INDENT = 28;
+const PAD_LEFT = 64; // step badges and the lane for edges that skip rows
+const PAD_TOP = 16;
+const SECTION_GAP = 28;
+const LANE_GAP = 6;
+
+const EDGE_LABELS: Partial<Record<CfgEdgeKind, MessageKey>> = {
+  true: 'cfg.edge.true',
+  false: 'cfg.edge.false',
+  exception: 'cfg.edge.exception',
+};
+
+interface Placed {
+  node: CfgNode;
+  x: number;
+  y: number;
+  row: number;
+}
+
+// One section per scope, stacked: rows in source order, columns by nesting depth.
+const layout = (nodes: CfgNode[], scopeCount: number) => {
+  const placed = new Map<number, Placed>();
+  let top = PAD_TOP;
+  for (let scope = 0; scope < scopeCount; scope++) {
+    const order = (node: CfgNode) => (node.kind === 'entry' ? -Infinity : node.kind === 'exit' ? Infinity : node.startLine);
+    const members = nodes.filter(node => node.scope === scope).sort((a, b) => order(a) - order(b) || a.id - b.id);
+    members.forEach((node, row) => placed.set(node.id, { node, row, x: PAD_LEFT + node.depth * INDENT, y: top + row * ROW_H }));
+    top += members.length * ROW_H + SECTION_GAP;
+  }
+  const right = Math.max(...[...placed.values()].map(p => p.x + NODE_W));
+  return { placed, right, height: top - SECTION_GAP + PAD_TOP };
+};
+
+type Route = 'down' | 'skip' | 'back';
+
+const routeOf = (a: Placed, b: Placed, edge: CfgEdge): Route =>
+  edge.kind === 'back' || b.row <= a.row ? 'back' : b.row === a.row + 1 ? 'down' : 'skip';
+
+// Adjacent rows: straight down. Rows further apart: a lane on the left. Back edges: a lane on the right.
+const edgePath = (a: Placed, b: Placed, route: Route, lane: number, right: number): string => {
+  const ay = a.y + NODE_H / 2;
+  const by = b.y + NODE_H / 2;
+  if (route === 'back') {
+    const x = right + 14 + lane * LANE_GAP;
+    return `M ${a.x + NODE_W} ${ay} H ${x} V ${by} H ${b.x + NODE_W + 6}`;
+  }
+  if (route === 'down') {
+    const mid = a.y + NODE_H + (ROW_H - NODE_H) / 2;
+    return `M ${a.x + 16} ${a.y + NODE_H} V ${mid} H ${b.x + 16} V ${b.y - 6}`;
+  }
+  const x = Math.min(a.x, b.x) - 10 - lane * LANE_GAP;
+  return `M ${a.x} ${ay} H ${x} V ${by} H ${b.x - 6}`;
+};
+
+const MAX_LABEL = 30;
+const clip = (text: string) => (text.length > MAX_LABEL ? `${text.slice(0, MAX_LABEL - 1)}…` : text);
+
+const NODE_STYLES: Record<CfgNode['kind'], string> = {
+  entry: 'fill-slate-800 stroke-slate-500',
+  exit: 'fill-slate-900 stroke-slate-600',
+  block: 'fill-slate-900 stroke-slate-600',
+  branch: 'fill-indigo-950 stroke-indigo-500/70',
+  loop: 'fill-cyan-950 stroke-cyan-500/70',
+  try: 'fill-slate-900 stroke-amber-500/60',
+  handler: 'fill-amber-950/60 stroke-amber-500/60',
+};
+
+const NodeShape: React.FC<{ node: CfgNode; className: string }> = ({ node, className }) => {
+  if (node.kind === 'branch' || node.kind === 'loop') {
+    const tip = 10;
+    return <polygon points={`${tip},0 ${NODE_W - tip},0 ${NODE_W},${NODE_H / 2} ${NODE_W - tip},${NODE_H} ${tip},${NODE_H} 0,${NODE_H / 2}`} className={className} strokeWidth={1.5} />;
+  }
+  const rx = node.kind === 'entry' || node.kind === 'exit' ? NODE_H / 2 : 4;
+  const dashed = node.kind === 'try' || node.kind === 'handler';
+  return <rect width={NODE_W} height={NODE_H} rx={rx} className={className} strokeWidth={1.5} strokeDasharray={dashed ? '4 3' : undefined} />;
+};
+
+// Alternative TraceMap view: the control-flow graph of the code, with the trace drawn as the path taken.
+export const ControlFlowView: React.FC<ControlFlowViewProps> = ({ code, trace, locale, errorLine, onLineSelect }) => {
+  const t = createTranslator(locale);
+  const graph = useMemo(() => buildControlFlowGraph(code), [code]);
+  const overlay = useMemo(() => overlayTrace(graph, trace, errorLine), [graph, trace, errorLine]);
+  const { placed, right, height } = useMemo(() => layout(graph.nodes, graph.scopes.length), [graph]);
+  const labels = stepLabels(trace);
+
+  const pathEdges = new Set(overlay.path.slice(1).map((to, i) => `${overlay.path[i]}-${to}`));
+  const hasPath = overlay.path.length > 0;
+  const backLanes = graph.edges.filter(edge => edge.kind === 'back').length;
+  const width = right + 24 + backLanes * LANE_GAP;
+
+  let back = 0;
+  let skip = 0;
+  const edges = graph.edges.map((edge, i) => {
+    const a = placed.get(edge.from)!;
+    const b = placed.get(edge.to)!;
+    const route = routeOf(a, b, edge);
+    const lane = route === 'back' ? back++ : route === 'skip' ? skip++ % 3 : 0;
+    const onPath = pathEdges.has(`${edge.from}-${edge.to}`);
+    return { edge, i, a, route, d: edgePath(a, b, route, lane, right), onPath };
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto rounded-lg border border-slate-700 bg-slate-950/60">
+        <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="font-mono text-[11px]">
+          <defs>
+            {(['plain', 'path', 'exception'] as const).map(kind => (
+              <marker key={kind} id={`cfg-arrow-${kind}`} viewBox="0 0 8 8" refX="6" refY="4" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                <path d="M 0 0 L 8 4 L 0 8 z" className={kind === 'path' ? 'fill-sky-400' : kind === 'exception' ? 'fill-amber-500' : 'fill-slate-600'} />
+              </marker>
+            ))}
+          </defs>
+
+          {edges.map(({ edge, i, a, route, d, onPath }) => {
+            const marker = onPath ? 'path' : edge.kind === 'exception' ? 'exception' : 'plain';
+            const label = EDGE_LABELS[edge.kind];
+            return (
+              <g key={i} className={hasPath && !onPath ? 'opacity-50' : undefined}>
+                <path
+                  d={d}
+                  fill="none"
+                  strokeWidth={onPath ? 2.5 : 1.2}
+                  strokeDasharray={edge.kind === 'exception' ? '4 3' : undefined}
+                  className={onPath ? 'stroke-sky-400' : edge.kind === 'exception' ? 'stroke-amber-500/70' : 'stroke-slate-600'}
+                  markerEnd={`url(#cfg-arrow-${marker})`}
+                />
+                {label && route === 'down' && (
+                  <text x={a.x + 22} y={a.y + NODE_H + 11} className="fill-slate-500 text-[9px]">
+                    {t(label)}
+                  </text>
+                )}
+                {label && route === 'skip' && (
+                  <text x={a.x + 4} y={a.y + NODE_H + 11} className="fill-slate-500 text-[9px]">
+                    {`↙ ${t(label)}`}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
+          {[...placed.values()].map(({ node, x, y }) => {
+            const steps = overlay.stepsByNode.get(node.id) ?? [];
+            const isError = overlay.errorNode === node.id;
+            const visited = steps.length > 0;
+            const style = isError ? 'fill-rose-950 stroke-rose-500' : visited ? `${NODE_STYLES[node.kind]} !stroke-sky-400` : NODE_STYLES[node.kind];
+            const isCode = node.kind !== 'entry' && node.kind !== 'exit';
+            const text = node.kind === 'exit' ? t('cfg.exit') : node.kind === 'entry' && node.scope === 0 ? t('cfg.module') : node.label;
+            return (
+              <g
+                key={node.id}
+                transform={`translate(${x} ${y})`}
+                onClick={isCode && onLineSelect ? () => onLineSelect(node.startLine) : undefined}
+                className={`${isCode && onLineSelect ? 'cursor-pointer' : ''} ${hasPath && !visited && !isError ? 'opacity-60' : ''}`}
+              >
+                <title>{isCode ? `L${node.startLine}${node.endLine !== node.startLine ? `-${node.endLine}` : ''}  ${node.label}` : text}</title>
+                <NodeShape node={node} className={style} />
+                <text x={node.kind === 'branch' || node.kind === 'loop' ? 14 : 10} y={NODE_H / 2 + 4} className={isError ? 'fill-rose-200' : 'fill-slate-200'}>
+                  {clip(text)}
+                </text>
+                {isCode && (
+                  <text x={NODE_W - 8} y={NODE_H / 2 + 4} textAnchor="end" className="fill-slate-500 text-[9px]">
+                    L{node.startLine}
+                  </text>
+                )}
+                {visited && (
+                  <g transform={`translate(${4 - x} 0)`}>
+                    <rect y={6} width={PAD_LEFT - 28} height={NODE_H - 12} rx={9} className={isError ? 'fill-rose-600' : 'fill-sky-600'} />
+                    <text x={(PAD_LEFT - 28) / 2} y={NODE_H / 2 + 4} textAnchor="middle" className="fill-white text-[9px] font-bold">
+                      {steps.slice(0, 2).map(index => labels[index]).join(',')}{steps.length > 2 ? '…' : ''}
+                    </text>
+                  </g>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-[10px] font-mono text-slate-500">
+        <span className="flex items-center gap-1"><span className="w-4 h-0.5 bg-sky-400" /> {t('cfg.legend.path')}</span>
+        <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-rose-950 border border-rose-500" /> {t('cfg.legend.error')}</span>
+        <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-indigo-950 border border-indigo-500" /> {t('cfg.legend.branch')}</span>
+        <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-cyan-950 border border-cyan-500" /> {t('cfg.legend.loop')}</span>
+        <span className="flex items-center gap-1"><span className="w-4 h-0 border-t border-dashed border-amber-500" /> {t('cfg.legend.exception')}</span>
+        {!hasPath && <span className="text-amber-400/80">{t('cfg.noPath')}</span>}
+      </div>
+    </div>
+  );
+};
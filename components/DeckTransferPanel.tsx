@@ -0,0 +1,187 @@
+import React, { useRef, useState } from 'react';
+import { X, Download, Upload, ArrowDownUp, FileJson, FileSpreadsheet, FileText } from 'lucide-react';
+import { Flashcard, Locale } from '../types';
+import {
+  DeckImportError, DeckImportFailureReason, DuplicatePolicy, EXPORT_FILE_INFO, ExportFormat, ImportPlan, ProgressPolicy,
+  exportDeck, mergeDeck, parseDeckFile, planImport,
+} from '../services/deckTransfer';
+import { MessageKey, createTranslator } from '../services/i18n';
+
+interface DeckTransferPanelProps {
+  cards: Flashcard[];
+  locale: Locale;
+  onImport: (merged: Flashcard[]) => void;
+  onClose: () => void;
+}
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: MessageKey; hint: MessageKey; icon: React.ReactNode }[] = [
+  { format: 'json', label: 'deck.format.json', hint: 'deck.format.json.hint', icon: <FileJson size={16} /> },
+  { format: 'csv', label: 'deck.format.csv', hint: 'deck.format.csv.hint', icon: <FileSpreadsheet size={16} /> },
+  { format: 'anki', label: 'deck.format.anki', hint: 'deck.format.anki.hint', icon: <FileText size={16} /> },
+];
+
+const IMPORT_ERROR_KEYS: Record<DeckImportFailureReason, MessageKey> = {
+  invalidJson: 'deck.error.invalidJson',
+  noCards: 'deck.error.noCards',
+  unsupportedVersion: 'deck.error.unsupportedVersion',
+  emptyCsv: 'deck.error.emptyCsv',
+  missingColumn: 'deck.error.missingColumn',
+};
+
+const download = (content: string, format: ExportFormat) => {
+  const { extension, mime } = EXPORT_FILE_INFO[format];
+  const blob = new Blob([content], { type: `${mime};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `code-doctor-deck-${new Date().toISOString().slice(0, 10)}.${extension}`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const DeckTransferPanel: React.FC<DeckTransferPanelProps> = ({ cards, locale, onImport, onClose }) => {
+  const t = createTranslator(locale);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [duplicatePolicy, setDuplicatePolicy] = useState<DuplicatePolicy>('skip');
+  const [progressPolicy, setProgressPolicy] = useState<ProgressPolicy>('keep');
+
+  const handleExport = (format: ExportFormat) => {
+    console.log(`[CodeDoctor] Exporting ${cards.length} cards as ${format}.`);
+    download(exportDeck(cards, format), format);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImportError(null);
+    setPlan(null);
+    try {
+      const incoming = parseDeckFile(file.name, await file.text());
+      setFileName(file.name);
+      setPlan(planImport(cards, incoming));
+    } catch (err) {
+      console.error("[CodeDoctor] Deck import failed:", err);
+      setImportError(err instanceof DeckImportError ? t(IMPORT_ERROR_KEYS[err.reason], err.params) : t('deck.error.unreadable'));
+    }
+  };
+
+  const handleConfirmImport = () => {
+    if (!plan) return;
+    const merged = mergeDeck(cards, plan, duplicatePolicy, progressPolicy);
+    console.log(`[CodeDoctor] Imported deck. Cards: ${cards.length} -> ${merged.length}.`);
+    onImport(merged);
+    onClose();
+  };
+
+  const radioClass = (active: boolean) =>
+    `flex-1 px-3 py-2 rounded-lg border text-xs text-center cursor-pointer transition-colors ${active ? 'border-neon-blue bg-blue-950/30 text-blue-200' : 'border-slate-800 text-slate-400 hover:border-slate-700'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/90 backdrop-blur-sm p-4 animate-[fadeIn_0.3s_ease-out]">
+      <div className="relative w-full max-w-lg bg-slate-900 rounded-2xl overflow-hidden border border-slate-700 shadow-2xl shadow-black/50">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <ArrowDownUp size={20} className="text-neon-blue" />
+            {t('deck.title')}
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-500 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Export */}
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+              {t('deck.export', { n: cards.length })}
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {EXPORT_OPTIONS.map(opt => (
+                <button
+                  key={opt.format}
+                  onClick={() => handleExport(opt.format)}
+                  disabled={cards.length === 0}
+                  className="p-3 rounded-lg border border-slate-800 hover:border-neon-blue text-left transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <div className="flex items-center gap-2 text-sm font-bold text-slate-200">{opt.icon} {t(opt.label)}</div>
+                  <div className="text-[10px] text-slate-500 mt-1">{t(opt.hint)}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Import */}
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+              {t('deck.import')}
+            </label>
+            <input ref={fileInputRef} type="file" accept=".json,.csv,application/json,text/csv" className="hidden" onChange={handleFile} />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full py-3 rounded-lg border border-dashed border-slate-700 hover:border-neon-blue text-slate-400 hover:text-white text-sm flex items-center justify-center gap-2 transition-colors"
+            >
+              <Upload size={16} /> {t('deck.chooseFile')}
+            </button>
+
+            {importError && (
+              <p className="mt-3 text-xs text-rose-400">{importError}</p>
+            )}
+
+            {plan && (
+              <div className="mt-4 p-4 rounded-lg bg-slate-950/50 border border-slate-800 space-y-4">
+                <p className="text-sm text-slate-300">
+                  <span className="font-mono text-slate-500">{fileName}</span>
+                  {' · '}<span className="text-emerald-400 font-bold">{t('deck.fresh', { n: plan.fresh.length })}</span>
+                  {' · '}<span className="text-amber-400 font-bold">{t('deck.duplicates', { n: plan.duplicates.length })}</span>
+                </p>
+
+                {plan.duplicates.length > 0 && (
+                  <div>
+                    <div className="text-[10px] text-slate-500 uppercase tracking-wider mb-1">{t('deck.duplicatePolicy')}</div>
+                    <div className="flex gap-2">
+                      <label className={radioClass(duplicatePolicy === 'skip')}>
+                        <input type="radio" className="hidden" checked={duplicatePolicy === 'skip'} onChange={() => setDuplicatePolicy('skip')} />
+                        {t('deck.skip')}
+                      </label>
+                      <label className={radioClass(duplicatePolicy === 'replace')}>
+                        <input type="radio" className="hidden" checked={duplicatePolicy === 'replace'} onChange={() => setDuplicatePolicy('replace')} />
+                        {t('deck.replace')}
+                      </label>
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <div className="text-[10px] text-slate-500 uppercase tracking-wider mb-1">{t('deck.progressPolicy')}</div>
+                  <div className="flex gap-2">
+                    <label className={radioClass(progressPolicy === 'keep')}>
+                      <input type="radio" className="hidden" checked={progressPolicy === 'keep'} onChange={() => setProgressPolicy('keep')} />
+                      {t('deck.keepProgress')}
+                    </label>
+                    <label className={radioClass(progressPolicy === 'reset')}>
+                      <input type="radio" className="hidden" checked={progressPolicy === 'reset'} onChange={() => setProgressPolicy('reset')} />
+                      {t('deck.resetProgress')}
+                    </label>
+                  </div>
+                </div>
+
+                <button
+                  onClick={handleConfirmImport}
+                  disabled={plan.fresh.length === 0 && (plan.duplicates.length === 0 || duplicatePolicy === 'skip')}
+                  className="w-full py-2 bg-neon-blue hover:bg-blue-400 text-slate-950 font-bold rounded-lg transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Download size={16} /> {t('deck.confirm')}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
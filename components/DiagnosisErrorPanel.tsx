@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Ban, Clock, FileWarning, KeyRound, RotateCcw, Scissors, ServerCrash, Settings, ShieldAlert, Timer, WifiOff } from 'lucide-react';
+import { DiagnosisErrorCode, DiagnosisFailure, Locale, SuggestedAction } from '../types';
+import { createTranslator, MessageKey, Translate } from '../services/i18n';
+
+interface DiagnosisErrorPanelProps {
+  failure: DiagnosisFailure;
+  locale: Locale;
+  onRetry: () => void;
+  onOpenSettings: () => void;
+}
+
+const FAILURE_VIEWS: Record<DiagnosisErrorCode, { icon: React.ElementType; tone: string; title: MessageKey; explanation: MessageKey }> = {
+  notConfigured: { icon: KeyRound, tone: 'amber', title: 'failure.notConfigured.title', explanation: 'failure.notConfigured.explanation' },
+  auth: { icon: KeyRound, tone: 'rose', title: 'failure.auth.title', explanation: 'failure.auth.explanation' },
+  rateLimit: { icon: Clock, tone: 'amber', title: 'failure.rateLimit.title', explanation: 'failure.rateLimit.explanation' },
+  network: { icon: WifiOff, tone: 'slate', title: 'failure.network.title', explanation: 'failure.network.explanation' },
+  timeout: { icon: Timer, tone: 'amber', title: 'failure.timeout.title', explanation: 'failure.timeout.explanation' },
+  server: { icon: ServerCrash, tone: 'rose', title: 'failure.server.title', explanation: 'failure.server.explanation' },
+  invalidOutput: { icon: FileWarning, tone: 'amber', title: 'failure.invalidOutput.title', explanation: 'failure.invalidOutput.explanation' },
+  safety: { icon: ShieldAlert, tone: 'rose', title: 'failure.safety.title', explanation: 'failure.safety.explanation' },
+  inputTooLong: { icon: Scissors, tone: 'amber', title: 'failure.inputTooLong.title', explanation: 'failure.inputTooLong.explanation' },
+  badRequest: { icon: Ban, tone: 'rose', title: 'failure.badRequest.title', explanation: 'failure.badRequest.explanation' },
+  unknown: { icon: AlertTriangle, tone: 'rose', title: 'failure.unknown.title', explanation: 'failure.unknown.explanation' },
+};
+
+const TONE_CLASSES: Record<string, string> = {
+  rose: 'bg-rose-500/10 text-rose-500',
+  amber: 'bg-amber-500/10 text-amber-400',
+  slate: 'bg-slate-500/10 text-slate-300',
+};
+
+const buttonClass = "px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-sm font-mono border border-slate-700 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed";
+
+// Rate-limit retry: disabled until the provider's suggested wait has passed
+const WaitAndRetryButton: React.FC<{ seconds: number; onRetry: () => void; t: Translate }> = ({ seconds, onRetry, t }) => {
+  const [remaining, setRemaining] = useState(seconds);
+
+  useEffect(() => {
+    setRemaining(seconds);
+    const timer = setInterval(() => setRemaining(prev => Math.max(0, prev - 1)), 1000);
+    return () => clearInterval(timer);
+  }, [seconds]);
+
+  return (
+    <button onClick={onRetry} disabled={remaining > 0} className={buttonClass}>
+      <Clock size={14} />
+      {remaining > 0 ? t('failure.action.waitAndRetry', { n: remaining }) : t('failure.action.retry')}
+    </button>
+  );
+};
+
+export const DiagnosisErrorPanel: React.FC<DiagnosisErrorPanelProps> = ({ failure, locale, onRetry, onOpenSettings }) => {
+  const t = createTranslator(locale);
+  const view = FAILURE_VIEWS[failure.code] ?? FAILURE_VIEWS.unknown;
+  const Icon = view.icon;
+
+  const renderButton = (action: SuggestedAction, key: number) => {
+    switch (action.type) {
+      case 'openSettings':
+        return (
+          <button key={key} onClick={onOpenSettings} className={buttonClass}>
+            <Settings size={14} /> {t('failure.action.openSettings')}
+          </button>
+        );
+      case 'retry':
+        return (
+          <button key={key} onClick={onRetry} className={buttonClass}>
+            <RotateCcw size={14} /> {t('failure.action.retry')}
+          </button>
+        );
+      case 'waitAndRetry':
+        return <WaitAndRetryButton key={key} seconds={action.seconds} onRetry={onRetry} t={t} />;
+      default:
+        return null;
+    }
+  };
+
+  // Code edits can't be done by a button; they are listed as advice
+  const hints = failure.actions.filter(action => action.type === 'shortenCode' || action.type === 'editCode');
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full text-center p-8">
+      <div className={`w-16 h-16 rounded-full flex items-center justify-center mb-4 ${TONE_CLASSES[view.tone]}`}>
+        <Icon size={32} />
+      </div>
+      <h3 className="text-xl font-bold text-white mb-2">{t(view.title)}</h3>
+      <p className="text-slate-300 max-w-md mb-2">{t(view.explanation)}</p>
+      {failure.attempts !== undefined && failure.attempts > 1 && (
+        <p className="text-xs text-slate-500 font-mono mb-2">{t('failure.attempts', { n: failure.attempts })}</p>
+      )}
+
+      {hints.length > 0 && (
+        <ul className="text-sm text-amber-300/80 max-w-md mb-2 space-y-1">
+          {hints.map((action, i) => (
+            <li key={i}>{action.type === 'shortenCode' ? t('failure.action.shortenCode') : t('failure.action.editCode')}</li>
+          ))}
+        </ul>
+      )}
+
+      <details className="w-full max-w-md mb-6 text-left text-xs">
+        <summary className="cursor-pointer text-slate-500 font-mono">{t('failure.details')}</summary>
+        <pre className="mt-2 p-2 rounded bg-slate-950/60 border border-slate-800 text-rose-300/80 whitespace-pre-wrap break-all max-h-40 overflow-y-auto">{failure.message}</pre>
+      </details>
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        {failure.actions.map(renderButton)}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { DiffLine, toHunks } from '../services/textDiff';
+
+interface DiffViewProps {
+  diff: DiffLine[];
+  className?: string;
+  context?: number; // 设置后按 unified diff 的方式只显示改动附近的行
+}
+
+const LINE_STYLE: Record<DiffLine['op'], string> = {
+  equal: 'text-slate-400',
+  add: 'bg-emerald-950/40 text-emerald-300',
+  remove: 'bg-rose-950/40 text-rose-300',
+};
+
+const LINE_PREFIX: Record<DiffLine['op'], string> = {
+  equal: ' ',
+  add: '+',
+  remove: '-',
+};
+
+const renderLine = (line: DiffLine, key: React.Key) => (
+  <div key={key} className={`flex whitespace-pre ${LINE_STYLE[line.op]}`}>
+    <span className="w-8 shrink-0 text-right pr-2 text-slate-600 select-none">{line.oldLine ?? ''}</span>
+    <span className="w-8 shrink-0 text-right pr-2 text-slate-600 select-none border-r border-slate-800">{line.newLine ?? ''}</span>
+    <span className="w-4 shrink-0 text-center select-none">{LINE_PREFIX[line.op]}</span>
+    <span className="pr-3">{line.text || ' '}</span>
+  </div>
+);
+
+export const DiffView: React.FC<DiffViewProps> = ({ diff, className = '', context }) => {
+  return (
+    <div className={`font-mono text-xs rounded-lg border border-slate-800 bg-slate-950/60 overflow-x-auto ${className}`}>
+      {context === undefined
+        ? diff.map(renderLine)
+        : toHunks(diff, context).map((hunk, h) => (
+            <React.Fragment key={h}>
+              <div className="px-2 py-0.5 bg-slate-900 text-cyan-400/80 whitespace-pre select-none border-y border-slate-800 first:border-t-0">
+                @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+              </div>
+              {hunk.lines.map((line, i) => renderLine(line, `${h}-${i}`))}
+            </React.Fragment>
+          ))}
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useMemo } from 'react';
+import { X, Wand2, AlertTriangle } from 'lucide-react';
+import { Locale, TraceStep } from '../types';
+import { createTranslator, MessageKey } from '../services/i18n';
+import { FixBatch, FixState } from '../services/fixApplier';
+import { diffLines } from '../services/textDiff';
+import { DiffView } from './DiffView';
+
+interface FixPreviewPanelProps {
+  code: string; // 应用前的编辑器代码
+  batch: FixBatch;
+  trace: TraceStep[];
+  locale: Locale;
+  onConfirm: (code: string) => void;
+  onClose: () => void;
+}
+
+const SKIP_REASON_KEYS: Record<Exclude<FixState, 'ready'>, MessageKey> = {
+  applied: 'fix.skippedApplied',
+  notFound: 'fix.notFound',
+  ambiguous: 'fix.ambiguous',
+};
+
+export const FixPreviewPanel: React.FC<FixPreviewPanelProps> = ({ code, batch, trace, locale, onConfirm, onClose }) => {
+  const t = createTranslator(locale);
+  const diff = useMemo(() => diffLines(code, batch.code), [code, batch.code]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/90 backdrop-blur-sm p-4 animate-[fadeIn_0.3s_ease-out]">
+      <div className="relative w-full max-w-3xl max-h-[90vh] flex flex-col bg-slate-900 rounded-2xl overflow-hidden border border-slate-700 shadow-2xl shadow-black/50">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <Wand2 size={20} className="text-emerald-400" />
+            {t('fix.previewTitle')}
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-500 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <p className="text-sm text-slate-300">
+            {t('fix.previewSummary', { applied: batch.applied.length, skipped: batch.skipped.length })}
+          </p>
+
+          {batch.skipped.length > 0 && (
+            <ul className="text-xs text-amber-300/80 space-y-1">
+              {batch.skipped.map(({ index, reason }) => (
+                <li key={index} className="flex items-start gap-2">
+                  <AlertTriangle size={12} className="shrink-0 mt-0.5" />
+                  {t('fix.skippedItem', { title: trace[index].title, reason: t(SKIP_REASON_KEYS[reason]) })}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {batch.applied.length > 0 && <DiffView diff={diff} context={3} />}
+        </div>
+
+        <div className="flex items-center gap-2 px-6 py-4 border-t border-slate-800">
+          <span className="flex-1 text-[11px] text-slate-500">{t('fix.undoHint')}</span>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg border border-slate-700 text-slate-400 hover:text-white text-sm transition-colors"
+          >
+            {t('fix.cancel')}
+          </button>
+          <button
+            onClick={() => {
+              onConfirm(batch.code);
+              onClose();
+            }}
+            disabled={batch.applied.length === 0}
+            className="px-4 py-2 bg-neon-green hover:bg-emerald-400 text-slate-950 font-bold rounded-lg transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Wand2 size={16} /> {t('fix.confirm')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
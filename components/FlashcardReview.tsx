@@ -1,13 +1,29 @@
 import React, { useState, useEffect } from 'react';
-import { X, Check, ArrowRight, BrainCircuit, AlertTriangle, Trophy } from 'lucide-react';
-import { Flashcard } from '../types';
+import { X, Check, ArrowRight, BrainCircuit, AlertTriangle, Trophy, Loader2, Eye } from 'lucide-react';
+import { CheckStrategyId, Flashcard, Locale, ProviderSettings } from '../types';
+import { getDueCards } from '../services/scheduler';
+import { checkAnswer, CheckOutcome } from '../services/answerCheckers';
+import { createTranslator, MessageKey, Translate } from '../services/i18n';
+import { diffLines, hasChanges } from '../services/textDiff';
+import { getLanguage } from '../services/languages';
+import { CodeEditor } from './CodeEditor';
+import { DiffView } from './DiffView';
 
 interface FlashcardReviewProps {
   cards: Flashcard[];
+  settings: ProviderSettings;
+  locale: Locale;
   onClose: () => void;
-  onUpdateCard: (id: string, isCorrect: boolean) => void;
+  onUpdateCard: (id: string, isCorrect: boolean, strategy: CheckStrategyId) => void;
 }
 
+const STRATEGY_LABEL_KEYS: Record<CheckStrategyId, MessageKey> = {
+  token: 'strategy.token',
+  ast: 'strategy.ast',
+  llm: 'strategy.llm',
+  self: 'strategy.self',
+};
+
 // Helper for highlighting text (reused logic)
 const HighlightedCode = ({ code, highlight }: { code: string, highlight?: string }) => {
   if (!highlight || !code.includes(highlight)) return <>{code}</>;
@@ -29,36 +45,71 @@ const HighlightedCode = ({ code, highlight }: { code: string, highlight?: string
   );
 };
 
-export const FlashcardReview: React.FC<FlashcardReviewProps> = ({ cards, onClose, onUpdateCard }) => {
+// Reference answer, plus a line diff from the student's answer when they differ
+const AnswerComparison = ({ answer, reference, t }: { answer: string, reference: string, t: Translate }) => {
+  const diff = diffLines(answer.replace(/\s+$/, ''), reference.replace(/\s+$/, ''));
+  return (
+    <>
+      <div className="bg-slate-900 p-2 rounded border border-slate-800">
+        <span className="text-xs text-slate-500 block mb-1">{t('review.reference')}</span>
+        <pre className="text-emerald-400 font-mono text-sm whitespace-pre-wrap">{reference}</pre>
+      </div>
+      {answer.trim() && hasChanges(diff) && (
+        <div className="mt-2">
+          <span className="text-xs text-slate-500 block mb-1">{t('review.diff')}</span>
+          <DiffView diff={diff} />
+        </div>
+      )}
+    </>
+  );
+};
+
+export const FlashcardReview: React.FC<FlashcardReviewProps> = ({ cards, settings, locale, onClose, onUpdateCard }) => {
+  const t = createTranslator(locale);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [userInput, setUserInput] = useState('');
   const [showResult, setShowResult] = useState<'correct' | 'incorrect' | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [outcome, setOutcome] = useState<CheckOutcome | null>(null);
+  // Reference answer revealed, waiting for the student to grade themselves
+  const [isSelfGrading, setIsSelfGrading] = useState(false);
+  const [checkFailed, setCheckFailed] = useState(false);
   
-  // Filter out mastered cards for the review session, but we still need to handle empty states
-  const activeCards = cards.filter(c => c.stats.status !== 'mastered');
+  // The session queue is fixed when review opens (due cards, most urgent first),
+  // so rescheduling a card mid-session doesn't shuffle the remaining ones.
+  // Cards answered wrong are appended once more for same-session relearning.
+  const [queue, setQueue] = useState<string[]>(() => getDueCards(cards).map(c => c.id));
+  const [requeued, setRequeued] = useState<Set<string>>(() => new Set());
+
+  const activeCards = queue
+    .map(id => cards.find(c => c.id === id))
+    .filter((c): c is Flashcard => c !== undefined);
   
   const currentCard = activeCards[currentIndex];
+  const isSessionDone = currentIndex >= activeCards.length;
 
   useEffect(() => {
     // Reset state when card changes
     setUserInput('');
     setShowResult(null);
-  }, [currentIndex, activeCards.length]);
+    setOutcome(null);
+    setIsSelfGrading(false);
+  }, [currentIndex]);
 
-  if (activeCards.length === 0) {
+  if (activeCards.length === 0 || isSessionDone) {
     return (
       <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/90 backdrop-blur-sm p-4">
         <div className="glass-panel max-w-md w-full p-8 rounded-2xl text-center border-emerald-500/30 shadow-[0_0_50px_rgba(16,185,129,0.1)]">
           <div className="w-20 h-20 bg-emerald-500/20 rounded-full flex items-center justify-center mx-auto mb-6">
             <Trophy className="text-emerald-400 w-10 h-10" />
           </div>
-          <h2 className="text-2xl font-bold text-white mb-2">挑战完成！</h2>
-          <p className="text-slate-400 mb-8">所有的错题都已被你攻克。</p>
+          <h2 className="text-2xl font-bold text-white mb-2">{t('review.doneTitle')}</h2>
+          <p className="text-slate-400 mb-8">{t('review.doneBody')}</p>
           <button 
             onClick={onClose}
             className="px-8 py-3 bg-slate-800 hover:bg-slate-700 text-white rounded-xl font-bold transition-colors border border-slate-700"
           >
-            返回主控台
+            {t('review.back')}
           </button>
         </div>
       </div>
@@ -67,26 +118,50 @@ export const FlashcardReview: React.FC<FlashcardReviewProps> = ({ cards, onClose
 
   if (!currentCard) return null;
 
-  const handleCheck = () => {
-    // Simple normalization: remove whitespace to compare logic
-    const normalize = (str: string) => str.replace(/\s+/g, '').trim();
-    const isCorrect = normalize(userInput) === normalize(currentCard.backCode);
-    
-    console.log(`[CodeDoctor] Card Review - Concept: "${currentCard.concept}" | Result: ${isCorrect ? 'PASS' : 'FAIL'}`);
+  const recordResult = (isCorrect: boolean, strategy: CheckStrategyId) => {
+    console.log(`[CodeDoctor] Card Review - Concept: "${currentCard.concept}" | Result: ${isCorrect ? 'PASS' : 'FAIL'} (${strategy})`);
 
+    setIsSelfGrading(false);
     setShowResult(isCorrect ? 'correct' : 'incorrect');
-    onUpdateCard(currentCard.id, isCorrect);
+    onUpdateCard(currentCard.id, isCorrect, strategy);
+
+    if (!isCorrect && !requeued.has(currentCard.id)) {
+      setQueue(prev => [...prev, currentCard.id]);
+      setRequeued(prev => new Set(prev).add(currentCard.id));
+    }
   };
 
-  const handleNext = () => {
-    if (currentIndex < activeCards.length - 1) {
-      setCurrentIndex(prev => prev + 1);
-    } else {
-      // Loop back or finish? Let's loop for now if there are still cards
-      setCurrentIndex(0);
+  const handleCheck = async () => {
+    setIsChecking(true);
+    try {
+      const result = await checkAnswer(currentCard, userInput, settings, locale);
+      setOutcome(result);
+      // No checker could decide: show the reference answer and let the student judge
+      if (result.verdict === 'inconclusive') setIsSelfGrading(true);
+      else recordResult(result.verdict === 'correct', result.strategy);
+    } catch (e) {
+      // The checkers themselves failed (sandbox crash, unexpected error): fall back to self-grading
+      console.error("[CodeDoctor] Answer check failed:", e);
+      setCheckFailed(true);
+      setIsSelfGrading(true);
+    } finally {
+      setIsChecking(false);
     }
+  };
+
+  const handleSelfGrade = (isCorrect: boolean) => {
+    setOutcome({ verdict: isCorrect ? 'correct' : 'incorrect', strategy: 'self' });
+    recordResult(isCorrect, 'self');
+  };
+
+  const handleNext = () => {
+    // Past the last card the session is over (see isSessionDone)
+    setCurrentIndex(prev => prev + 1);
     setShowResult(null);
     setUserInput('');
+    setOutcome(null);
+    setIsSelfGrading(false);
+    setCheckFailed(false);
   };
 
   const isCritical = currentCard.stats.status === 'critical';
@@ -100,7 +175,7 @@ export const FlashcardReview: React.FC<FlashcardReviewProps> = ({ cards, onClose
       </div>
 
       <div className={`
-        relative w-full max-w-2xl bg-slate-900 rounded-2xl overflow-hidden border transition-colors duration-500 shadow-2xl
+        relative w-full max-w-2xl max-h-[95vh] overflow-y-auto bg-slate-900 rounded-2xl border transition-colors duration-500 shadow-2xl
         ${isCritical ? 'border-rose-500/50 shadow-[0_0_30px_rgba(244,63,94,0.15)]' : 'border-slate-700 shadow-black/50'}
       `}>
         
@@ -131,13 +206,18 @@ export const FlashcardReview: React.FC<FlashcardReviewProps> = ({ cards, onClose
             </div>
             
             {/* Stats */}
-            <div className="flex gap-2">
-              {[...Array(3)].map((_, i) => (
-                <div 
-                  key={i} 
-                  className={`w-2 h-2 rounded-full border border-slate-700 ${i < currentCard.stats.correctStreak ? 'bg-emerald-500 border-emerald-500' : 'bg-slate-800'}`}
-                />
-              ))}
+            <div className="flex flex-col items-end gap-1">
+              <div className="flex gap-2">
+                {[...Array(3)].map((_, i) => (
+                  <div 
+                    key={i} 
+                    className={`w-2 h-2 rounded-full border border-slate-700 ${i < currentCard.stats.correctStreak ? 'bg-emerald-500 border-emerald-500' : 'bg-slate-800'}`}
+                  />
+                ))}
+              </div>
+              <span className="text-[10px] text-slate-500 font-mono">
+                {t('review.interval', { interval: currentCard.stats.interval, ef: currentCard.stats.easeFactor.toFixed(2) })}
+              </span>
             </div>
           </div>
 
@@ -154,23 +234,28 @@ export const FlashcardReview: React.FC<FlashcardReviewProps> = ({ cards, onClose
             {/* User Input Area */}
             <div className="relative">
               <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
-                修复代码 (输入正确逻辑)
+                {t('review.inputLabel')}
               </label>
-              <input
-                type="text"
-                value={userInput}
-                onChange={(e) => setUserInput(e.target.value)}
-                disabled={showResult !== null}
-                onKeyDown={(e) => e.key === 'Enter' && !showResult && handleCheck()}
-                className={`
-                  w-full bg-slate-800/50 border rounded-lg px-4 py-3 font-mono text-sm text-white focus:outline-none transition-all
-                  ${showResult === 'correct' ? 'border-emerald-500 bg-emerald-500/10' : 
-                    showResult === 'incorrect' ? 'border-rose-500 bg-rose-500/10' : 
-                    'border-slate-700 focus:border-neon-blue focus:bg-slate-800'}
-                `}
-                placeholder="在此输入修复后的代码..."
-                autoFocus
-              />
+              <div className={`
+                h-48 rounded-xl border transition-colors
+                ${showResult === 'correct' ? 'border-emerald-500' :
+                  showResult === 'incorrect' ? 'border-rose-500' :
+                  'border-transparent'}
+              `}>
+                <CodeEditor
+                  key={currentIndex}
+                  value={userInput}
+                  onChange={setUserInput}
+                  language={currentCard.language}
+                  isAnalyzing={showResult !== null || isChecking || isSelfGrading}
+                  title={`YOUR_FIX.${getLanguage(currentCard.language).extension}`}
+                  placeholder={t('review.placeholder')}
+                  minLines={6}
+                  locale={locale}
+                  onSubmit={() => !showResult && !isChecking && !isSelfGrading && userInput.trim() && handleCheck()}
+                  autoFocus
+                />
+              </div>
               
               {/* Feedback Overlay */}
               {showResult && (
@@ -185,17 +270,22 @@ export const FlashcardReview: React.FC<FlashcardReviewProps> = ({ cards, onClose
                         <X size={20} />
                       </div>
                     )}
-                    <div>
-                      <h4 className={`font-bold mb-1 ${showResult === 'correct' ? 'text-emerald-400' : 'text-rose-400'}`}>
-                        {showResult === 'correct' ? '逻辑修复成功！' : '修复失败'}
+                    <div className="flex-1 min-w-0">
+                      <h4 className={`font-bold mb-1 flex items-center gap-2 ${showResult === 'correct' ? 'text-emerald-400' : 'text-rose-400'}`}>
+                        {showResult === 'correct' ? t('review.correct') : t('review.incorrect')}
+                        {outcome && (
+                          <span className="text-[10px] font-mono font-normal px-1.5 py-0.5 rounded border border-slate-700 text-slate-400">
+                            {t('review.verdict', { strategy: t(STRATEGY_LABEL_KEYS[outcome.strategy]) })}
+                          </span>
+                        )}
                       </h4>
+                      {outcome?.explanation && (
+                        <p className="text-sm text-slate-300 leading-relaxed mb-2">{outcome.explanation}</p>
+                      )}
                       <p className="text-sm text-slate-400 leading-relaxed mb-2">
                         {currentCard.explanation}
                       </p>
-                      <div className="bg-slate-900 p-2 rounded border border-slate-800">
-                         <span className="text-xs text-slate-500 block mb-1">参考答案:</span>
-                         <code className="text-emerald-400 font-mono text-sm">{currentCard.backCode}</code>
-                      </div>
+                      <AnswerComparison answer={userInput} reference={currentCard.backCode} t={t} />
                     </div>
                   </div>
                   
@@ -203,21 +293,58 @@ export const FlashcardReview: React.FC<FlashcardReviewProps> = ({ cards, onClose
                     onClick={handleNext}
                     className="mt-4 w-full py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded font-medium text-sm transition-colors flex items-center justify-center gap-2"
                   >
-                    下一张 <ArrowRight size={14} />
+                    {t('review.next')} <ArrowRight size={14} />
                   </button>
                 </div>
               )}
+
+              {/* Self-grading: reference answer shown, the student decides */}
+              {isSelfGrading && (
+                <div className="mt-4 p-4 rounded-lg bg-slate-950 border border-amber-900/50 animate-[slideDown_0.2s_ease-out]">
+                  <h4 className="font-bold mb-1 text-amber-400 flex items-center gap-2">
+                    <AlertTriangle size={16} />
+                    {checkFailed ? t('review.checkFailed') : outcome ? t('review.inconclusive') : t('review.selfGrade')}
+                  </h4>
+                  <p className="text-sm text-slate-400 leading-relaxed mb-2">
+                    {currentCard.explanation}
+                  </p>
+                  <AnswerComparison answer={userInput} reference={currentCard.backCode} t={t} />
+                  <div className="mt-4 grid grid-cols-2 gap-2">
+                    <button
+                      onClick={() => handleSelfGrade(true)}
+                      className="py-2 bg-emerald-600/80 hover:bg-emerald-500 text-white rounded font-medium text-sm transition-colors"
+                    >
+                      {t('review.gotIt')}
+                    </button>
+                    <button
+                      onClick={() => handleSelfGrade(false)}
+                      className="py-2 bg-rose-600/80 hover:bg-rose-500 text-white rounded font-medium text-sm transition-colors"
+                    >
+                      {t('review.missedIt')}
+                    </button>
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Action Buttons (Only show if result not shown) */}
-            {!showResult && (
-              <button
-                onClick={handleCheck}
-                disabled={!userInput.trim()}
-                className="w-full py-3 bg-neon-blue hover:bg-blue-400 text-slate-950 font-bold rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                验证修复方案
-              </button>
+            {!showResult && !isSelfGrading && (
+              <div className="flex gap-2">
+                <button
+                  onClick={handleCheck}
+                  disabled={!userInput.trim() || isChecking}
+                  className="flex-1 py-3 bg-neon-blue hover:bg-blue-400 text-slate-950 font-bold rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  {isChecking ? <><Loader2 size={16} className="animate-spin" /> {t('review.checking')}</> : t('review.check')}
+                </button>
+                <button
+                  onClick={() => setIsSelfGrading(true)}
+                  disabled={isChecking}
+                  className="px-4 py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg text-sm transition-colors border border-slate-700 disabled:opacity-50 flex items-center gap-2"
+                >
+                  <Eye size={16} /> {t('review.reveal')}
+                </button>
+              </div>
             )}
 
           </div>
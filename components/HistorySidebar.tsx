@@ -0,0 +1,101 @@
+import React from 'react';
+import { X, History, GitCompare, Trash2, BrainCircuit } from 'lucide-react';
+import { DiagnosisRun, Locale } from '../types';
+import { findPreviousVersion } from '../services/runComparison';
+import { getLanguage } from '../services/languages';
+import { createTranslator } from '../services/i18n';
+
+interface HistorySidebarProps {
+  runs: DiagnosisRun[]; // newest first
+  activeRunId: string | null;
+  locale: Locale;
+  onOpen: (run: DiagnosisRun) => void;
+  onCompare: (older: DiagnosisRun, newer: DiagnosisRun) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (ts: number) => new Date(ts).toLocaleString();
+
+export const HistorySidebar: React.FC<HistorySidebarProps> = ({ runs, activeRunId, locale, onOpen, onCompare, onDelete, onClear, onClose }) => {
+  const t = createTranslator(locale);
+  return (
+    <div className="fixed inset-0 z-40 flex" onClick={onClose}>
+      <aside
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-sm h-full bg-slate-900 border-r border-slate-800 shadow-2xl shadow-black/50 flex flex-col animate-[fadeIn_0.2s_ease-out]"
+      >
+        <div className="flex items-center justify-between px-4 py-4 border-b border-slate-800">
+          <h2 className="text-sm font-bold text-slate-300 tracking-wider flex items-center gap-2">
+            <History size={16} className="text-neon-blue" /> {t('history.title', { n: runs.length })}
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-500 hover:text-white transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          {runs.length === 0 && (
+            <p className="text-center text-slate-600 font-mono text-sm mt-8">{t('history.empty')}</p>
+          )}
+
+          {runs.map(run => {
+            const previous = findPreviousVersion(run, runs);
+            const errorCount = run.result.trace.filter(step => step.isError).length;
+            return (
+              <div
+                key={run.id}
+                className={`group p-3 rounded-lg border transition-colors cursor-pointer ${run.id === activeRunId ? 'border-neon-blue bg-blue-950/30' : 'border-slate-800 hover:border-slate-600 bg-slate-950/40'}`}
+                onClick={() => onOpen(run)}
+              >
+                <div className="flex items-center justify-between text-[10px] font-mono text-slate-500 mb-1">
+                  <span>{formatTime(run.createdAt)}</span>
+                  <span>{getLanguage(run.language).label} · {run.model}</span>
+                </div>
+                <p className="text-sm text-slate-200 line-clamp-2">{run.result.rawError}</p>
+                <pre className="mt-1 text-[10px] text-slate-500 font-mono truncate">{run.code.split('\n').find(l => l.trim())}</pre>
+                <div className="flex items-center justify-between mt-2">
+                  <div className="flex items-center gap-3 text-[10px] font-mono">
+                    <span className={errorCount > 0 ? 'text-rose-400' : 'text-emerald-400'}>{t('history.errors', { n: errorCount })}</span>
+                    {run.flashcardIds.length > 0 && (
+                      <span className="text-blue-300 flex items-center gap-1"><BrainCircuit size={10} /> {run.flashcardIds.length}</span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 opacity-60 group-hover:opacity-100">
+                    {previous && (
+                      <button
+                        onClick={e => { e.stopPropagation(); onCompare(previous, run); }}
+                        className="text-[10px] text-slate-400 hover:text-neon-blue flex items-center gap-1"
+                        title={t('history.compareTitle')}
+                      >
+                        <GitCompare size={12} /> {t('history.compare')}
+                      </button>
+                    )}
+                    <button
+                      onClick={e => { e.stopPropagation(); onDelete(run.id); }}
+                      className="text-slate-500 hover:text-rose-500"
+                      title={t('history.delete')}
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {runs.length > 0 && (
+          <button
+            onClick={onClear}
+            className="m-3 py-2 text-xs text-slate-500 hover:text-rose-500 border border-slate-800 rounded-lg flex items-center justify-center gap-1"
+          >
+            <Trash2 size={12} /> {t('history.clear')}
+          </button>
+        )}
+      </aside>
+      <div className="flex-1 bg-slate-950/60 backdrop-blur-sm" />
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { X, NotebookText, FileUp, XCircle, TerminalSquare } from 'lucide-react';
+import { Locale } from '../types';
+import { createTranslator } from '../services/i18n';
+import { getLanguage } from '../services/languages';
+import { NotebookCell, ParsedNotebook } from '../services/notebookImport';
+
+interface NotebookImportPanelProps {
+  notebook: ParsedNotebook;
+  fileName: string;
+  locale: Locale;
+  onImport: (cells: NotebookCell[]) => void; // 按 notebook 中的顺序
+  onClose: () => void;
+}
+
+const PREVIEW_LINES = 6;
+
+export const NotebookImportPanel: React.FC<NotebookImportPanelProps> = ({ notebook, fileName, locale, onImport, onClose }) => {
+  const t = createTranslator(locale);
+  const codeCells = notebook.cells.filter(cell => cell.kind === 'code');
+  const nonEmpty = codeCells.filter(cell => cell.source.trim()).map(cell => cell.number);
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(nonEmpty));
+
+  // The first saved error usually is what the student wants explained; later cells never ran after it
+  const firstFailing = codeCells.find(cell => cell.output?.error);
+
+  const toggle = (number: number) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(number)) next.delete(number);
+    else next.add(number);
+    return next;
+  });
+
+  const handleConfirm = () => {
+    const cells = codeCells.filter(cell => selected.has(cell.number));
+    console.log(`[CodeDoctor] Importing ${cells.length} of ${codeCells.length} notebook cells from ${fileName}.`);
+    onImport(cells);
+    onClose();
+  };
+
+  const linkClass = "text-xs text-slate-400 hover:text-white underline decoration-slate-700 underline-offset-4 disabled:opacity-40 disabled:no-underline";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/90 backdrop-blur-sm p-4 animate-[fadeIn_0.3s_ease-out]">
+      <div className="relative w-full max-w-2xl max-h-[90vh] flex flex-col bg-slate-900 rounded-2xl overflow-hidden border border-slate-700 shadow-2xl shadow-black/50">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+          <div>
+            <h2 className="text-lg font-bold text-white flex items-center gap-2">
+              <NotebookText size={20} className="text-neon-blue" />
+              {t('notebook.title')}
+            </h2>
+            <p className="text-xs text-slate-500 font-mono mt-1">
+              {t('notebook.subtitle', { name: fileName, language: getLanguage(notebook.language).label, n: codeCells.length })}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-500 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-4 px-6 py-3 border-b border-slate-800">
+          <button onClick={() => setSelected(new Set(nonEmpty))} className={linkClass}>{t('notebook.selectAll')}</button>
+          <button onClick={() => setSelected(new Set())} className={linkClass}>{t('notebook.selectNone')}</button>
+          <button
+            onClick={() => setSelected(new Set(nonEmpty.filter(number => number <= firstFailing!.number)))}
+            disabled={!firstFailing}
+            className={linkClass}
+          >
+            {t('notebook.selectFailing')}
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {codeCells.map(cell => {
+            const lines = cell.source.split('\n');
+            const isEmpty = !cell.source.trim();
+            const isSelected = selected.has(cell.number);
+            return (
+              <label
+                key={cell.number}
+                className={`block rounded-lg border transition-colors ${isEmpty ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer'} ${isSelected ? 'border-neon-blue/60 bg-blue-950/20' : 'border-slate-800 hover:border-slate-700'}`}
+              >
+                <div className="flex items-center gap-2 px-3 py-2 border-b border-slate-800/60 text-xs font-mono">
+                  <input
+                    type="checkbox"
+                    checked={isSelected}
+                    disabled={isEmpty}
+                    onChange={() => toggle(cell.number)}
+                    className="accent-blue-500"
+                  />
+                  <span className="font-bold text-slate-200">{t('trace.cell', { n: cell.number })}</span>
+                  <span className="text-slate-500">{cell.executionCount !== null ? `In [${cell.executionCount}]` : ''}</span>
+                  <div className="flex-1" />
+                  {cell.output?.error ? (
+                    <span className="px-1.5 py-0.5 rounded border border-rose-500/40 bg-rose-950/40 text-rose-300 flex items-center gap-1">
+                      <XCircle size={10} /> {cell.output.error.name}
+                    </span>
+                  ) : cell.output ? (
+                    <span className="px-1.5 py-0.5 rounded border border-slate-700 text-slate-400 flex items-center gap-1">
+                      <TerminalSquare size={10} /> {t('notebook.output')}
+                    </span>
+                  ) : !isEmpty && cell.executionCount === null && (
+                    <span className="text-slate-600">{t('notebook.neverRun')}</span>
+                  )}
+                </div>
+                <pre className="px-3 py-2 text-xs font-mono text-slate-400 whitespace-pre-wrap break-all">
+                  {isEmpty ? t('notebook.emptyCell') : lines.slice(0, PREVIEW_LINES).join('\n')}
+                  {lines.length > PREVIEW_LINES && (
+                    <span className="block text-slate-600 mt-1">{t('notebook.moreLines', { n: lines.length - PREVIEW_LINES })}</span>
+                  )}
+                </pre>
+                {cell.output?.error && (
+                  <div className="px-3 pb-2 text-[11px] font-mono text-rose-300/80 truncate">
+                    {cell.output.error.name}: {cell.output.error.value}
+                  </div>
+                )}
+              </label>
+            );
+          })}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-800 space-y-3">
+          <div className="text-[11px] text-slate-500 space-y-1">
+            {notebook.cells.length > codeCells.length && (
+              <p>{t('notebook.skipped', { n: notebook.cells.length - codeCells.length })}</p>
+            )}
+            <p>{t('notebook.replace')}</p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-slate-700 text-slate-400 hover:text-white text-sm transition-colors"
+            >
+              {t('notebook.cancel')}
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={selected.size === 0}
+              className="flex-1 py-2 bg-neon-blue hover:bg-blue-400 text-slate-950 font-bold rounded-lg transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FileUp size={16} /> {t('notebook.confirm', { n: selected.size })}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
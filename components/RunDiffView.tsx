@@ -0,0 +1,87 @@
+import React from 'react';
+import { X, CheckCircle2, XCircle, AlertTriangle, GitCompare } from 'lucide-react';
+import { DiagnosisRun, Locale, TraceStep } from '../types';
+import { compareRuns } from '../services/runComparison';
+import { diffLines } from '../services/textDiff';
+import { Translate, createTranslator } from '../services/i18n';
+import { DiffView } from './DiffView';
+
+interface RunDiffViewProps {
+  older: DiagnosisRun;
+  newer: DiagnosisRun;
+  locale: Locale;
+  onClose: () => void;
+}
+
+const formatTime = (ts: number) => new Date(ts).toLocaleString();
+
+const StepList: React.FC<{ steps: TraceStep[]; tone: 'fixed' | 'remaining' | 'introduced'; t: Translate }> = ({ steps, tone, t }) => {
+  if (steps.length === 0) {
+    return <p className="text-xs text-slate-600 font-mono">{t('runDiff.none')}</p>;
+  }
+  const color = tone === 'fixed' ? 'text-emerald-300 line-through decoration-emerald-500/50' : tone === 'remaining' ? 'text-amber-300' : 'text-rose-300';
+  return (
+    <ul className="space-y-1">
+      {steps.map((step, i) => (
+        <li key={i} className={`text-sm ${color}`}>
+          {step.title}
+          {step.badCode && <code className="ml-2 text-xs text-slate-500 font-mono no-underline">{step.badCode.split('\n')[0]}</code>}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export const RunDiffView: React.FC<RunDiffViewProps> = ({ older, newer, locale, onClose }) => {
+  const t = createTranslator(locale);
+  const comparison = compareRuns(older, newer);
+  const codeDiff = diffLines(older.code, newer.code);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/95 p-4 animate-[fadeIn_0.3s_ease-out]">
+      <div className="relative w-full max-w-4xl max-h-[90vh] flex flex-col bg-slate-900 rounded-2xl overflow-hidden border border-slate-700 shadow-2xl shadow-black/50">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+          <div>
+            <h2 className="text-lg font-bold text-white flex items-center gap-2">
+              <GitCompare size={20} className="text-neon-blue" /> {t('runDiff.title')}
+            </h2>
+            <p className="text-xs text-slate-500 font-mono mt-1">
+              {formatTime(older.createdAt)} → {formatTime(newer.createdAt)}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-500 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="p-4 rounded-lg border border-emerald-500/30 bg-emerald-950/20">
+              <h3 className="text-xs font-bold text-emerald-400 uppercase tracking-wider mb-2 flex items-center gap-1">
+                <CheckCircle2 size={12} /> {t('runDiff.fixed', { n: comparison.fixed.length })}
+              </h3>
+              <StepList steps={comparison.fixed} tone="fixed" t={t} />
+            </div>
+            <div className="p-4 rounded-lg border border-amber-500/30 bg-amber-950/20">
+              <h3 className="text-xs font-bold text-amber-400 uppercase tracking-wider mb-2 flex items-center gap-1">
+                <AlertTriangle size={12} /> {t('runDiff.remaining', { n: comparison.remaining.length })}
+              </h3>
+              <StepList steps={comparison.remaining} tone="remaining" t={t} />
+            </div>
+            <div className="p-4 rounded-lg border border-rose-500/30 bg-rose-950/20">
+              <h3 className="text-xs font-bold text-rose-400 uppercase tracking-wider mb-2 flex items-center gap-1">
+                <XCircle size={12} /> {t('runDiff.introduced', { n: comparison.introduced.length })}
+              </h3>
+              <StepList steps={comparison.introduced} tone="introduced" t={t} />
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t('runDiff.codeChanges')}</h3>
+            <DiffView diff={codeDiff} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,300 @@
+import React, { useState } from 'react';
+import { X, Settings, Save, Trash2, SlidersHorizontal } from 'lucide-react';
+import { AnalysisOptions, Locale, ProviderId, ProviderSettings, RetryableErrorClass } from '../types';
+import { GEMINI_MODEL, PROVIDERS } from '../services/providers';
+import { ERROR_CLASS_LABELS } from '../services/retryPolicy';
+import { clearResponseCache } from '../services/responseCache';
+import { MessageKey, createTranslator } from '../services/i18n';
+
+interface SettingsPanelProps {
+  settings: ProviderSettings;
+  locale: Locale;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+export const PROVIDER_LABELS: Record<ProviderId, MessageKey> = {
+  'gemini': 'provider.gemini',
+  'openai-compatible': 'provider.openaiCompatible',
+  'fixture': 'provider.fixture',
+};
+
+const PROVIDER_HINTS: Record<ProviderId, MessageKey> = {
+  'gemini': 'provider.gemini.hint',
+  'openai-compatible': 'provider.openaiCompatible.hint',
+  'fixture': 'provider.fixture.hint',
+};
+
+type NumberField = 'temperature' | 'maxAttempts' | 'attemptTimeoutMs' | 'maxPromptTokens';
+
+// Range in the unit the input shows; `scale` converts it to the stored unit (seconds -> ms)
+const NUMBER_FIELDS: Record<NumberField, { min: number; max: number; scale?: number; integer?: boolean }> = {
+  temperature: { min: 0, max: 2 },
+  maxAttempts: { min: 1, max: 10, integer: true },
+  attemptTimeoutMs: { min: 0, max: 600, scale: 1000 },
+  maxPromptTokens: { min: 1000, max: 1000000, integer: true },
+};
+
+// The stored value for what was typed, clamped to range; null when it isn't a number
+const parseNumberField = (field: NumberField, raw: string): number | null => {
+  const { min, max, scale = 1, integer } = NUMBER_FIELDS[field];
+  const value = Number(raw);
+  if (raw.trim() === '' || !Number.isFinite(value)) return null;
+  const clamped = Math.min(max, Math.max(min, value)) * scale;
+  return integer ? Math.round(clamped) : clamped;
+};
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, locale, onSave, onClose }) => {
+  const t = createTranslator(locale);
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+  const [cacheCleared, setCacheCleared] = useState(false);
+  // Text typed into the number inputs, applied on blur or save (clamping on every keystroke
+  // would turn the "2" of "2000" into the minimum)
+  const [numberInputs, setNumberInputs] = useState<Partial<Record<NumberField, string>>>({});
+
+  const update = <K extends keyof ProviderSettings>(key: K, value: ProviderSettings[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateAnalysis = <K extends keyof AnalysisOptions>(key: K, value: AnalysisOptions[K]) => {
+    setDraft(prev => ({ ...prev, analysis: { ...prev.analysis, [key]: value } }));
+  };
+
+  // An empty or invalid entry falls back to the last valid value
+  const withNumberInputs = (base: ProviderSettings): ProviderSettings => {
+    const analysis = { ...base.analysis };
+    (Object.keys(numberInputs) as NumberField[]).forEach(field => {
+      const value = parseNumberField(field, numberInputs[field]!);
+      if (value !== null) analysis[field] = value;
+    });
+    return { ...base, analysis };
+  };
+
+  const commitNumber = (field: NumberField) => {
+    const raw = numberInputs[field];
+    if (raw === undefined) return;
+    const value = parseNumberField(field, raw);
+    if (value !== null) updateAnalysis(field, value);
+    setNumberInputs(({ [field]: _, ...rest }) => rest);
+  };
+
+  const numberInputProps = (field: NumberField) => {
+    const { min, max, scale = 1 } = NUMBER_FIELDS[field];
+    return {
+      type: 'number',
+      min,
+      max,
+      value: numberInputs[field] ?? String(draft.analysis[field] / scale),
+      onChange: (e: React.ChangeEvent<HTMLInputElement>) => setNumberInputs(prev => ({ ...prev, [field]: e.target.value })),
+      onBlur: () => commitNumber(field),
+    };
+  };
+
+  const toggleRetry = (errorClass: RetryableErrorClass, enabled: boolean) => {
+    const retryOn = draft.analysis.retryOn.filter(c => c !== errorClass);
+    updateAnalysis('retryOn', enabled ? [...retryOn, errorClass] : retryOn);
+  };
+
+  const handleClearCache = () => {
+    clearResponseCache()
+      .then(() => setCacheCleared(true))
+      .catch(e => console.error("[CodeDoctor] Error clearing response cache:", e));
+  };
+
+  const handleSave = () => {
+    console.log(`[CodeDoctor] Saving settings. Provider: ${draft.providerId}`);
+    onSave(withNumberInputs(draft));
+    onClose();
+  };
+
+  const inputClass = "w-full bg-slate-800/50 border border-slate-700 rounded-lg px-3 py-2 font-mono text-sm text-white focus:outline-none focus:border-neon-blue focus:bg-slate-800 transition-all";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/90 backdrop-blur-sm p-4 animate-[fadeIn_0.3s_ease-out]">
+      <div className="relative w-full max-w-lg max-h-[95vh] overflow-y-auto bg-slate-900 rounded-2xl border border-slate-700 shadow-2xl shadow-black/50">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <Settings size={20} className="text-neon-blue" />
+            {t('settings.title')}
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-500 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Provider Selection */}
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">
+              {t('settings.provider')}
+            </label>
+            <div className="space-y-2">
+              {(Object.keys(PROVIDERS) as ProviderId[]).map(id => (
+                <label
+                  key={id}
+                  className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${draft.providerId === id ? 'border-neon-blue bg-blue-950/30' : 'border-slate-800 hover:border-slate-700'}`}
+                >
+                  <input
+                    type="radio"
+                    name="provider"
+                    checked={draft.providerId === id}
+                    onChange={() => update('providerId', id)}
+                    className="mt-1 accent-blue-500"
+                  />
+                  <div>
+                    <div className="text-sm font-bold text-slate-200">{t(PROVIDER_LABELS[id])}</div>
+                    <div className="text-xs text-slate-500">{t(PROVIDER_HINTS[id])}</div>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* OpenAI-compatible endpoint details */}
+          {draft.providerId === 'openai-compatible' && (
+            <div className="space-y-3">
+              <div>
+                <label className="block text-xs font-bold text-slate-500 mb-1 uppercase tracking-wider">{t('settings.baseUrl')}</label>
+                <input className={inputClass} value={draft.openAIBaseUrl} onChange={e => update('openAIBaseUrl', e.target.value)} placeholder="http://localhost:11434/v1" />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 mb-1 uppercase tracking-wider">{t('settings.modelName')}</label>
+                <input className={inputClass} value={draft.openAIModel} onChange={e => update('openAIModel', e.target.value)} placeholder="qwen2.5-coder:7b" />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 mb-1 uppercase tracking-wider">{t('settings.apiKey')}</label>
+                <input type="password" className={inputClass} value={draft.openAIApiKey} onChange={e => update('openAIApiKey', e.target.value)} placeholder={t('settings.apiKeyPlaceholder')} />
+              </div>
+            </div>
+          )}
+
+          {/* Streaming */}
+          <label className="flex items-center gap-3 text-sm text-slate-300 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={draft.streaming}
+              onChange={e => update('streaming', e.target.checked)}
+              className="accent-blue-500"
+            />
+            {t('settings.streaming')}
+          </label>
+
+          {/* Static pre-check */}
+          <label className="flex items-center gap-3 text-sm text-slate-300 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={draft.skipModelOnSyntaxErrors}
+              onChange={e => update('skipModelOnSyntaxErrors', e.target.checked)}
+              className="accent-blue-500"
+            />
+            {t('settings.skipModel')}
+          </label>
+
+          {/* Hint mode */}
+          <label className="flex items-center gap-3 text-sm text-slate-300 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={draft.hintMode}
+              onChange={e => update('hintMode', e.target.checked)}
+              className="accent-blue-500"
+            />
+            {t('settings.hintMode')}
+          </label>
+
+          {/* Response cache */}
+          <div className="flex items-center justify-between gap-3">
+            <label className="flex items-center gap-3 text-sm text-slate-300 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={draft.useResponseCache}
+                onChange={e => update('useResponseCache', e.target.checked)}
+                className="accent-blue-500"
+              />
+              {t('settings.cache')}
+            </label>
+            <button
+              onClick={handleClearCache}
+              disabled={cacheCleared}
+              className="text-xs text-slate-500 hover:text-rose-400 transition-colors flex items-center gap-1 disabled:opacity-50 disabled:hover:text-slate-500"
+            >
+              <Trash2 size={12} /> {t(cacheCleared ? 'settings.cacheCleared' : 'settings.clearCache')}
+            </button>
+          </div>
+
+          {/* Request parameters */}
+          <details className="rounded-lg border border-slate-800 px-3 py-2">
+            <summary className="cursor-pointer text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+              <SlidersHorizontal size={12} /> {t('settings.request')}
+            </summary>
+            <div className="mt-3 space-y-3">
+              {draft.providerId !== 'fixture' && (
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-1 uppercase tracking-wider">{t('settings.modelOverride')}</label>
+                  <input
+                    className={inputClass}
+                    value={draft.analysis.model}
+                    onChange={e => updateAnalysis('model', e.target.value)}
+                    placeholder={draft.providerId === 'gemini' ? GEMINI_MODEL : draft.openAIModel}
+                  />
+                </div>
+              )}
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-1 uppercase tracking-wider">{t('settings.temperature')}</label>
+                  <input {...numberInputProps('temperature')} step={0.1} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-1 uppercase tracking-wider">{t('settings.maxAttempts')}</label>
+                  <input {...numberInputProps('maxAttempts')} step={1} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-1 uppercase tracking-wider" title={t('settings.attemptTimeout.hint')}>{t('settings.attemptTimeout')}</label>
+                  <input {...numberInputProps('attemptTimeoutMs')} step={5} className={inputClass} />
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-3 items-end">
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 mb-1 uppercase tracking-wider">{t('settings.maxPromptTokens')}</label>
+                  <input {...numberInputProps('maxPromptTokens')} step={1000} className={inputClass} />
+                </div>
+                <label className="col-span-2 flex items-center gap-2 text-xs text-slate-300 cursor-pointer select-none pb-2">
+                  <input
+                    type="checkbox"
+                    checked={draft.analysis.chunkLongScripts}
+                    onChange={e => updateAnalysis('chunkLongScripts', e.target.checked)}
+                    className="accent-blue-500"
+                  />
+                  {t('settings.chunkLongScripts')}
+                </label>
+              </div>
+              <div>
+                <span className="block text-xs font-bold text-slate-500 mb-1 uppercase tracking-wider">{t('settings.retryOn')}</span>
+                <div className="grid grid-cols-2 gap-1">
+                  {(Object.keys(ERROR_CLASS_LABELS) as RetryableErrorClass[]).map(errorClass => (
+                    <label key={errorClass} className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer select-none">
+                      <input
+                        type="checkbox"
+                        checked={draft.analysis.retryOn.includes(errorClass)}
+                        onChange={e => toggleRetry(errorClass, e.target.checked)}
+                        className="accent-blue-500"
+                      />
+                      {t(ERROR_CLASS_LABELS[errorClass])}
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1 text-[10px] text-slate-600">{t('settings.retryOn.note')}</p>
+              </div>
+            </div>
+          </details>
+
+          <button
+            onClick={handleSave}
+            className="w-full py-3 bg-neon-blue hover:bg-blue-400 text-slate-950 font-bold rounded-lg transition-all flex items-center justify-center gap-2"
+          >
+            <Save size={16} /> {t('settings.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
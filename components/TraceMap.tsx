@@ -1,11 +1,34 @@
 import React from 'react';
-import { TraceStep } from '../types';
-import { CheckCircle2, AlertTriangle, XCircle, ArrowRight, Lightbulb, GitCommit } from 'lucide-react';
+import { FixVerdict, FixVerification, Locale, TraceStep } from '../types';
+import { createTranslator, MessageKey, Translate } from '../services/i18n';
+import { FixState } from '../services/fixApplier';
+import { disclosure } from '../services/hintDisclosure';
+import { CheckCircle2, AlertTriangle, XCircle, ArrowRight, Lightbulb, GitCommit, TerminalSquare, Layers, NotebookText, Bug, Wand2, Check, ShieldCheck, MessageCircleQuestion, Crosshair, Eye } from 'lucide-react';
+
+interface RuntimeMatch {
+  stepIndex: number; // -1 when no step matches the failing line
+  line: number; // 解释器报告的出错行号
+  source: 'sandbox' | 'traceback'; // 沙箱真实运行 / 学生粘贴的 traceback
+}
 
 interface TraceMapProps {
   trace: TraceStep[];
+  locale: Locale;
+  runtimeMatch?: RuntimeMatch;
+  onStepSelect?: (step: TraceStep) => void; // 点击已定位的步骤，跳转到编辑器对应行
+  fixStates?: (FixState | undefined)[]; // 按步骤下标，针对当前编辑器代码
+  onApplyFix?: (index: number) => void;
+  verdicts?: FixVerification[]; // 验证修复：按步骤下标，每个原错误的结论
+  hintLevels?: Record<number, number>; // 提示模式：按步骤下标，已揭示的提示层数 (未传入表示关闭提示模式)
+  onRevealHint?: (index: number) => void;
 }
 
+const VERDICT_STYLES: Record<FixVerdict, { key: MessageKey; className: string }> = {
+  resolved: { key: 'verify.verdict.resolved', className: 'border-emerald-500/50 bg-emerald-950/40 text-emerald-300' },
+  present: { key: 'verify.verdict.present', className: 'border-rose-500/50 bg-rose-950/40 text-rose-300' },
+  changed: { key: 'verify.verdict.changed', className: 'border-amber-500/50 bg-amber-950/40 text-amber-300' },
+};
+
 // Helper component for highlighting text
 const HighlightedCode = ({ code, highlight }: { code: string, highlight?: string }) => {
   if (!highlight || !code.includes(highlight)) return <>{code}</>;
@@ -27,7 +50,7 @@ const HighlightedCode = ({ code, highlight }: { code: string, highlight?: string
   );
 };
 
-const TraceNode: React.FC<{ step: TraceStep; isLast: boolean; index: number }> = ({ step, isLast, index }) => {
+const TraceNode: React.FC<{ step: TraceStep; isLast: boolean; label: string; t: Translate; runtime?: RuntimeMatch; onSelect?: (step: TraceStep) => void; fixState?: FixState; onApplyFix?: () => void; verdict?: FixVerification; hintLevel?: number; onRevealHint?: () => void }> = ({ step, isLast, label, t, runtime, onSelect, fixState, onApplyFix, verdict, hintLevel, onRevealHint }) => {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'success': return 'text-emerald-400 border-emerald-500/30 bg-emerald-500/10';
@@ -39,10 +62,10 @@ const TraceNode: React.FC<{ step: TraceStep; isLast: boolean; index: number }> =
 
   const getStatusText = (status: string) => {
     switch (status) {
-      case 'success': return '通过';
-      case 'warning': return '警告';
-      case 'error': return '错误';
-      default: return '未知';
+      case 'success': return t('trace.status.success');
+      case 'warning': return t('trace.status.warning');
+      case 'error': return t('trace.status.error');
+      default: return t('trace.status.unknown');
     }
   };
 
@@ -56,7 +79,11 @@ const TraceNode: React.FC<{ step: TraceStep; isLast: boolean; index: number }> =
   };
 
   const borderColor = step.status === 'error' ? 'border-rose-500/50' : 'border-slate-700';
+  const isSelectable = Boolean(step.range && onSelect);
   const nodeClass = getStatusColor(step.status);
+  // Hint mode discloses an error step level by level; otherwise everything shows at once
+  const hint = hintLevel !== undefined ? disclosure(step, hintLevel) : null;
+  const showAnswer = !hint || hint.showAnswer;
 
   return (
     <div className="relative pl-8 pb-8 last:pb-0">
@@ -73,26 +100,98 @@ const TraceNode: React.FC<{ step: TraceStep; isLast: boolean; index: number }> =
       </div>
 
       {/* Content Card */}
-      <div className={`glass-panel rounded-lg p-4 border ${borderColor} transition-all duration-500 ease-out transform translate-y-0 opacity-100`}>
+      <div
+        onClick={isSelectable ? () => onSelect!(step) : undefined}
+        title={isSelectable ? t('trace.locate') : undefined}
+        className={`glass-panel rounded-lg p-4 border ${borderColor} transition-all duration-500 ease-out transform translate-y-0 opacity-100 ${isSelectable ? 'cursor-pointer hover:border-neon-blue/60' : ''}`}
+      >
         <div className="flex items-start justify-between gap-3 mb-2">
           <div className="flex items-center gap-2">
             <span className={`font-mono text-xs font-bold uppercase tracking-wider px-2 py-0.5 rounded border ${nodeClass}`}>
-              步骤 {index + 1}: {getStatusText(step.status)}
+              {t('trace.step', { n: label, status: getStatusText(step.status) })}
             </span>
+            {step.range && (
+              <span className="font-mono text-[10px] text-slate-500 px-1.5 py-0.5 rounded border border-slate-700">
+                L{step.range.startLine}{step.range.endLine !== step.range.startLine ? `-${step.range.endLine}` : ''}
+              </span>
+            )}
+            {step.cell !== undefined && (
+              <span className="font-mono text-[10px] text-sky-300/80 px-1.5 py-0.5 rounded border border-sky-500/30 flex items-center gap-1">
+                <NotebookText size={10} /> {t('trace.cell', { n: step.cell })}
+              </span>
+            )}
+            {step.origin === 'static' && (
+              <span className="font-mono text-[10px] text-amber-300/80 px-1.5 py-0.5 rounded border border-amber-500/30">
+                {t('trace.static')}
+              </span>
+            )}
+            {runtime && (
+              <span className="font-mono text-[10px] font-bold px-2 py-0.5 rounded border border-rose-500/50 bg-rose-950/40 text-rose-300 flex items-center gap-1">
+                {runtime.source === 'traceback' ? <Bug size={10} /> : <TerminalSquare size={10} />}
+                {t(runtime.source === 'traceback' ? 'trace.tracebackMatch' : 'trace.runtime', { line: runtime.line })}
+              </span>
+            )}
+            {verdict && (
+              <span
+                title={verdict.source === 'local' ? t('verify.localHint') : undefined}
+                className={`font-mono text-[10px] font-bold px-2 py-0.5 rounded border flex items-center gap-1 ${VERDICT_STYLES[verdict.verdict].className}`}
+              >
+                <ShieldCheck size={10} /> {t(VERDICT_STYLES[verdict.verdict].key)}
+                {verdict.source === 'local' && <span className="font-normal opacity-70">· {t('verify.local')}</span>}
+              </span>
+            )}
           </div>
           {getIcon(step.status)}
         </div>
 
         <h3 className="text-lg font-bold text-slate-100 mb-1">{step.title}</h3>
         <p className="text-slate-400 text-sm leading-relaxed mb-3">{step.desc}</p>
+        {verdict?.note && (
+          <p className="text-xs text-slate-300 flex items-start gap-2 mb-3">
+            <ShieldCheck size={12} className="shrink-0 mt-0.5 text-slate-500" /> {verdict.note}
+          </p>
+        )}
+
+        {/* Socratic hints */}
+        {hint && (
+          <div className="space-y-2 mb-3">
+            {hint.questions.map((question, i) => (
+              <div key={i} className="text-sm text-violet-200 flex items-start gap-2 bg-violet-950/30 p-2 rounded border border-violet-900/50">
+                <MessageCircleQuestion size={14} className="shrink-0 mt-0.5" /> {question}
+              </div>
+            ))}
+            {hint.showHighlight && !hint.showAnswer && (
+              <div className="p-3 rounded-lg border border-slate-700 bg-rose-950/20 text-rose-300 text-sm font-mono whitespace-pre-wrap">
+                <HighlightedCode code={step.badCode!} highlight={step.errorHighlight} />
+              </div>
+            )}
+            {hint.next && onRevealHint && (
+              <button
+                onClick={e => {
+                  e.stopPropagation();
+                  onRevealHint();
+                }}
+                className="px-3 py-1 rounded border border-violet-500/40 text-violet-300 hover:bg-violet-500/10 text-xs font-mono flex items-center gap-1 transition-colors"
+              >
+                {hint.next === 'question' ? (
+                  <><MessageCircleQuestion size={12} /> {t('hint.next', { n: hintLevel! + 1, total: hint.total - 1 })}</>
+                ) : hint.next === 'highlight' ? (
+                  <><Crosshair size={12} /> {t('hint.locate')}</>
+                ) : (
+                  <><Eye size={12} /> {t('hint.showAnswer')}</>
+                )}
+              </button>
+            )}
+          </div>
+        )}
 
         {/* Comparison View for Errors */}
-        {step.isError && step.badCode && step.goodCode && (
+        {showAnswer && step.isError && step.badCode && step.goodCode && (
           <div className="mt-4 rounded-lg overflow-hidden border border-slate-700 bg-slate-950/50">
             <div className="grid grid-cols-1 md:grid-cols-2 text-sm font-mono divide-y md:divide-y-0 md:divide-x divide-slate-800">
               <div className="p-3 bg-rose-950/20 text-rose-300">
                 <div className="flex items-center gap-2 mb-1 text-rose-500 text-xs font-bold uppercase">
-                  <XCircle size={12} /> 病灶代码 (Pathology)
+                  <XCircle size={12} /> {t('trace.pathology')}
                 </div>
                 <div className="opacity-90 whitespace-pre-wrap">
                   <HighlightedCode code={step.badCode} highlight={step.errorHighlight} />
@@ -100,20 +199,43 @@ const TraceNode: React.FC<{ step: TraceStep; isLast: boolean; index: number }> =
               </div>
               <div className="p-3 bg-emerald-950/20 text-emerald-300">
                 <div className="flex items-center gap-2 mb-1 text-emerald-500 text-xs font-bold uppercase">
-                  <CheckCircle2 size={12} /> 修复方案 (Fix)
+                  <CheckCircle2 size={12} /> {t('trace.fix')}
                 </div>
                 <div className="opacity-90 whitespace-pre-wrap">{step.goodCode}</div>
               </div>
             </div>
+            {fixState && onApplyFix && (
+              <div className="flex items-center justify-end gap-2 px-3 py-2 border-t border-slate-800 text-xs">
+                {fixState === 'ready' ? (
+                  <button
+                    onClick={e => {
+                      e.stopPropagation();
+                      onApplyFix();
+                    }}
+                    className="px-3 py-1 rounded border border-emerald-500/40 text-emerald-300 hover:bg-emerald-500/10 font-mono flex items-center gap-1 transition-colors"
+                  >
+                    <Wand2 size={12} /> {t('fix.apply')}
+                  </button>
+                ) : fixState === 'applied' ? (
+                  <span className="text-emerald-400/80 font-mono flex items-center gap-1">
+                    <Check size={12} /> {t('fix.applied')}
+                  </span>
+                ) : (
+                  <span className="text-amber-400/80 flex items-center gap-1">
+                    <AlertTriangle size={12} className="shrink-0" /> {t(fixState === 'ambiguous' ? 'fix.ambiguous' : 'fix.notFound')}
+                  </span>
+                )}
+              </div>
+            )}
           </div>
         )}
 
         {/* Reason & Tips */}
-        {(step.reason || step.tip) && (
+        {showAnswer && (step.reason || step.tip) && (
           <div className="mt-3 pt-3 border-t border-slate-700/50 flex flex-col gap-2">
             {step.reason && (
               <div className="text-xs text-slate-400 flex items-start gap-2">
-                 <span className="font-bold text-slate-500 shrink-0">原因:</span>
+                 <span className="font-bold text-slate-500 shrink-0">{t('trace.reason')}</span>
                  {step.reason}
               </div>
             )}
@@ -130,16 +252,44 @@ const TraceNode: React.FC<{ step: TraceStep; isLast: boolean; index: number }> =
   );
 };
 
-export const TraceMap: React.FC<TraceMapProps> = ({ trace }) => {
+// Steps from chunked analysis are numbered per chunk ("2.3" = chunk 2, step 3)
+export const stepLabels = (trace: TraceStep[]): string[] => {
+  let inChunk = 0;
+  return trace.map((step, index) => {
+    if (!step.chunk) return String(index + 1);
+    inChunk = index > 0 && trace[index - 1].chunk?.index === step.chunk.index ? inChunk + 1 : 1;
+    return `${step.chunk.index + 1}.${inChunk}`;
+  });
+};
+
+export const TraceMap: React.FC<TraceMapProps> = ({ trace, locale, runtimeMatch, onStepSelect, fixStates, onApplyFix, verdicts, hintLevels, onRevealHint }) => {
+  const t = createTranslator(locale);
+  const labels = stepLabels(trace);
   return (
     <div className="relative py-2">
       {trace.map((step, index) => (
-        <TraceNode 
-          key={index} 
-          step={step} 
-          index={index} 
-          isLast={index === trace.length - 1} 
-        />
+        <React.Fragment key={index}>
+          {step.chunk && trace[index - 1]?.chunk?.index !== step.chunk.index && (
+            <div className="flex items-center gap-2 mb-4 text-[10px] font-mono text-slate-500 uppercase tracking-wider">
+              <Layers size={12} />
+              {t('trace.chunkHeader', { n: step.chunk.index + 1, total: step.chunk.total, start: step.chunk.startLine, end: step.chunk.endLine })}
+              <div className="flex-1 h-px bg-slate-800" />
+            </div>
+          )}
+          <TraceNode 
+            step={step} 
+            label={labels[index]} 
+            isLast={index === trace.length - 1 || trace[index + 1].chunk?.index !== step.chunk?.index} 
+            t={t}
+            runtime={runtimeMatch?.stepIndex === index ? runtimeMatch : undefined}
+            onSelect={onStepSelect}
+            fixState={fixStates?.[index]}
+            onApplyFix={onApplyFix && (() => onApplyFix(index))}
+            verdict={verdicts?.[index]}
+            hintLevel={hintLevels && step.status === 'error' ? hintLevels[index] ?? 0 : undefined}
+            onRevealHint={onRevealHint && (() => onRevealHint(index))}
+          />
+        </React.Fragment>
       ))}
     </div>
   );
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Bug, Eraser, XCircle } from 'lucide-react';
+import { Locale, ParsedTraceback } from '../types';
+import { createTranslator } from '../services/i18n';
+
+interface TracebackInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  parsed: ParsedTraceback | null; // 已按当前代码定位 (locateTraceback)
+  locale: Locale;
+  disabled?: boolean;
+}
+
+// Second input pane under the editor: the stderr / traceback the student already has.
+export const TracebackInput: React.FC<TracebackInputProps> = ({ value, onChange, parsed, locale, disabled }) => {
+  const t = createTranslator(locale);
+  const hasText = value.trim().length > 0;
+
+  return (
+    <div className="flex flex-col glass-panel rounded-xl overflow-hidden border-slate-700/50">
+      <div className="flex items-center justify-between px-4 py-2 bg-slate-900 border-b border-slate-800">
+        <div className="flex items-center gap-2 text-rose-400">
+          <Bug size={16} />
+          <span className="font-mono text-xs font-bold tracking-wider">{t('traceback.title')}</span>
+          <span className="text-[10px] text-slate-600 font-mono">{t('traceback.optional')}</span>
+        </div>
+        {hasText && (
+          <button
+            onClick={() => onChange('')}
+            disabled={disabled}
+            className="text-slate-500 hover:text-slate-300 transition-colors text-xs flex items-center gap-1"
+          >
+            <Eraser size={14} />
+            {t('traceback.clear')}
+          </button>
+        )}
+      </div>
+
+      <textarea
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        disabled={disabled}
+        spellCheck={false}
+        placeholder={t('traceback.placeholder')}
+        className="h-32 resize-y bg-slate-950 px-4 py-3 font-mono text-xs leading-5 text-rose-200/80 placeholder:text-slate-700 outline-none whitespace-pre"
+      />
+
+      {hasText && (
+        <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-t border-slate-800 bg-slate-900/60 text-[11px] font-mono">
+          {parsed ? (
+            <>
+              <span className="px-1.5 py-0.5 rounded border border-rose-500/40 bg-rose-950/40 text-rose-300 flex items-center gap-1">
+                <XCircle size={10} /> {parsed.exceptionType}
+              </span>
+              {parsed.message && <span className="text-slate-400 truncate max-w-xs" title={parsed.message}>{parsed.message}</span>}
+              <span className="text-slate-600">{t('traceback.frames', { n: parsed.frames.length })}</span>
+              <span className={parsed.errorLine !== undefined ? 'text-slate-300' : 'text-amber-400/80'}>
+                {parsed.errorLine !== undefined ? t('traceback.line', { line: parsed.errorLine }) : t('traceback.lineNotFound')}
+              </span>
+            </>
+          ) : (
+            <span className="text-amber-400/80">{t('traceback.unparsed')}</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useMemo } from 'react';
+import { Bug, TerminalSquare } from 'lucide-react';
+import { Locale, TraceStep } from '../types';
+import { createTranslator } from '../services/i18n';
+import { buildTimeline, TimelineCell } from '../services/variableTimeline';
+import { stepLabels } from './TraceMap';
+
+interface VariableTimelineProps {
+  trace: TraceStep[];
+  locale: Locale;
+  onStepSelect?: (step: TraceStep) => void; // 点击列头，跳转到编辑器对应行
+}
+
+const cellClass = (cell: TimelineCell) => {
+  if (cell.isCulprit) return 'bg-rose-950/50 text-rose-200 ring-1 ring-inset ring-rose-500/60';
+  if (cell.change === 'changed') return 'bg-amber-950/40 text-amber-200';
+  if (cell.change === 'new') return 'bg-sky-950/30 text-sky-200';
+  return 'text-slate-500';
+};
+
+// Alternative TraceMap view: one row per variable, one column per step that carries a snapshot.
+export const VariableTimeline: React.FC<VariableTimelineProps> = ({ trace, locale, onStepSelect }) => {
+  const t = createTranslator(locale);
+  const timeline = useMemo(() => buildTimeline(trace), [trace]);
+  const labels = stepLabels(trace);
+
+  if (timeline.columns.length === 0) {
+    return <p className="text-sm text-slate-500 font-mono py-4">{t('variables.empty')}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto rounded-lg border border-slate-700">
+        <table className="min-w-full text-xs font-mono border-collapse">
+          <thead>
+            <tr className="bg-slate-900">
+              <th className="sticky left-0 z-10 bg-slate-900 px-3 py-2 text-left text-slate-500 font-bold border-b border-slate-800">
+                {t('variables.name')}
+              </th>
+              {timeline.columns.map(({ stepIndex }) => {
+                const step = trace[stepIndex];
+                const isSelectable = Boolean(step.range && onStepSelect);
+                return (
+                  <th
+                    key={stepIndex}
+                    onClick={isSelectable ? () => onStepSelect!(step) : undefined}
+                    title={step.title}
+                    className={`px-3 py-2 text-left font-bold border-b border-l border-slate-800 max-w-[10rem] ${step.status === 'error' ? 'text-rose-400' : step.status === 'warning' ? 'text-amber-400' : 'text-slate-300'} ${isSelectable ? 'cursor-pointer hover:text-white' : ''}`}
+                  >
+                    <div className="flex items-center gap-1">
+                      {t('variables.step', { n: labels[stepIndex] })}
+                      {step.variablesSource === 'sandbox' && <TerminalSquare size={10} className="text-emerald-400" />}
+                    </div>
+                    <div className="font-normal text-[10px] text-slate-500 truncate">{step.title}</div>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {timeline.names.map(name => (
+              <tr key={name} className="odd:bg-slate-950/40">
+                <td className="sticky left-0 z-10 bg-slate-900 px-3 py-1.5 text-slate-200 font-bold border-r border-slate-800">{name}</td>
+                {timeline.columns.map(({ stepIndex, cells }) => {
+                  const cell = cells[name];
+                  return (
+                    <td key={stepIndex} className={`px-3 py-1.5 border-l border-slate-800/60 align-top ${cell ? cellClass(cell) : ''}`}>
+                      {cell ? (
+                        <span className="flex items-start gap-1" title={cell.type}>
+                          {cell.isCulprit && <Bug size={10} className="shrink-0 mt-0.5" />}
+                          <span className="whitespace-pre-wrap break-all">{cell.repr}</span>
+                        </span>
+                      ) : (
+                        <span className="text-slate-700">·</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-[10px] font-mono text-slate-500">
+        <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-sky-950 border border-sky-700" /> {t('variables.legend.new')}</span>
+        <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-amber-950 border border-amber-700" /> {t('variables.legend.changed')}</span>
+        <span className="flex items-center gap-1"><Bug size={10} className="text-rose-400" /> {t('variables.legend.culprit')}</span>
+        <span className="flex items-center gap-1"><TerminalSquare size={10} className="text-emerald-400" /> {t('variables.legend.sandbox')}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import { CheckStrategyId, Flashcard, LanguageId, Locale, ProviderSettings } from "../types";
+import { buildGradingPrompt, GRADING_SCHEMA, GRADING_SYSTEM_INSTRUCTION } from "./gradingPrompt";
+import { getProvider } from "./providers";
+import { runPython } from "./pythonRunner";
+import { getLanguage } from "./languages";
+import { significantTokens } from "./pythonTokenizer";
+import { DEFAULT_LOCALE, createTranslator } from "./i18n";
+
+// Answer checking for flashcard review. Strategies run cheapest first:
+//   token → AST equivalence (Pyodide) → model grading.
+// A checker either decides ('correct' / 'incorrect') or passes ('inconclusive');
+// when nobody decides, the review UI falls back to self-grading.
+
+export type CheckVerdict = 'correct' | 'incorrect' | 'inconclusive';
+
+export interface CheckOutcome {
+  verdict: CheckVerdict;
+  strategy: CheckStrategyId;
+  explanation?: string;
+}
+
+type AnswerChecker = (card: Flashcard, answer: string, settings: ProviderSettings, locale: Locale) => Promise<CheckOutcome>;
+
+// --- Token comparison ---
+
+const CLOSERS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+const STRING_LITERAL = /^([a-zA-Z]*)("""|'''|"|')([\s\S]*)\2$/;
+
+// Canonical token stream: comments and whitespace dropped, string quotes unified,
+// trailing commas before a closing bracket removed (except in one-element tuples).
+export const normalizeTokens = (code: string, language?: LanguageId): string[] => {
+  const tokens: string[] = [];
+  const commaCounts: number[] = [];
+
+  for (const { type, text } of significantTokens(getLanguage(language).tokenize(code).tokens)) {
+    if (type === 'string') {
+      const literal = STRING_LITERAL.exec(text);
+      tokens.push(literal ? `${literal[1].toLowerCase()}${JSON.stringify(literal[3])}` : text);
+      continue;
+    }
+
+    if (text === '(' || text === '[' || text === '{') {
+      commaCounts.push(0);
+    } else if (text === ',' && commaCounts.length > 0) {
+      commaCounts[commaCounts.length - 1]++;
+    } else if (CLOSERS[text]) {
+      const commas = commaCounts.pop() ?? 0;
+      const isTuple = text === ')' && commas === 1;
+      if (tokens[tokens.length - 1] === ',' && !isTuple) tokens.pop();
+    }
+    tokens.push(text);
+  }
+  return tokens;
+};
+
+const checkTokens: AnswerChecker = async (card, answer) => {
+  const expected = normalizeTokens(card.backCode, card.language);
+  const actual = normalizeTokens(answer, card.language);
+  const same = expected.length === actual.length && expected.every((token, i) => token === actual[i]);
+  // A different spelling may still be a valid fix, so mismatches are left to the next checker.
+  return { verdict: same ? 'correct' : 'inconclusive', strategy: 'token' };
+};
+
+// --- AST equivalence ---
+
+const AST_TIMEOUT_MS = 3000;
+
+// JSON string literals are valid Python string literals.
+const buildAstScript = (expected: string, actual: string) => `
+import ast, textwrap
+
+def dump(src):
+    return ast.dump(ast.parse(textwrap.dedent(src)))
+
+try:
+    answer = dump(${JSON.stringify(actual)})
+except SyntaxError as e:
+    print("SYNTAX_ERROR", e.msg)
+else:
+    try:
+        print("EQUAL" if answer == dump(${JSON.stringify(expected)}) else "DIFFERENT")
+    except SyntaxError:
+        print("REFERENCE_INVALID")
+`;
+
+const checkAst: AnswerChecker = async (card, answer, _settings, locale) => {
+  if (!getLanguage(card.language).runnable) return { verdict: 'inconclusive', strategy: 'ast' };
+  const result = await runPython(buildAstScript(card.backCode, answer), { timeoutMs: AST_TIMEOUT_MS });
+  const output = result.stdout.trim();
+
+  if (result.status !== 'ok') return { verdict: 'inconclusive', strategy: 'ast' };
+  const t = createTranslator(locale);
+  if (output === 'EQUAL') return { verdict: 'correct', strategy: 'ast', explanation: t('check.astEqual') };
+  if (output.startsWith('SYNTAX_ERROR')) {
+    return { verdict: 'incorrect', strategy: 'ast', explanation: t('check.syntaxError', { message: output.slice('SYNTAX_ERROR'.length).trim() }) };
+  }
+  return { verdict: 'inconclusive', strategy: 'ast' };
+};
+
+// --- Model grading ---
+
+const checkWithModel: AnswerChecker = async (card, answer, settings, locale) => {
+  try {
+    const provider = getProvider(settings.providerId);
+    provider.ensureConfigured(settings);
+    const payload = await provider.generateJson({
+      prompt: buildGradingPrompt(card, answer, locale),
+      systemInstruction: GRADING_SYSTEM_INSTRUCTION,
+      schema: GRADING_SCHEMA,
+    }, settings) as { acceptable?: unknown; explanation?: unknown } | null;
+
+    if (typeof payload?.acceptable !== 'boolean') {
+      console.warn("[CodeDoctor] Grading response missing verdict:", payload);
+      return { verdict: 'inconclusive', strategy: 'llm' };
+    }
+    return {
+      verdict: payload.acceptable ? 'correct' : 'incorrect',
+      strategy: 'llm',
+      explanation: typeof payload.explanation === 'string' ? payload.explanation : undefined,
+    };
+  } catch (error) {
+    console.warn("[CodeDoctor] Model grading unavailable:", error);
+    return { verdict: 'inconclusive', strategy: 'llm' };
+  }
+};
+
+const PIPELINE: AnswerChecker[] = [checkTokens, checkAst, checkWithModel];
+
+export const checkAnswer = async (card: Flashcard, answer: string, settings: ProviderSettings, locale: Locale = DEFAULT_LOCALE): Promise<CheckOutcome> => {
+  let last: CheckOutcome = { verdict: 'inconclusive', strategy: 'token' };
+  for (const checker of PIPELINE) {
+    last = await checker(card, answer, settings, locale);
+    console.log(`[CodeDoctor] Answer check (${last.strategy}): ${last.verdict}`);
+    if (last.verdict !== 'inconclusive') return last;
+  }
+  return last;
+};
@@ -0,0 +1,127 @@
+import { AnalysisContext, AnalysisOptions, ChunkInfo, LanguageId } from "../types";
+import { buildPrompt, buildSystemInstruction } from "./diagnosisPrompt";
+import { getLanguage } from "./languages";
+
+// Size estimation and splitting of long scripts for chunked analysis.
+// Estimates are deliberately rough: no tokenizer for every provider ships in the browser,
+// and the limits they are compared with are soft anyway.
+
+// Share of maxPromptTokens at which the editor starts warning
+export const NEAR_LIMIT_RATIO = 0.8;
+
+const MAX_OUTLINE_LINES = 60;
+const MIN_CHUNK_BUDGET = 500;
+
+// CJK characters are roughly one token each; code and English average about 3.5 characters per token.
+export const estimateTokens = (text: string): number => {
+  const cjk = (text.match(/[\u3000-\u9fff\uff00-\uffef]/g) ?? []).length;
+  return cjk + Math.ceil((text.length - cjk) / 3.5);
+};
+
+// The whole request as sent: system instruction, prompt wording and evidence included.
+export const estimatePromptTokens = (code: string, context: AnalysisContext = {}): number =>
+  estimateTokens(buildPrompt(code, context) + buildSystemInstruction(context.language, context.locale));
+
+export interface CodeChunk extends ChunkInfo {
+  code: string;
+}
+
+interface Segment {
+  startLine: number; // 1-based, inclusive
+  endLine: number;
+}
+
+const isTopLevel = (line: string) => line.length > 0 && !/^\s/.test(line);
+const isComment = (line: string) => /^(#|\/\/|--)/.test(line);
+
+// Splits at top-level definitions. Decorators stay with the definition they decorate and
+// comment lines directly above a definition move down with it.
+const findSegments = (lines: string[], boundary: RegExp | null): Segment[] => {
+  const starts = [0];
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i];
+    const startsBlock = boundary
+      ? isTopLevel(line) && boundary.test(line)
+      : isTopLevel(line) && lines[i - 1].trim() === '';
+    if (!startsBlock) continue;
+
+    let prev = i - 1;
+    while (prev >= 0 && lines[prev].trim() === '') prev--;
+    if (prev >= 0 && lines[prev].startsWith('@')) continue; // decorator above: same block
+
+    let start = i;
+    while (start - 1 > starts[starts.length - 1] && isComment(lines[start - 1])) start--;
+    if (start > starts[starts.length - 1]) starts.push(start);
+  }
+
+  return starts.map((start, i) => ({
+    startLine: start + 1,
+    endLine: i + 1 < starts.length ? starts[i + 1] : lines.length,
+  }));
+};
+
+// Module-level structure the model sees alongside each chunk: imports, signatures, globals.
+export const buildOutline = (code: string, language?: LanguageId): string => {
+  const { topLevelBoundary } = getLanguage(language);
+  const outline = code.split('\n')
+    .map((line, i) => ({ line: line.trimEnd(), number: i + 1 }))
+    .filter(({ line }) => isTopLevel(line) && !isComment(line) && (
+      (topLevelBoundary?.test(line) ?? false)
+      || /^(import|from|const|let|var)\b/.test(line)
+      || /^[A-Za-z_]\w*(\s*,\s*[A-Za-z_]\w*)*\s*=[^=]/.test(line)
+    ))
+    .map(({ line, number }) => `L${number}: ${line.length > 100 ? `${line.slice(0, 100)}…` : line}`);
+
+  return outline.length > MAX_OUTLINE_LINES
+    ? [...outline.slice(0, MAX_OUTLINE_LINES), `… (+${outline.length - MAX_OUTLINE_LINES})`].join('\n')
+    : outline.join('\n');
+};
+
+// Greedily packs consecutive segments into chunks that fit the token budget.
+// A single definition larger than the budget becomes a chunk of its own.
+export const splitIntoChunks = (code: string, language: LanguageId | undefined, maxPromptTokens: number): CodeChunk[] => {
+  const lines = code.split('\n');
+  const outline = buildOutline(code, language);
+  const overhead = estimatePromptTokens('', { language, chunk: { index: 0, total: 1, startLine: 1, endLine: 1, outline } });
+  const budget = Math.max(MIN_CHUNK_BUDGET, maxPromptTokens - overhead);
+
+  const ranges: Segment[] = [];
+  let tokens = 0;
+  for (const segment of findSegments(lines, getLanguage(language).topLevelBoundary)) {
+    const size = estimateTokens(lines.slice(segment.startLine - 1, segment.endLine).join('\n'));
+    const current = ranges[ranges.length - 1];
+    if (current && tokens + size <= budget) {
+      current.endLine = segment.endLine;
+      tokens += size;
+    } else {
+      ranges.push({ ...segment });
+      tokens = size;
+    }
+  }
+
+  return ranges.map((range, index) => ({
+    ...range,
+    index,
+    total: ranges.length,
+    code: lines.slice(range.startLine - 1, range.endLine).join('\n'),
+  }));
+};
+
+export interface SizePlan {
+  tokens: number; // 整段代码作为一次请求的估算 token 数
+  nearLimit: boolean;
+  overLimit: boolean;
+  chunks: CodeChunk[] | null; // 需要且允许分段时的切分结果
+}
+
+export const planAnalysis = (code: string, language: LanguageId | undefined, options: AnalysisOptions): SizePlan => {
+  const tokens = estimatePromptTokens(code, { language });
+  const overLimit = tokens > options.maxPromptTokens;
+  const chunks = overLimit && options.chunkLongScripts ? splitIntoChunks(code, language, options.maxPromptTokens) : null;
+  return {
+    tokens,
+    nearLimit: tokens >= options.maxPromptTokens * NEAR_LIMIT_RATIO,
+    overLimit,
+    chunks: chunks && chunks.length > 1 ? chunks : null,
+  };
+};
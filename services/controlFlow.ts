@@ -0,0 +1,346 @@
+import { TraceStep } from "../types";
+import { significantTokens, tokenizePython } from "./pythonTokenizer";
+import { buildLogicalLines, DepthToken, indentWidth, LogicalLine } from "./staticChecks";
+
+// Control-flow graph of Python source, built locally from the tokenizer's logical lines.
+// Statements are nested by indentation (the same way the interpreter reads them), then
+// each scope (the module and every function) becomes its own graph: basic blocks of
+// straight-line code, branch and loop headers, try/except handlers. Code that does not
+// parse cleanly still produces a graph; odd indentation is simply read as one level.
+
+// --- Statements ---
+
+const BLOCK_KEYWORDS = new Set(['if', 'elif', 'else', 'for', 'while', 'def', 'class', 'try', 'except', 'finally', 'with', 'match', 'case']);
+
+interface Statement {
+  keyword: string | null; // compound statement keyword ('async' dropped), null for simple statements
+  first: string; // first token of a simple statement (return, break, ...)
+  text: string; // header or statement source, first physical line
+  line: number;
+  endLine: number; // last line of the header (compound) or of the statement (simple)
+  body: Statement[];
+}
+
+const lastLine = (tokens: DepthToken[]) => tokens[tokens.length - 1].line;
+
+const toStatement = (logical: LogicalLine, lines: string[]): { statement: Statement; inline: DepthToken[] } => {
+  const tokens = logical.tokens[0].text === 'async' ? logical.tokens.slice(1) : logical.tokens;
+  const first = tokens[0] ?? logical.tokens[0];
+  const isKeyword = first.type === 'keyword' || first.type === 'softKeyword';
+  const colon = tokens.findIndex(t => t.depth === 0 && t.text === ':');
+  const text = lines[logical.line - 1].trim();
+
+  if (isKeyword && BLOCK_KEYWORDS.has(first.text) && colon !== -1) {
+    const header = tokens.slice(0, colon + 1);
+    const { line, column } = tokens[colon];
+    const headerText = line === logical.line ? lines[line - 1].slice(0, column).trim() : text;
+    return {
+      statement: { keyword: first.text, first: first.text, text: headerText, line: logical.line, endLine: lastLine(header), body: [] },
+      inline: tokens.slice(colon + 1), // `if x: return` keeps its body on the header line
+    };
+  }
+  return {
+    statement: { keyword: null, first: first.text, text, line: logical.line, endLine: lastLine(logical.tokens), body: [] },
+    inline: [],
+  };
+};
+
+const parseStatements = (code: string): Statement[] => {
+  const tokenized = tokenizePython(code);
+  const logical = buildLogicalLines(tokenized, significantTokens(tokenized.tokens));
+  const lines = code.split('\n');
+
+  // Everything indented at least `minWidth` belongs to this body; a header takes the lines indented past it
+  const parseBody = (start: number, minWidth: number): [Statement[], number] => {
+    const body: Statement[] = [];
+    let i = start;
+    while (i < logical.length && indentWidth(logical[i].indent) >= minWidth) {
+      const width = indentWidth(logical[i].indent);
+      const { statement, inline } = toStatement(logical[i], lines);
+      i++;
+      if (statement.keyword) {
+        if (inline.length > 0) {
+          const text = lines[inline[0].line - 1].slice(inline[0].column).trim();
+          statement.body = [{ keyword: null, first: inline[0].text, text, line: inline[0].line, endLine: lastLine(inline), body: [] }];
+        } else if (i < logical.length && indentWidth(logical[i].indent) > width) {
+          [statement.body, i] = parseBody(i, width + 1);
+        }
+      }
+      body.push(statement);
+    }
+    return [body, i];
+  };
+
+  return parseBody(0, 0)[0];
+};
+
+// --- Graph ---
+
+export type CfgNodeKind = 'entry' | 'exit' | 'block' | 'branch' | 'loop' | 'try' | 'handler';
+export type CfgEdgeKind = 'next' | 'true' | 'false' | 'back' | 'exception';
+
+export interface CfgNode {
+  id: number;
+  kind: CfgNodeKind;
+  label: string;
+  scope: number; // graph.scopes 下标
+  depth: number; // 在所在作用域中的嵌套层级
+  startLine: number; // 入口/出口节点为作用域的定义行
+  endLine: number;
+}
+
+export interface CfgEdge {
+  from: number;
+  to: number;
+  kind: CfgEdgeKind;
+}
+
+export interface CfgScope {
+  name: string; // '<module>'、函数名或 "类名.方法名"
+  line: number;
+}
+
+export interface ControlFlowGraph {
+  scopes: CfgScope[];
+  nodes: CfgNode[];
+  edges: CfgEdge[];
+}
+
+interface Pending {
+  from: number;
+  kind: CfgEdgeKind;
+}
+
+interface ScopeContext {
+  scope: number;
+  prefix: string; // qualifies the names of functions defined in this scope
+  exit: number;
+  loops: { header: number; breaks: Pending[] }[];
+  handlers: number[][]; // except nodes of the enclosing try statements, innermost last
+}
+
+const MAX_LABEL = 40;
+const clip = (text: string) => (text.length > MAX_LABEL ? `${text.slice(0, MAX_LABEL - 1)}…` : text);
+
+const isDefinition = (statement: Statement) => statement.keyword === 'def' || statement.keyword === 'class';
+const isJump = (statement: Statement) => !statement.keyword && ['return', 'break', 'continue', 'raise'].includes(statement.first);
+const definedName = (statement: Statement) => /^(?:async\s+)?(?:def|class)\s+(\w+)/.exec(statement.text)?.[1] ?? '?';
+
+export const buildControlFlowGraph = (code: string): ControlFlowGraph => {
+  const graph: ControlFlowGraph = { scopes: [], nodes: [], edges: [] };
+  const pendingScopes: { name: string; line: number; body: Statement[] }[] = [];
+
+  const addNode = (node: Omit<CfgNode, 'id'>) => graph.nodes.push({ ...node, id: graph.nodes.length }) - 1;
+  const connect = (pending: Pending[], to: number) => pending.forEach(({ from, kind }) => graph.edges.push({ from, to, kind }));
+
+  // Function bodies become scopes of their own, built after the code that defines them
+  const queueDefinitions = (statement: Statement, prefix: string) => {
+    const name = prefix + definedName(statement);
+    if (statement.keyword === 'def') pendingScopes.push({ name, line: statement.line, body: statement.body });
+    else statement.body.filter(s => s.keyword === 'def' || s.keyword === 'class').forEach(s => queueDefinitions(s, `${name}.`));
+  };
+
+  const jump = (statement: Statement, node: number, ctx: ScopeContext): Pending[] => {
+    switch (statement.first) {
+      case 'return':
+        connect([{ from: node, kind: 'next' }], ctx.exit);
+        return [];
+      case 'break':
+        ctx.loops[ctx.loops.length - 1]?.breaks.push({ from: node, kind: 'next' });
+        return [];
+      case 'continue': {
+        const loop = ctx.loops[ctx.loops.length - 1];
+        if (loop) connect([{ from: node, kind: 'back' }], loop.header);
+        return [];
+      }
+      default: { // raise
+        const handlers = ctx.handlers[ctx.handlers.length - 1] ?? [ctx.exit];
+        handlers.forEach(handler => connect([{ from: node, kind: 'exception' }], handler));
+        return [];
+      }
+    }
+  };
+
+  const buildBody = (body: Statement[], incoming: Pending[], ctx: ScopeContext, depth: number): Pending[] => {
+    let pending = incoming;
+    let i = 0;
+    const header = (statement: Statement, kind: CfgNodeKind) =>
+      addNode({ kind, label: clip(statement.text), scope: ctx.scope, depth, startLine: statement.line, endLine: statement.endLine });
+    // The clauses that follow a statement at the same level (elif/else, except/finally, case)
+    const takeClauses = (keywords: string[]) => {
+      const clauses: Statement[] = [];
+      while (i < body.length && keywords.includes(body[i].keyword ?? '')) clauses.push(body[i++]);
+      return clauses;
+    };
+
+    while (i < body.length) {
+      const statement = body[i];
+
+      // A definition is one node here; its body is a scope of its own
+      if (isDefinition(statement)) {
+        i++;
+        queueDefinitions(statement, ctx.prefix);
+        const node = header(statement, 'block');
+        connect(pending, node);
+        pending = [{ from: node, kind: 'next' }];
+        continue;
+      }
+
+      // A basic block: straight-line statements up to the next compound statement or jump
+      if (!statement.keyword) {
+        const run: Statement[] = [];
+        while (i < body.length && !body[i].keyword) {
+          run.push(body[i++]);
+          if (isJump(run[run.length - 1])) break;
+        }
+        const last = run[run.length - 1];
+        const node = addNode({
+          kind: 'block',
+          label: clip(run[0].text) + (run.length > 1 ? ` (+${run.length - 1})` : ''),
+          scope: ctx.scope,
+          depth,
+          startLine: run[0].line,
+          endLine: last.endLine,
+        });
+        connect(pending, node);
+        pending = isJump(last) ? jump(last, node, ctx) : [{ from: node, kind: 'next' }];
+        continue;
+      }
+
+      i++;
+      switch (statement.keyword) {
+        case 'if': {
+          const ends: Pending[] = [];
+          let otherwise = pending;
+          for (const clause of [statement, ...takeClauses(['elif', 'else'])]) {
+            if (clause.keyword === 'else') {
+              ends.push(...buildBody(clause.body, otherwise, ctx, depth + 1));
+              otherwise = [];
+              break;
+            }
+            const condition = header(clause, 'branch');
+            connect(otherwise, condition);
+            ends.push(...buildBody(clause.body, [{ from: condition, kind: 'true' }], ctx, depth + 1));
+            otherwise = [{ from: condition, kind: 'false' }];
+          }
+          pending = [...ends, ...otherwise];
+          break;
+        }
+        case 'for':
+        case 'while': {
+          const loop = header(statement, 'loop');
+          connect(pending, loop);
+          const frame = { header: loop, breaks: [] as Pending[] };
+          ctx.loops.push(frame);
+          const ends = buildBody(statement.body, [{ from: loop, kind: 'true' }], ctx, depth + 1);
+          ctx.loops.pop();
+          ends.forEach(({ from }) => graph.edges.push({ from, to: loop, kind: 'back' }));
+          let exits: Pending[] = [{ from: loop, kind: 'false' }];
+          const [orElse] = takeClauses(['else']);
+          if (orElse) exits = buildBody(orElse.body, exits, ctx, depth + 1);
+          pending = [...exits, ...frame.breaks];
+          break;
+        }
+        case 'try': {
+          const tryNode = header(statement, 'try');
+          connect(pending, tryNode);
+          const clauses = takeClauses(['except', 'else', 'finally']);
+          const excepts = clauses.filter(c => c.keyword === 'except');
+          const handlers = excepts.map(c => header(c, 'handler'));
+          handlers.forEach(handler => graph.edges.push({ from: tryNode, to: handler, kind: 'exception' }));
+
+          if (handlers.length > 0) ctx.handlers.push(handlers);
+          let ends = buildBody(statement.body, [{ from: tryNode, kind: 'next' }], ctx, depth + 1);
+          if (handlers.length > 0) ctx.handlers.pop();
+
+          const orElse = clauses.find(c => c.keyword === 'else');
+          if (orElse) ends = buildBody(orElse.body, ends, ctx, depth + 1);
+          excepts.forEach((c, k) => ends.push(...buildBody(c.body, [{ from: handlers[k], kind: 'next' }], ctx, depth + 1)));
+
+          const final = clauses.find(c => c.keyword === 'finally');
+          if (final) {
+            const node = header(final, 'block');
+            connect(ends, node);
+            ends = buildBody(final.body, [{ from: node, kind: 'next' }], ctx, depth + 1);
+          }
+          pending = ends;
+          break;
+        }
+        case 'match': {
+          const subject = header(statement, 'branch');
+          connect(pending, subject);
+          const ends: Pending[] = [];
+          let otherwise: Pending[] = [{ from: subject, kind: 'next' }];
+          for (const clause of statement.body.filter(c => c.keyword === 'case')) {
+            const condition = header(clause, 'branch');
+            connect(otherwise, condition);
+            ends.push(...buildBody(clause.body, [{ from: condition, kind: 'true' }], ctx, depth + 2));
+            otherwise = [{ from: condition, kind: 'false' }];
+          }
+          pending = [...ends, ...otherwise];
+          break;
+        }
+        default: { // with, and clauses without their opening statement
+          const node = header(statement, 'block');
+          connect(pending, node);
+          pending = buildBody(statement.body, [{ from: node, kind: 'next' }], ctx, depth + 1);
+        }
+      }
+    }
+    return pending;
+  };
+
+  const buildScope = (name: string, line: number, body: Statement[]) => {
+    const scope = graph.scopes.push({ name, line }) - 1;
+    const entry = addNode({ kind: 'entry', label: name, scope, depth: 0, startLine: line, endLine: line });
+    const exit = addNode({ kind: 'exit', label: '', scope, depth: 0, startLine: line, endLine: line });
+    const prefix = scope === 0 ? '' : `${name}.`;
+    const ends = buildBody(body, [{ from: entry, kind: 'next' }], { scope, prefix, exit, loops: [], handlers: [] }, 0);
+    connect(ends, exit);
+  };
+
+  buildScope('<module>', 1, parseStatements(code));
+  for (let k = 0; k < pendingScopes.length; k++) {
+    const { name, line, body } = pendingScopes[k];
+    buildScope(name, line, body);
+  }
+  return graph;
+};
+
+// --- Trace overlay ---
+
+const isCodeNode = (node: CfgNode) => node.kind !== 'entry' && node.kind !== 'exit';
+
+// The node covering `line`; on a one-line `if x: return` the header comes first.
+export const findNodeForLine = (graph: ControlFlowGraph, line: number): CfgNode | undefined =>
+  graph.nodes.find(node => isCodeNode(node) && node.startLine <= line && line <= node.endLine);
+
+export interface TraceOverlay {
+  path: number[]; // 按 trace 顺序经过的节点 (相邻重复已合并)
+  stepsByNode: Map<number, number[]>; // 节点 -> 落在该节点上的步骤下标
+  errorNode?: number;
+}
+
+// Steps are placed on every node their range overlaps; steps without a location are skipped.
+export const overlayTrace = (graph: ControlFlowGraph, trace: TraceStep[], errorLine?: number): TraceOverlay => {
+  const path: number[] = [];
+  const stepsByNode = new Map<number, number[]>();
+
+  trace.forEach((step, index) => {
+    const { range } = step;
+    if (!range) return;
+    const nodes = graph.nodes
+      .filter(node => isCodeNode(node) && node.startLine <= range.endLine && node.endLine >= range.startLine)
+      .sort((a, b) => a.startLine - b.startLine);
+    for (const node of nodes) {
+      stepsByNode.set(node.id, [...(stepsByNode.get(node.id) ?? []), index]);
+      if (path[path.length - 1] !== node.id) path.push(node.id);
+    }
+  });
+
+  // The interpreter's failing line when there is one, else the first located error step
+  const failingStep = trace.find(step => step.status === 'error' && step.range);
+  const line = errorLine ?? (failingStep && (failingStep.highlightRange ?? failingStep.range)!.startLine);
+  const errorNode = line !== undefined ? findNodeForLine(graph, line)?.id : undefined;
+  return { path, stepsByNode, errorNode };
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { Flashcard } from '../types';
+import { mergeDeck, parseDeckFile, planImport } from './deckTransfer';
+import { reviewCard } from './scheduler';
+
+const importDeck = (cards: unknown[]) => {
+  const incoming = parseDeckFile('deck.json', JSON.stringify({ format: 'code-doctor-deck', version: 1, cards }));
+  return mergeDeck([], planImport([], incoming), 'skip', 'keep');
+};
+
+const card = { concept: 'Indexing', frontCode: 'xs[len(xs)]', backCode: 'xs[-1]', explanation: 'Off by one' };
+
+describe('deck import', () => {
+  it('fills stats fields the file leaves out', () => {
+    const [imported] = importDeck([{ ...card, stats: { easeFactor: 2.1, dueAt: 5, status: 'learning' } }]);
+    expect(imported.stats).toMatchObject({ easeFactor: 2.1, dueAt: 5, status: 'learning', correctStreak: 0, repetitions: 0, history: [] });
+    expect(() => reviewCard(imported.stats, 4, 10)).not.toThrow();
+  });
+
+  it('replaces stats fields of the wrong type and drops malformed history entries', () => {
+    const history = [{ reviewedAt: 1, quality: 4, interval: 1, easeFactor: 2.5 }, { reviewedAt: 'yesterday' }];
+    const [imported] = importDeck([{ ...card, stats: { easeFactor: 2.1, dueAt: 5, interval: '3', status: 'unknown', history } }]);
+    expect(imported.stats.interval).toBe(0);
+    expect(imported.stats.status).toBe('new');
+    expect(imported.stats.history).toEqual([history[0]]);
+  });
+
+  it('upgrades stats from before spaced repetition', () => {
+    const [imported] = importDeck([{ ...card, stats: { correctStreak: 2, incorrectCount: 1, status: 'learning' } }]);
+    expect(imported.stats).toMatchObject({ interval: 6, repetitions: 2, history: [] });
+  });
+
+  it('keeps only known languages', () => {
+    const [known, unknown] = importDeck([{ ...card, language: 'python' }, { ...card, concept: 'Other', language: 'cobol' }]) as Flashcard[];
+    expect(known.language).toBe('python');
+    expect(unknown.language).toBeUndefined();
+  });
+});
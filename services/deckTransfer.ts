@@ -0,0 +1,273 @@
+import { CardStats, CardStatus, CheckStrategyId, Flashcard, ReviewLogEntry } from "../types";
+import { createInitialStats, migrateFlashcard } from "./scheduler";
+import { isLanguageId } from "./languages";
+
+// Flashcard deck import/export: versioned JSON (lossless), CSV and Anki-importable text.
+
+export const DECK_FORMAT = 'code-doctor-deck';
+export const DECK_VERSION = 1;
+
+export type ExportFormat = 'json' | 'csv' | 'anki';
+
+export interface DeckFile {
+  format: typeof DECK_FORMAT;
+  version: number;
+  exportedAt: string; // ISO 8601
+  cards: Flashcard[];
+}
+
+export type DeckImportFailureReason = 'invalidJson' | 'noCards' | 'unsupportedVersion' | 'emptyCsv' | 'missingColumn';
+
+export class DeckImportError extends Error {
+  readonly reason: DeckImportFailureReason;
+  readonly params: Record<string, string | number>; // 填入界面提示的占位符
+
+  constructor(reason: DeckImportFailureReason, message: string, params: Record<string, string | number> = {}) {
+    super(message);
+    this.name = 'DeckImportError';
+    this.reason = reason;
+    this.params = params;
+  }
+}
+
+const CSV_COLUMNS = ['concept', 'frontCode', 'errorHighlight', 'backCode', 'explanation', 'language'] as const;
+
+// --- Export ---
+
+const escapeCsv = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Anki's text importer is line-based: fields can't contain raw tabs or newlines.
+const toAnkiField = (html: string) => html.replace(/\t/g, '    ').replace(/\r?\n/g, '<br>');
+
+const renderFrontHtml = (card: Flashcard) => {
+  let code = escapeHtml(card.frontCode);
+  if (card.errorHighlight) {
+    const mark = escapeHtml(card.errorHighlight);
+    code = code.split(mark).join(`<mark style="background:#fecdd3;color:#9f1239">${mark}</mark>`);
+  }
+  return `<b>${escapeHtml(card.concept)}</b><pre><code>${code}</code></pre>`;
+};
+
+const renderBackHtml = (card: Flashcard) =>
+  `<pre><code>${escapeHtml(card.backCode)}</code></pre><p>${escapeHtml(card.explanation)}</p>`;
+
+export const exportDeck = (cards: Flashcard[], format: ExportFormat): string => {
+  switch (format) {
+    case 'json': {
+      const file: DeckFile = { format: DECK_FORMAT, version: DECK_VERSION, exportedAt: new Date().toISOString(), cards };
+      return JSON.stringify(file, null, 2);
+    }
+    case 'csv': {
+      const rows = cards.map(card => CSV_COLUMNS.map(col => escapeCsv(card[col] ?? '')).join(','));
+      return [CSV_COLUMNS.join(','), ...rows].join('\n');
+    }
+    case 'anki': {
+      const header = ['#separator:tab', '#html:true', '#columns:Front\tBack\tTags'];
+      const rows = cards.map(card =>
+        [toAnkiField(renderFrontHtml(card)), toAnkiField(renderBackHtml(card)), 'code-doctor'].join('\t')
+      );
+      return [...header, ...rows].join('\n');
+    }
+  }
+};
+
+export const EXPORT_FILE_INFO: Record<ExportFormat, { extension: string; mime: string }> = {
+  json: { extension: 'json', mime: 'application/json' },
+  csv: { extension: 'csv', mime: 'text/csv' },
+  anki: { extension: 'txt', mime: 'text/plain' },
+};
+
+// --- Import ---
+
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const isCardLike = (value: unknown): value is Flashcard => {
+  const card = value as Flashcard;
+  return typeof card === 'object' && card !== null
+    && typeof card.concept === 'string' && typeof card.frontCode === 'string' && typeof card.backCode === 'string';
+};
+
+const importJson = (text: string): Flashcard[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new DeckImportError('invalidJson', 'Deck file is not valid JSON.');
+  }
+
+  // Accept both the versioned wrapper and a bare card array
+  const file = data as Partial<DeckFile>;
+  const cards = Array.isArray(data) ? data : file.cards;
+  if (!Array.isArray(cards)) throw new DeckImportError('noCards', 'No flashcard array found in the JSON.');
+  if (!Array.isArray(data) && file.format === DECK_FORMAT && (file.version ?? 0) > DECK_VERSION) {
+    throw new DeckImportError('unsupportedVersion', `Deck version ${file.version} is newer than supported (${DECK_VERSION}).`, {
+      version: file.version ?? 0,
+      supported: DECK_VERSION,
+    });
+  }
+
+  return cards.filter(isCardLike).map(card => ({
+    ...card,
+    explanation: typeof card.explanation === 'string' ? card.explanation : '',
+    language: isLanguageId(card.language) ? card.language : undefined,
+  }));
+};
+
+const importCsv = (text: string): Flashcard[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new DeckImportError('emptyCsv', 'The CSV file is empty.');
+
+  const index = Object.fromEntries(header.map((name, i) => [name.trim(), i]));
+  for (const required of ['concept', 'frontCode', 'backCode']) {
+    if (index[required] === undefined) throw new DeckImportError('missingColumn', `CSV is missing column: ${required}`, { column: required });
+  }
+
+  return rows
+    .map(cells => {
+      const get = (col: string) => (index[col] !== undefined ? cells[index[col]] ?? '' : '');
+      const language = get('language').trim().toLowerCase();
+      return {
+        id: '',
+        concept: get('concept'),
+        frontCode: get('frontCode'),
+        errorHighlight: get('errorHighlight') || undefined,
+        backCode: get('backCode'),
+        explanation: get('explanation'),
+        language: isLanguageId(language) ? language : undefined,
+        stats: createInitialStats(),
+      };
+    })
+    .filter(card => card.concept && card.frontCode && card.backCode);
+};
+
+export const parseDeckFile = (fileName: string, text: string): Flashcard[] => {
+  // Strip the BOM Excel puts in front of CSV files
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  const cards = fileName.toLowerCase().endsWith('.csv') || !/^[[{]/.test(trimmed)
+    ? importCsv(trimmed)
+    : importJson(trimmed);
+  console.log(`[CodeDoctor] Parsed ${cards.length} cards from ${fileName}.`);
+  return cards;
+};
+
+// --- Merge ---
+
+export type DuplicatePolicy = 'skip' | 'replace';
+export type ProgressPolicy = 'keep' | 'reset';
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// Two cards are duplicates when they teach the same concept with the same code.
+export const deckKey = (card: Pick<Flashcard, 'concept' | 'frontCode'>) =>
+  `${normalize(card.concept)}\u0000${normalize(card.frontCode)}`;
+
+export interface ImportPlan {
+  fresh: Flashcard[];
+  duplicates: Flashcard[];
+}
+
+export const planImport = (existing: Flashcard[], incoming: Flashcard[]): ImportPlan => {
+  const existingKeys = new Set(existing.map(deckKey));
+  const seen = new Set<string>();
+  const plan: ImportPlan = { fresh: [], duplicates: [] };
+
+  for (const card of incoming) {
+    const key = deckKey(card);
+    if (seen.has(key)) continue; // duplicate within the file itself
+    seen.add(key);
+    (existingKeys.has(key) ? plan.duplicates : plan.fresh).push(card);
+  }
+  return plan;
+};
+
+const CARD_STATUSES: CardStatus[] = ['new', 'learning', 'critical', 'mastered'];
+const CHECK_STRATEGIES: CheckStrategyId[] = ['token', 'ast', 'llm', 'self'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isReviewLogEntry = (value: unknown): value is ReviewLogEntry =>
+  isObject(value) && [value.reviewedAt, value.quality, value.interval, value.easeFactor].every(Number.isFinite);
+
+// Imported progress comes from a file anyone could have edited: fields that are missing or of
+// the wrong type are taken from a new card's stats, so the scheduler never sees a partial record.
+const normalizeStats = (stats: CardStats): CardStats => {
+  const raw: Record<string, unknown> = isObject(stats) ? stats : {};
+  const fallback = createInitialStats();
+  const number = (key: 'correctStreak' | 'incorrectCount' | 'easeFactor' | 'interval' | 'repetitions' | 'dueAt') =>
+    Number.isFinite(raw[key]) ? (raw[key] as number) : fallback[key];
+  return {
+    correctStreak: number('correctStreak'),
+    incorrectCount: number('incorrectCount'),
+    status: CARD_STATUSES.includes(raw.status as CardStatus) ? (raw.status as CardStatus) : fallback.status,
+    easeFactor: number('easeFactor'),
+    interval: number('interval'),
+    repetitions: number('repetitions'),
+    dueAt: number('dueAt'),
+    history: Array.isArray(raw.history) ? raw.history.filter(isReviewLogEntry) : fallback.history,
+    ...(CHECK_STRATEGIES.includes(raw.lastAcceptedBy as CheckStrategyId) && { lastAcceptedBy: raw.lastAcceptedBy as CheckStrategyId }),
+    ...(Number.isFinite(raw.fixVerifiedAt) && { fixVerifiedAt: raw.fixVerifiedAt as number }),
+    ...(Number.isFinite(raw.hintsUsed) && { hintsUsed: raw.hintsUsed as number }),
+  };
+};
+
+export const mergeDeck = (
+  existing: Flashcard[],
+  plan: ImportPlan,
+  duplicates: DuplicatePolicy,
+  progress: ProgressPolicy
+): Flashcard[] => {
+  const stamp = Date.now();
+  const prepare = (card: Flashcard, i: number): Flashcard => {
+    const base = { ...card, id: `import-${stamp}-${i}` };
+    if (progress === 'reset' || !isObject(card.stats)) return { ...base, stats: createInitialStats() };
+    const migrated = migrateFlashcard(base);
+    return { ...migrated, stats: normalizeStats(migrated.stats) };
+  };
+
+  const imported = plan.fresh.map(prepare);
+  if (duplicates === 'skip') return [...existing, ...imported];
+
+  // Replace: the imported copy takes the existing card's place (and id)
+  const replacements = new Map(plan.duplicates.map((card, i) => [deckKey(card), prepare(card, plan.fresh.length + i)]));
+  const merged = existing.map(card => {
+    const replacement = replacements.get(deckKey(card));
+    return replacement ? { ...replacement, id: card.id } : card;
+  });
+  return [...merged, ...imported];
+};
@@ -0,0 +1,187 @@
+import { DiagnosisErrorCode, DiagnosisFailure, RetryableErrorClass, SuggestedAction } from "../types";
+import { DiagnosisValidationError } from "./diagnosisValidator";
+
+// Typed failures of a diagnosis. Providers throw these where they can tell what went wrong;
+// everything else (SDK errors, fetch failures, HTTP statuses) is mapped by toDiagnosisError.
+// The error panel renders by `code` (titles and explanations live in the i18n catalog under
+// `failure.<code>.*`); `message` keeps the underlying technical detail.
+
+interface DiagnosisErrorOptions {
+  retryable: boolean;
+  actions: SuggestedAction[];
+  retryClass?: RetryableErrorClass; // set when the automatic retry loop may try again
+  cause?: unknown;
+}
+
+export class DiagnosisError extends Error implements DiagnosisFailure {
+  readonly code: DiagnosisErrorCode;
+  readonly retryable: boolean;
+  readonly actions: SuggestedAction[];
+  readonly retryClass: RetryableErrorClass | null;
+  attempts?: number;
+
+  constructor(code: DiagnosisErrorCode, message: string, { retryable, actions, retryClass, cause }: DiagnosisErrorOptions) {
+    super(message, { cause });
+    this.name = 'DiagnosisError';
+    this.code = code;
+    this.retryable = retryable;
+    this.actions = actions;
+    this.retryClass = retryClass ?? null;
+  }
+}
+
+// Missing API key, endpoint URL or model: nothing was sent.
+export class ProviderNotConfiguredError extends DiagnosisError {
+  constructor(message: string) {
+    super('notConfigured', message, { retryable: false, actions: [{ type: 'openSettings' }] });
+    this.name = 'ProviderNotConfiguredError';
+  }
+}
+
+export class AuthenticationError extends DiagnosisError {
+  constructor(message: string, cause?: unknown) {
+    super('auth', message, { retryable: false, actions: [{ type: 'openSettings' }], cause });
+    this.name = 'AuthenticationError';
+  }
+}
+
+const DEFAULT_RATE_LIMIT_WAIT_SECONDS = 30;
+
+export class RateLimitError extends DiagnosisError {
+  readonly retryAfterSeconds?: number;
+
+  constructor(message: string, retryAfterSeconds?: number, cause?: unknown) {
+    super('rateLimit', message, {
+      retryable: true,
+      actions: [{ type: 'waitAndRetry', seconds: Math.ceil(retryAfterSeconds ?? DEFAULT_RATE_LIMIT_WAIT_SECONDS) }],
+      retryClass: 'rateLimit',
+      cause,
+    });
+    this.name = 'RateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export class NetworkError extends DiagnosisError {
+  constructor(message: string, cause?: unknown) {
+    super('network', message, { retryable: true, actions: [{ type: 'retry' }, { type: 'openSettings' }], retryClass: 'network', cause });
+    this.name = 'NetworkError';
+  }
+}
+
+export class RequestTimeoutError extends DiagnosisError {
+  constructor(message: string, cause?: unknown) {
+    super('timeout', message, {
+      retryable: true,
+      actions: [{ type: 'retry' }, { type: 'shortenCode' }, { type: 'openSettings' }],
+      retryClass: 'timeout',
+      cause,
+    });
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+export class ServerError extends DiagnosisError {
+  readonly status?: number;
+
+  constructor(message: string, status?: number, cause?: unknown) {
+    super('server', message, { retryable: true, actions: [{ type: 'retry' }, { type: 'openSettings' }], retryClass: 'server', cause });
+    this.name = 'ServerError';
+    this.status = status;
+  }
+}
+
+export class InvalidOutputError extends DiagnosisError {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = [], cause?: unknown) {
+    super('invalidOutput', message, {
+      retryable: true,
+      actions: [{ type: 'retry' }, { type: 'openSettings' }],
+      retryClass: 'invalidOutput',
+      cause,
+    });
+    this.name = 'InvalidOutputError';
+    this.issues = issues;
+  }
+}
+
+export class SafetyBlockError extends DiagnosisError {
+  readonly reason: string;
+
+  constructor(reason: string) {
+    super('safety', `Response blocked by the provider's safety filter (${reason})`, { retryable: false, actions: [{ type: 'editCode' }] });
+    this.name = 'SafetyBlockError';
+    this.reason = reason;
+  }
+}
+
+export class InputTooLongError extends DiagnosisError {
+  constructor(message: string, cause?: unknown) {
+    super('inputTooLong', message, { retryable: false, actions: [{ type: 'shortenCode' }], cause });
+    this.name = 'InputTooLongError';
+  }
+}
+
+export class BadRequestError extends DiagnosisError {
+  readonly status?: number;
+
+  constructor(message: string, status?: number, cause?: unknown) {
+    super('badRequest', message, { retryable: false, actions: [{ type: 'openSettings' }], cause });
+    this.name = 'BadRequestError';
+    this.status = status;
+  }
+}
+
+export class UnknownDiagnosisError extends DiagnosisError {
+  constructor(message: string, cause?: unknown) {
+    super('unknown', message, { retryable: true, actions: [{ type: 'retry' }], cause });
+    this.name = 'UnknownDiagnosisError';
+  }
+}
+
+// --- Mapping raw errors ---
+
+// Gemini's ApiError and EndpointHttpError both carry `status`; anything else may mention it in the message.
+export const getHttpStatus = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return status;
+  const match = error instanceof Error ? /HTTP (\d{3})/.exec(error.message) : null;
+  return match ? Number(match[1]) : undefined;
+};
+
+// Retry-After header (EndpointHttpError) or Gemini's RetryInfo ("retryDelay": "13s" / "Please retry in 13.2s").
+const getRetryAfterSeconds = (error: unknown, message: string): number | undefined => {
+  const header = (error as { retryAfterSeconds?: unknown } | null)?.retryAfterSeconds;
+  if (typeof header === 'number') return header;
+  const match = /retryDelay\W+(\d+(?:\.\d+)?)s/i.exec(message) ?? /retry in (\d+(?:\.\d+)?)\s*s/i.exec(message);
+  return match ? Number(match[1]) : undefined;
+};
+
+const TOO_LONG = /token count|exceeds the maximum|context length|maximum context|too long|too large/i;
+const INVALID_KEY = /api key not valid|API_KEY_INVALID|invalid api key|unauthori[sz]ed/i;
+
+export const toDiagnosisError = (error: unknown): DiagnosisError => {
+  if (error instanceof DiagnosisError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof DiagnosisValidationError) return new InvalidOutputError(message, error.issues, error);
+  if (error instanceof SyntaxError) return new InvalidOutputError(message, [], error);
+
+  const status = getHttpStatus(error);
+  if (status !== undefined) {
+    if (status === 429) return new RateLimitError(message, getRetryAfterSeconds(error, message), error);
+    if (status === 401 || status === 403 || INVALID_KEY.test(message)) return new AuthenticationError(message, error);
+    if (status === 408) return new RequestTimeoutError(message, error);
+    if (status === 413 || TOO_LONG.test(message)) return new InputTooLongError(message, error);
+    if (status >= 500) return new ServerError(message, status, error);
+    return new BadRequestError(message, status, error);
+  }
+
+  if (/empty response/i.test(message)) return new InvalidOutputError(message, [], error);
+  // fetch() rejects with a TypeError when the server can't be reached at all
+  if (error instanceof TypeError || /failed to fetch|network|ECONNREFUSED|ENOTFOUND/i.test(message)) {
+    return new NetworkError(message, error);
+  }
+  return new UnknownDiagnosisError(message, error);
+};
@@ -0,0 +1,263 @@
+import { Type } from "@google/genai";
+import { AnalysisContext, LanguageId, Locale } from "../types";
+import { getOutputLanguage } from "./i18n";
+import { getLanguage } from "./languages";
+
+// Shared prompt material for every diagnosis provider.
+// Providers only decide *how* to send it; the wording and schema live here.
+
+// Bump whenever the prompt wording or schema changes, so cached responses are not reused.
+export const PROMPT_VERSION = 9;
+
+const buildStaticHints = (context: AnalysisContext): string => {
+  const findings = context.staticFindings ?? [];
+  if (findings.length === 0) return '';
+
+  const lines = findings.map(step =>
+    `- 第 ${step.range?.startLine ?? '?'} 行 [${step.status}] ${step.title}：${step.desc}`
+  );
+  return `
+    本地静态检查的发现（基于规则，可能有误报，请核实后再写进 trace）：
+    ${lines.join('\n    ')}
+    `;
+};
+
+const buildExecutionEvidence = (context: AnalysisContext): string => {
+  const { execution } = context;
+  if (!execution || execution.status === 'unavailable') return '';
+
+  if (execution.status === 'ok') {
+    return `
+    真实运行结果（浏览器沙箱）：程序正常结束，没有抛出异常。
+    标准输出:
+    """
+    ${execution.stdout || '(无输出)'}
+    """
+    `;
+  }
+
+  if (execution.status === 'timeout') {
+    return `
+    真实运行结果（浏览器沙箱）：程序运行超时被强制终止，很可能存在死循环。
+    `;
+  }
+
+  return `
+    真实运行结果（浏览器沙箱）：程序在第 ${execution.errorLine ?? '?'} 行失败。
+    请以这个真实异常为准撰写 rawError，并让 status 为 'error' 的步骤对应这一行。
+    Traceback:
+    """
+    ${execution.traceback || execution.stderr}
+    """
+    `;
+};
+
+// A traceback the student pasted, already parsed and matched against the submitted code.
+const buildTracebackEvidence = (context: AnalysisContext): string => {
+  const { traceback } = context;
+  if (!traceback) return '';
+
+  const frames = traceback.frames.map((frame, i) =>
+    `- ${frame.file} 第 ${frame.line} 行${frame.functionName ? `, in ${frame.functionName}` : ''}${frame.code ? `: ${frame.code}` : ''}${i === traceback.failingFrame ? '  ← 提交代码中的出错位置' : ''}`
+  );
+  return `
+    学生提供的真实报错（已解析）：
+    异常类型: ${traceback.exceptionType}
+    异常信息: ${traceback.message || '(无)'}
+    调用栈（由外到内）:
+    ${frames.length > 0 ? frames.join('\n    ') : '(无)'}
+    ${traceback.errorLine !== undefined ? `出错的帧对应提交代码的第 ${traceback.errorLine} 行。` : '未能在提交代码中找到出错的帧，报错可能来自另一版本的代码。'}
+    请以这个真实异常为准撰写 rawError，并让 status 为 'error' 的步骤对应出错的那一帧。
+    `;
+};
+
+// Outputs saved in an imported .ipynb: what the student saw the last time they ran each cell.
+const buildNotebookEvidence = (context: AnalysisContext): string => {
+  const outputs = context.notebookOutputs ?? [];
+  if (outputs.length === 0) return '';
+
+  const quote = (text: string) => `"""\n    ${text.trimEnd().split('\n').join('\n    ')}\n    """`;
+  const sections = outputs.map(output => {
+    const parts = [`Cell [${output.cell}]${output.executionCount !== null ? ` (In [${output.executionCount}])` : ''}:`];
+    if (output.stdout) parts.push(`输出:\n    ${quote(output.stdout)}`);
+    if (output.result) parts.push(`返回值:\n    ${quote(output.result)}`);
+    if (output.error) {
+      parts.push(`抛出 ${output.error.name}: ${output.error.value}\n    Traceback:\n    ${quote(output.error.traceback)}`);
+    }
+    return parts.join('\n    ');
+  });
+  return `
+    这段代码来自 Jupyter notebook，"%% Cell [n]" 注释标出了各单元格的边界。
+    下面是 notebook 中保存的上次运行输出（单元格可能在运行后被修改或乱序执行过，请结合代码核实）：
+    ${sections.join('\n    ')}
+    在 title 或 desc 中用 "Cell [n]" 指明问题所在的单元格。
+    `;
+};
+
+const buildEvidence = (context: AnalysisContext): string =>
+  buildExecutionEvidence(context) + buildTracebackEvidence(context) + buildNotebookEvidence(context) + buildStaticHints(context);
+
+// Chunked analysis: the model only sees one part of a long script, plus an outline of the rest.
+const buildChunkContext = (context: AnalysisContext): string => {
+  const { chunk } = context;
+  if (!chunk) return '';
+  return `
+    这是一个较长脚本的第 ${chunk.index + 1}/${chunk.total} 段（原文件第 ${chunk.startLine}-${chunk.endLine} 行），各段分别诊断。
+    整个文件的结构概要（帮助理解跨段引用，不要诊断这些行）：
+    ${chunk.outline.split('\n').join('\n    ')}
+    只诊断本段代码；rawError 只概括本段的问题，本段没有问题时如实说明。
+    `;
+};
+
+// Verify-fix mode: the errors of the previous diagnosis, numbered for the `verification` array.
+const buildVerificationRequest = (context: AnalysisContext): string => {
+  const previous = context.previousErrors ?? [];
+  if (previous.length === 0) return '';
+
+  const items = previous.map((step, i) => {
+    const parts = [`[${i + 1}] ${step.title}：${step.desc}`];
+    if (step.badCode) parts.push(`    原代码: ${step.badCode.split('\n').join('\n    ')}`);
+    if (step.goodCode) parts.push(`    建议修复: ${step.goodCode.split('\n').join('\n    ')}`);
+    return parts.join('\n    ');
+  });
+  return `
+    这是学生根据上一次诊断修改后的代码。上一次诊断发现了这些错误：
+    ${items.join('\n    ')}
+    照常诊断修改后的代码，另外在 verification 数组中逐个判断上面的错误（id 为上面的编号）：
+    - resolved：错误已经修好
+    - present：错误仍然存在
+    - changed：原来的错误没了，但同一处出现了新的错误（在 note 中说明新错误）
+    note 用一句话说明判断依据。
+    `;
+};
+
+export const buildPrompt = (cleanedCode: string, context: AnalysisContext = {}): string => {
+  const { prompt } = getLanguage(context.language);
+  return `
+    请为初学者分析这段 ${prompt.languageName} 代码片段。
+
+    待分析代码:
+    """
+    ${cleanedCode}
+    """
+    ${buildChunkContext(context)}${buildEvidence(context)}${buildVerificationRequest(context)}
+
+    任务：
+    1. 追踪逻辑流，找出错误。
+    2. 如果发现错误，请生成“学习闪卡”数据。将具体的错误抽象为概念（例如：${prompt.conceptExample}）。
+    3. 返回结构化的诊断 JSON。确保所有文本为**${getOutputLanguage(context.locale)}**。
+  `;
+};
+
+export const buildSystemInstruction = (language?: LanguageId, locale?: Locale): string => {
+  const { prompt } = getLanguage(language);
+  return `
+    你是 'Code Doctor' (代码医生)，一位专为零基础初学者服务的 ${prompt.languageName} 教学专家。
+
+    核心任务：
+    1. 诊断代码逻辑。
+    2. 为每一个发现的 **逻辑错误 (Error)** 生成一张 **闪卡 (Flashcard)**。
+       - 闪卡应包含：核心概念名称、错误代码片段、正确代码片段、一句话原理解释。
+
+    输出要求：
+    - 不要使用晦涩的专业术语。多使用比喻。
+    - 'trace' 数组代表执行流。
+    - 'generatedFlashcards' 数组包含针对错误的练习题。
+    - 针对错误代码，务必提供 'errorHighlight' 字段，指出具体出错的子字符串。
+    - 在每个步骤的 'variables' 中列出这一步执行后的关键变量（最多 6 个）：name、type（如 int、list）和简短的 repr；导致错误的那个值设置 isCulprit 为 true。
+    - 每个错误步骤提供 'hints'：2-3 个由浅入深的引导性问题，让学生自己发现错误。第一个只提示该关注什么，最后一个可以指向出错的代码，但都不能说出修复方法。
+    - 特别留意 ${prompt.languageName} 初学者的常见陷阱：${prompt.focus}。
+    - 所有面向学生的文本（rawError、trace、闪卡）一律使用${getOutputLanguage(locale)}书写；代码本身保持原样。
+  `;
+};
+
+// Gemini-flavoured response schema (uppercase `Type` enum values).
+export const DIAGNOSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    rawError: {
+      type: Type.STRING,
+      description: "A one-sentence summary of the main pain point.",
+    },
+    trace: {
+      type: Type.ARRAY,
+      description: "The logic execution steps.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          status: { type: Type.STRING, enum: ["success", "warning", "error"] },
+          title: { type: Type.STRING },
+          desc: { type: Type.STRING },
+          isError: { type: Type.BOOLEAN },
+          badCode: { type: Type.STRING },
+          errorHighlight: { type: Type.STRING, description: "The exact substring in badCode to highlight as the error source" },
+          goodCode: { type: Type.STRING },
+          reason: { type: Type.STRING },
+          tip: { type: Type.STRING },
+          hints: {
+            type: Type.ARRAY,
+            description: "Error steps only: 2-3 guiding questions, from vague to specific, that never state the fix",
+            items: { type: Type.STRING },
+          },
+          variables: {
+            type: Type.ARRAY,
+            description: "Key variables after this step runs, at most 6",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                name: { type: Type.STRING },
+                type: { type: Type.STRING, description: "Type name in the analysed language, e.g. int, list, DataFrame" },
+                repr: { type: Type.STRING, description: "Short repr of the value, truncated if long" },
+                isCulprit: { type: Type.BOOLEAN, description: "True for the value that causes this step's error" },
+              },
+              required: ["name", "type", "repr"],
+            },
+          },
+        },
+        required: ["status", "title", "desc", "isError"],
+      },
+    },
+    generatedFlashcards: {
+      type: Type.ARRAY,
+      description: "List of flashcards generated from the errors found.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          concept: { type: Type.STRING, description: "The abstract concept name (e.g. Variable Naming)" },
+          frontCode: { type: Type.STRING, description: "The specific line of code with the error" },
+          errorHighlight: { type: Type.STRING, description: "The exact substring in frontCode to highlight" },
+          backCode: { type: Type.STRING, description: "The corrected line of code" },
+          explanation: { type: Type.STRING, description: "Why the fix works" },
+        },
+        required: ["concept", "frontCode", "backCode", "explanation"]
+      }
+    },
+    verification: {
+      type: Type.ARRAY,
+      description: "Only when previous errors are listed: whether each one is fixed in this code.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.INTEGER, description: "Number of the previous error" },
+          verdict: { type: Type.STRING, enum: ["resolved", "present", "changed"] },
+          note: { type: Type.STRING, description: "One sentence explaining the verdict" },
+        },
+        required: ["id", "verdict"],
+      },
+    },
+  },
+  required: ["rawError", "trace"],
+};
+
+// Converts the Gemini schema into plain JSON Schema (lowercase types),
+// which is what OpenAI-compatible servers (llama.cpp, Ollama, vLLM) expect.
+export const toJsonSchema = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema as Record<string, unknown>)) {
+    out[key] = key === 'type' && typeof value === 'string' ? value.toLowerCase() : toJsonSchema(value);
+  }
+  return out;
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { DiagnosisValidationError, validateDiagnosis } from './diagnosisValidator';
+
+const payload = {
+  trace: [{ status: 'oops', isError: true, title: 'Division by zero', desc: 'x / 0', hints: ['a', 2] }],
+};
+
+describe('validateDiagnosis', () => {
+  it('repairs what it can and records each repair', () => {
+    const { data, repairs } = validateDiagnosis(payload);
+    expect(data.trace[0]).toMatchObject({ status: 'error', isError: true, hints: ['a'] });
+    expect(data.rawError).toBe('Division by zero');
+    expect(repairs).toEqual([
+      "trace[0]: status 无效 (\"oops\")，推断为 'error'",
+      'trace[0]: hints 中有无效项，已移除',
+      'rawError 缺失，已使用 "Division by zero" 代替',
+    ]);
+  });
+
+  it('writes repairs in the requested locale', () => {
+    const { repairs } = validateDiagnosis(payload, [], 'en');
+    expect(repairs).toEqual([
+      "trace[0]: invalid status (\"oops\"); inferred as 'error'",
+      'trace[0]: invalid entries in hints; removed',
+      'rawError is missing; using "Division by zero" instead',
+    ]);
+    expect(() => validateDiagnosis({ trace: [] }, [], 'en')).toThrow(DiagnosisValidationError);
+    expect(() => validateDiagnosis({}, [], 'en')).toThrow('The trace array is missing');
+  });
+});
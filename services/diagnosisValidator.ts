@@ -0,0 +1,249 @@
+import { DiagnosisResponse, FixVerdict, FixVerification, FlashcardData, Locale, TraceStatus, TraceStep, VariableSnapshot } from "../types";
+import { DEFAULT_LOCALE, Translate, createTranslator } from "./i18n";
+
+// Runtime validation for model output.
+// The model is asked for JSON matching DIAGNOSIS_SCHEMA, but nothing guarantees it.
+// Recoverable problems are repaired (and recorded); unrecoverable payloads throw.
+// Repairs are shown in the report, so they are written in the UI locale.
+
+export class DiagnosisValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid diagnosis payload: ${issues.join('; ')}`);
+    this.name = 'DiagnosisValidationError';
+    this.issues = issues;
+  }
+}
+
+export interface ValidationResult {
+  data: DiagnosisResponse;
+  repairs: string[];
+}
+
+const TRACE_STATUSES: TraceStatus[] = ['success', 'warning', 'error'];
+const FIX_VERDICTS: FixVerdict[] = ['resolved', 'present', 'changed'];
+const OPTIONAL_STEP_FIELDS = ['badCode', 'goodCode', 'errorHighlight', 'reason', 'tip'] as const;
+const MAX_HINTS = 3;
+const MAX_VARIABLES = 12;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const validateVariables = (raw: unknown, where: string, repairs: string[], t: Translate): VariableSnapshot[] => {
+  if (!Array.isArray(raw)) {
+    repairs.push(t('repair.variablesNotArray', { where }));
+    return [];
+  }
+  const variables: VariableSnapshot[] = [];
+  raw.forEach((item, i) => {
+    if (!isObject(item) || !isNonEmptyString(item.name) || typeof item.repr !== 'string') {
+      repairs.push(t('repair.variableDropped', { where: `${where}.variables[${i}]` }));
+      return;
+    }
+    variables.push({
+      name: item.name.trim(),
+      type: typeof item.type === 'string' ? item.type : '',
+      repr: item.repr,
+      ...(item.isCulprit === true && { isCulprit: true }),
+    });
+  });
+  if (variables.length > MAX_VARIABLES) repairs.push(t('repair.variablesTrimmed', { where, max: MAX_VARIABLES }));
+  return variables.slice(0, MAX_VARIABLES);
+};
+
+// Also used on its own for steps that arrive one at a time while streaming.
+export const validateTraceStep = (raw: unknown, index: number, repairs: string[], t: Translate): TraceStep | null => {
+  const where = `trace[${index}]`;
+
+  if (!isObject(raw)) {
+    repairs.push(t('repair.notObject', { where }));
+    return null;
+  }
+  if (!isNonEmptyString(raw.title) && !isNonEmptyString(raw.desc)) {
+    repairs.push(t('repair.noTitleOrDesc', { where }));
+    return null;
+  }
+
+  let status = raw.status as TraceStatus;
+  if (!TRACE_STATUSES.includes(status)) {
+    status = raw.isError === true ? 'error' : raw.isError === false ? 'success' : 'warning';
+    repairs.push(t('repair.invalidStatus', { where, value: JSON.stringify(raw.status) ?? 'undefined', status }));
+  }
+
+  const isError = status === 'error';
+  if (raw.isError !== isError) {
+    repairs.push(t('repair.isErrorMismatch', { where, value: String(isError) }));
+  }
+
+  const step: TraceStep = {
+    status,
+    title: isNonEmptyString(raw.title) ? raw.title : '',
+    desc: isNonEmptyString(raw.desc) ? raw.desc : '',
+    isError,
+  };
+  if (!step.title) repairs.push(t('repair.missingField', { where, field: 'title' }));
+  if (!step.desc) repairs.push(t('repair.missingField', { where, field: 'desc' }));
+
+  for (const field of OPTIONAL_STEP_FIELDS) {
+    const value = raw[field];
+    if (value === undefined || value === null) continue;
+    if (isNonEmptyString(value)) {
+      step[field] = value;
+    } else {
+      repairs.push(t('repair.invalidString', { where, field }));
+    }
+  }
+
+  if (raw.hints !== undefined && raw.hints !== null) {
+    const hints = Array.isArray(raw.hints) ? raw.hints.filter(isNonEmptyString) : [];
+    if (!Array.isArray(raw.hints) || hints.length < raw.hints.length) {
+      repairs.push(t('repair.invalidHints', { where }));
+    }
+    if (hints.length > MAX_HINTS) repairs.push(t('repair.hintsTrimmed', { where, max: MAX_HINTS }));
+    if (hints.length > 0) step.hints = hints.slice(0, MAX_HINTS);
+  }
+
+  if (raw.variables !== undefined && raw.variables !== null) {
+    const variables = validateVariables(raw.variables, where, repairs, t);
+    if (variables.length > 0) {
+      step.variables = variables;
+      step.variablesSource = 'model';
+    }
+  }
+
+  if (step.errorHighlight && (!step.badCode || !step.badCode.includes(step.errorHighlight))) {
+    repairs.push(t('repair.highlightNotInBadCode', { where, text: step.errorHighlight }));
+    delete step.errorHighlight;
+  }
+
+  return step;
+};
+
+const validateFlashcard = (raw: unknown, index: number, repairs: string[], t: Translate): FlashcardData | null => {
+  const where = `generatedFlashcards[${index}]`;
+
+  if (!isObject(raw)) {
+    repairs.push(t('repair.notObject', { where }));
+    return null;
+  }
+  for (const field of ['concept', 'frontCode', 'backCode'] as const) {
+    if (!isNonEmptyString(raw[field])) {
+      repairs.push(t('repair.emptyField', { where, field }));
+      return null;
+    }
+  }
+
+  const card: FlashcardData = {
+    concept: raw.concept as string,
+    frontCode: raw.frontCode as string,
+    backCode: raw.backCode as string,
+    explanation: isNonEmptyString(raw.explanation) ? raw.explanation : '',
+  };
+  if (!card.explanation) repairs.push(t('repair.missingField', { where, field: 'explanation' }));
+
+  if (raw.errorHighlight !== undefined && raw.errorHighlight !== null) {
+    if (isNonEmptyString(raw.errorHighlight) && card.frontCode.includes(raw.errorHighlight)) {
+      card.errorHighlight = raw.errorHighlight;
+    } else {
+      repairs.push(t('repair.highlightNotInFront', { where }));
+    }
+  }
+
+  return card;
+};
+
+// Verify-fix mode: `id` is the 1-based number of an earlier error as listed in the prompt.
+const validateVerification = (raw: unknown[], previousErrors: TraceStep[], repairs: string[], t: Translate): FixVerification[] => {
+  const entries: FixVerification[] = [];
+  raw.forEach((item, index) => {
+    const where = `verification[${index}]`;
+    if (!isObject(item)) {
+      repairs.push(t('repair.notObject', { where }));
+      return;
+    }
+    const id = item.id;
+    if (typeof id !== 'number' || !Number.isInteger(id) || id < 1 || id > previousErrors.length) {
+      repairs.push(t('repair.unknownErrorId', { where, value: JSON.stringify(id) ?? 'undefined' }));
+      return;
+    }
+    if (!FIX_VERDICTS.includes(item.verdict as FixVerdict)) {
+      repairs.push(t('repair.invalidVerdict', { where, value: JSON.stringify(item.verdict) ?? 'undefined' }));
+      return;
+    }
+    const step = previousErrors[id - 1];
+    if (entries.some(entry => entry.step === step)) {
+      repairs.push(t('repair.duplicateVerdict', { where, id }));
+      return;
+    }
+    entries.push({
+      step,
+      verdict: item.verdict as FixVerdict,
+      ...(isNonEmptyString(item.note) && { note: item.note }),
+      source: 'model',
+    });
+  });
+  return entries;
+};
+
+export const validateDiagnosis = (payload: unknown, previousErrors: TraceStep[] = [], locale: Locale = DEFAULT_LOCALE): ValidationResult => {
+  const t = createTranslator(locale);
+  const repairs: string[] = [];
+
+  if (!isObject(payload)) {
+    throw new DiagnosisValidationError([t('repair.notJsonObject')]);
+  }
+  if (!Array.isArray(payload.trace)) {
+    throw new DiagnosisValidationError([t('repair.missingTrace')]);
+  }
+
+  const trace = payload.trace
+    .map((raw, i) => validateTraceStep(raw, i, repairs, t))
+    .filter((step): step is TraceStep => step !== null);
+
+  if (trace.length === 0) {
+    throw new DiagnosisValidationError([t('repair.noValidSteps'), ...repairs]);
+  }
+
+  let rawError: string;
+  if (isNonEmptyString(payload.rawError)) {
+    rawError = payload.rawError;
+  } else {
+    const firstError = trace.find(step => step.isError);
+    rawError = firstError?.title || t('repair.noSummary');
+    repairs.push(t('repair.missingRawError', { text: rawError }));
+  }
+
+  let generatedFlashcards: FlashcardData[] = [];
+  if (Array.isArray(payload.generatedFlashcards)) {
+    generatedFlashcards = payload.generatedFlashcards
+      .map((raw, i) => validateFlashcard(raw, i, repairs, t))
+      .filter((card): card is FlashcardData => card !== null);
+  } else if (payload.generatedFlashcards !== undefined && payload.generatedFlashcards !== null) {
+    repairs.push(t('repair.flashcardsNotArray'));
+  }
+
+  const data: DiagnosisResponse = { rawError, trace, generatedFlashcards };
+  if (previousErrors.length > 0) {
+    if (Array.isArray(payload.verification)) {
+      data.verification = validateVerification(payload.verification, previousErrors, repairs, t);
+    } else {
+      repairs.push(t('repair.missingVerification'));
+    }
+  }
+
+  return { data, repairs };
+};
+
+// Parses raw model text. Some local models wrap JSON in markdown fences despite instructions.
+export const parseDiagnosisJson = (text: string): unknown => {
+  const json = text.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+  try {
+    return JSON.parse(json);
+  } catch (e) {
+    throw new DiagnosisValidationError([`JSON 解析失败: ${(e as Error).message}`]);
+  }
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { TraceStep } from '../types';
+import { applyAllFixes, applyFix, getFixStates } from './fixApplier';
+
+const step = (badCode: string, goodCode: string): TraceStep => ({
+  status: 'error',
+  title: 'bug',
+  desc: '',
+  isError: true,
+  badCode,
+  goodCode,
+});
+
+const applied = (code: string, fix: TraceStep) => {
+  const result = applyFix(code, fix);
+  if (result.status !== 'ready') throw new Error(`expected a ready fix, got ${result.status}`);
+  return result.code;
+};
+
+describe('applyFix', () => {
+  it('replaces the snippet, keeping its indentation', () => {
+    const code = 'def f(x):\n    if x = 1:\n        return x';
+    expect(applyFix(code, step('if x = 1:', 'if x == 1:'))).toEqual({
+      status: 'ready',
+      code: 'def f(x):\n    if x == 1:\n        return x',
+      line: 2,
+    });
+  });
+
+  it('reports a fix applied twice as applied instead of applying it again', () => {
+    const fix = step('if x = 1:', 'if x == 1:');
+    const once = applied('if x = 1:\n    pass', fix);
+    expect(applyFix(once, fix)).toEqual({ status: 'applied' });
+  });
+
+  it('does not re-apply a fix that still contains the old snippet', () => {
+    const extend = step('return x', 'return x * 2');
+    const extended = applied('def f(x):\n    return x', extend);
+    expect(extended).toBe('def f(x):\n    return x * 2');
+    expect(applyFix(extended, extend)).toEqual({ status: 'applied' });
+
+    const insert = step('total = 0', 'total = 0\ncount = 0');
+    const inserted = applied('total = 0\nfor n in xs:\n    total += n', insert);
+    expect(inserted).toBe('total = 0\ncount = 0\nfor n in xs:\n    total += n');
+    expect(applyFix(inserted, insert)).toEqual({ status: 'applied' });
+
+    expect(getFixStates(inserted, [insert])).toEqual(['applied']);
+    expect(applyAllFixes(extended, [extend])).toEqual({ code: extended, applied: [], skipped: [{ index: 0, reason: 'applied' }] });
+  });
+
+  it('still applies a fix to another occurrence of the old snippet', () => {
+    const code = 'total = 0\ncount = 0\nprint(total)\ntotal = 0';
+    expect(applyFix(code, step('total = 0', 'total = 0\ncount = 0'))).toMatchObject({ status: 'ready', line: 4 });
+  });
+
+  it('reports a snippet that is not in the code', () => {
+    expect(applyFix('print(1)', step('print(2)', 'print(3)'))).toEqual({ status: 'notFound' });
+  });
+
+  it('never guesses between several occurrences of the snippet', () => {
+    expect(applyFix('x = y[0]\nz = y[0]', step('y[0]', 'y[1]'))).toEqual({ status: 'ambiguous' });
+  });
+});
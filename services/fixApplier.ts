@@ -0,0 +1,119 @@
+import { TraceStep } from "../types";
+import { normalizeLine } from "./sourceLocator";
+
+// Applies a step's suggested fix to the editor: finds `badCode` in the current source and
+// replaces it with `goodCode`, re-indented to where the snippet sits. Models often quote
+// snippets dedented or with different spacing, so lines are compared token by token.
+// A snippet that occurs more than once is never guessed at.
+
+export type FixState = 'ready' | 'applied' | 'notFound' | 'ambiguous';
+
+export type FixResult =
+  | { status: 'ready'; code: string; line: number } // line: 替换后代码的起始行 (1-based)
+  | { status: Exclude<FixState, 'ready'> };
+
+interface Match {
+  startLine: number; // 0-based, inclusive
+  endLine: number;
+  column?: number; // set for a match inside a line (single-line snippet only)
+}
+
+const trimBlankLines = (text: string) => text.replace(/\r\n/g, '\n').replace(/^\s*\n|\n\s*$/g, '');
+const indentOf = (line: string) => /^[ \t]*/.exec(line)![0];
+
+const dedent = (lines: string[]) => {
+  const depth = Math.min(...lines.filter(line => line.trim()).map(line => indentOf(line).length));
+  return lines.map(line => line.slice(Math.min(depth, indentOf(line).length)));
+};
+
+// Whole-line matches first; a one-line snippet may also be a fragment of a line (`df['b']`).
+const findMatches = (lines: string[], snippet: string): Match[] => {
+  const wanted = snippet.split('\n').map(normalizeLine);
+  const normalized = lines.map(normalizeLine);
+  const matches: Match[] = [];
+  for (let i = 0; i + wanted.length <= lines.length; i++) {
+    if (wanted.every((line, j) => normalized[i + j] === line)) {
+      matches.push({ startLine: i, endLine: i + wanted.length - 1 });
+    }
+  }
+  if (matches.length > 0 || wanted.length > 1) return matches;
+
+  const fragment = snippet.trim();
+  lines.forEach((line, i) => {
+    for (let column = line.indexOf(fragment); column !== -1; column = line.indexOf(fragment, column + 1)) {
+      matches.push({ startLine: i, endLine: i, column });
+    }
+  });
+  return matches;
+};
+
+// Whether `inner` lies within `outer`; `length` is the trimmed snippet length of a match inside a line.
+const contains = (outer: Match, outerLength: number, inner: Match, innerLength: number) => {
+  if (inner.startLine < outer.startLine || inner.endLine > outer.endLine) return false;
+  if (outer.column === undefined) return true;
+  return inner.column !== undefined && inner.column >= outer.column && inner.column + innerLength <= outer.column + outerLength;
+};
+
+export const isFixable = (step: TraceStep): boolean =>
+  step.isError && Boolean(step.badCode?.trim() && step.goodCode?.trim()) && normalizeLine(step.badCode!) !== normalizeLine(step.goodCode!);
+
+export const applyFix = (code: string, step: TraceStep): FixResult => {
+  const badCode = trimBlankLines(step.badCode ?? '');
+  const goodCode = trimBlankLines(step.goodCode ?? '');
+  const lines = code.split('\n');
+
+  // A fix that extends the old snippet (`return x` -> `return x * 2`) still contains it once
+  // applied; occurrences of the old snippet inside the fix don't count, or a second click
+  // would apply it again.
+  const goodMatches = goodCode.trim() && normalizeLine(goodCode) !== normalizeLine(badCode) ? findMatches(lines, goodCode) : [];
+  const matches = findMatches(lines, badCode).filter(match =>
+    !goodMatches.some(good => contains(good, goodCode.trim().length, match, badCode.trim().length))
+  );
+  if (matches.length > 1) return { status: 'ambiguous' };
+  if (matches.length === 0) {
+    // The fix is already in place (applied earlier, or typed in by hand)
+    return { status: goodMatches.length > 0 ? 'applied' : 'notFound' };
+  }
+
+  const [match] = matches;
+  const goodLines = goodCode.split('\n');
+  let replacement: string[];
+  if (match.column !== undefined && goodLines.length === 1) {
+    const line = lines[match.startLine];
+    replacement = [line.slice(0, match.column) + goodCode.trim() + line.slice(match.column + badCode.trim().length)];
+  } else {
+    const indent = indentOf(lines[match.startLine]);
+    replacement = dedent(goodLines).map(line => (line.trim() ? indent + line : ''));
+  }
+
+  const next = [...lines.slice(0, match.startLine), ...replacement, ...lines.slice(match.endLine + 1)];
+  return { status: 'ready', code: next.join('\n'), line: match.startLine + 1 };
+};
+
+// Per-step state for the "apply" buttons; undefined for steps without a usable fix.
+export const getFixStates = (code: string, trace: TraceStep[]): (FixState | undefined)[] =>
+  trace.map(step => {
+    return isFixable(step) ? applyFix(code, step).status : undefined;
+  });
+
+export interface FixBatch {
+  code: string;
+  applied: number[]; // trace 下标
+  skipped: { index: number; reason: Exclude<FixState, 'ready'> }[];
+}
+
+// Applies every fixable step in order, each against the result of the previous ones.
+export const applyAllFixes = (code: string, trace: TraceStep[]): FixBatch => {
+  const batch: FixBatch = { code, applied: [], skipped: [] };
+  trace.forEach((step, index) => {
+    if (!isFixable(step)) return;
+    const result = applyFix(batch.code, step);
+    if (result.status === 'ready') {
+      batch.code = result.code;
+      batch.applied.push(index);
+    } else {
+      batch.skipped.push({ index, reason: result.status });
+    }
+  });
+  return batch;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { DiagnosisResponse, Flashcard, TraceStep } from '../types';
+import { completeVerification, findResolvedCards } from './fixVerification';
+import { createInitialStats } from './scheduler';
+
+const error = (badCode: string, goodCode: string): TraceStep => ({
+  status: 'error',
+  title: 'bug',
+  desc: '',
+  isError: true,
+  badCode,
+  goodCode,
+});
+
+const verdicts = (code: string, previous: TraceStep[], trace: TraceStep[] = []) => {
+  const result: DiagnosisResponse = { rawError: '', trace };
+  return completeVerification(result, code, previous).verification!.map(entry => entry.verdict);
+};
+
+describe('completeVerification', () => {
+  it('judges an error present while the old snippet is still there', () => {
+    expect(verdicts('def f(x):\n    return x', [error('return x', 'return x * 2')])).toEqual(['present']);
+  });
+
+  it('judges an error resolved when the fix in its place still contains the old snippet', () => {
+    const previous = [error('return x', 'return x * 2')];
+    expect(verdicts('def f(x):\n    return x * 2', previous)).toEqual(['resolved']);
+    expect(verdicts('total = 0\ncount = 0', [error('total = 0', 'total = 0\ncount = 0')])).toEqual(['resolved']);
+  });
+
+  it('judges an error changed when the new diagnosis flags the line that replaced it', () => {
+    const previous = [error('if x = 1:', 'if x == 1:')];
+    expect(verdicts('if x == 2:\n    pass', previous, [error('if x == 1:', 'if x == 2:')])).toEqual(['changed']);
+  });
+
+  it('gives resolved errors their cards back for the scheduling bonus', () => {
+    const card: Flashcard = {
+      id: 'c1',
+      concept: 'return',
+      frontCode: 'return x',
+      backCode: 'return x * 2',
+      explanation: '',
+      stats: createInitialStats(0),
+    };
+    const result = completeVerification({ rawError: '', trace: [] }, 'return x * 2', [error('return x', 'return x * 2')]);
+    expect(findResolvedCards(result.verification!, [card])).toEqual(['c1']);
+  });
+});
@@ -0,0 +1,55 @@
+import { DiagnosisResponse, Flashcard, FixVerdict, FixVerification, TraceStep } from "../types";
+import { applyFix } from "./fixApplier";
+import { sharesCodeLine } from "./sourceLocator";
+
+// Verify-fix mode: the student edited their code after a diagnosis and asks whether the
+// errors it found are gone. The model judges each earlier error; any it leaves out is
+// inferred locally from whether the old snippet is still in the code.
+
+// The earlier errors as sent to the model. Their positions refer to the old code, so they are dropped.
+export const previousErrorSteps = (trace: TraceStep[]): TraceStep[] =>
+  trace.filter(step => step.status === 'error').map(({ range, highlightRange, chunk, ...step }) => step);
+
+const sameStep = (a: TraceStep, b: TraceStep) => a.title === b.title && a.badCode === b.badCode;
+
+const localVerdict = (step: TraceStep, code: string, trace: TraceStep[]): FixVerdict => {
+  const newErrors = trace.filter(s => s.status === 'error');
+  if (!step.badCode?.trim()) return newErrors.length > 0 ? 'present' : 'resolved';
+
+  // Same search as the "apply fix" buttons: is the old snippet still there, or the suggested
+  // fix in its place? (A fix like `return x` -> `return x * 2` still contains the old snippet.)
+  const { status } = applyFix(code, { ...step, goodCode: step.goodCode ?? step.badCode });
+  if (status === 'ready' || status === 'ambiguous') return 'present';
+  if (status === 'applied') return 'resolved';
+  // The snippet is gone; if the new diagnosis flags the replacement, the error only moved
+  return newErrors.some(s => sharesCodeLine(s.badCode, step.goodCode)) ? 'changed' : 'resolved';
+};
+
+// One entry per earlier error, in their original order.
+export const completeVerification = (
+  result: DiagnosisResponse,
+  code: string,
+  previousErrors: TraceStep[]
+): DiagnosisResponse => {
+  if (previousErrors.length === 0) return result;
+  const fromModel = result.verification ?? [];
+  const verification = previousErrors.map((step): FixVerification =>
+    fromModel.find(entry => sameStep(entry.step, step))
+      ?? { step, verdict: localVerdict(step, code, result.trace), source: 'local' }
+  );
+  return { ...result, verification };
+};
+
+export const countVerdicts = (verification: FixVerification[]): Record<FixVerdict, number> => {
+  const counts: Record<FixVerdict, number> = { resolved: 0, present: 0, changed: 0 };
+  verification.forEach(entry => counts[entry.verdict]++);
+  return counts;
+};
+
+// Cards made from an error that has since been fixed: their front shows the old bad line.
+export const findResolvedCards = (verification: FixVerification[], cards: Flashcard[]): string[] => {
+  const resolved = verification.filter(entry => entry.verdict === 'resolved');
+  return cards
+    .filter(card => resolved.some(entry => sharesCodeLine(entry.step.badCode, card.frontCode)))
+    .map(card => card.id);
+};
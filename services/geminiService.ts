@@ -1,148 +1,257 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { DiagnosisResponse } from "../types";
+import { AnalysisContext, ChunkInfo, DiagnosisResponse, PartialDiagnosis, ProviderSettings, SourceRange, TraceStep } from "../types";
+import { buildOutline, CodeChunk, planAnalysis } from "./codeChunker";
+import { buildPrompt, buildSystemInstruction, DIAGNOSIS_SCHEMA } from "./diagnosisPrompt";
+import { DiagnosisValidationError, validateDiagnosis, validateTraceStep } from "./diagnosisValidator";
+import { parsePartialJson } from "./partialJson";
+import { DEFAULT_PROVIDER_SETTINGS, getProvider } from "./providers";
+import { buildCacheKey, getCachedResponse, putCachedResponse } from "./responseCache";
+import { RateLimitError, toDiagnosisError } from "./diagnosisErrors";
+import { backoffDelay, isRetryable, withAttemptTimeout } from "./retryPolicy";
+import { CellSpan, findCellSpans } from "./notebookImport";
+import { anchorTrace } from "./sourceLocator";
+import { completeVerification } from "./fixVerification";
+import { DEFAULT_LOCALE, Translate, createTranslator } from "./i18n";
 
-// Utility to sleep for exponential backoff
-const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+export interface StreamOptions {
+  onProgress?: (partial: PartialDiagnosis) => void; // 仅在 settings.streaming 开启时调用
+  signal?: AbortSignal;
+  forceFresh?: boolean; // 跳过缓存，强制重新调用模型
+}
+
+// Utility to sleep for exponential backoff (cancellable)
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
 
 const cleanCode = (code: string): string => {
   // Remove non-breaking spaces and other invisible gremlins often found in web-copied code
   return code.replace(/\u00A0/g, ' ').trim();
 };
 
-export const analyzeCode = async (code: string): Promise<DiagnosisResponse> => {
-  console.log(`[CodeDoctor] Starting analysis. Code length: ${code.length}`);
-  
-  if (!process.env.API_KEY) {
-    console.error("[CodeDoctor] Critical Error: API Key is missing in environment variables.");
-    throw new Error("API Key is missing in environment variables.");
-  } else {
-    console.log("[CodeDoctor] API Key present.");
-  }
+// Turns the JSON received so far into something the UI can render:
+// the (possibly still growing) summary plus every trace step that has fully arrived.
+const toPartialDiagnosis = (text: string, source: string, t: Translate): PartialDiagnosis => {
+  const { value, isComplete } = parsePartialJson(text);
+  const payload = (value ?? {}) as { rawError?: unknown; trace?: unknown };
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const cleanedCode = cleanCode(code);
+  const steps = Array.isArray(payload.trace) ? payload.trace.filter(isComplete) : [];
+  const trace = steps
+    .map((raw, i) => validateTraceStep(raw, i, [], t))
+    .filter((step): step is TraceStep => step !== null);
 
-  const prompt = `
-    请为初学者分析这段 Python 代码片段。
-    
-    待分析代码:
-    """
-    ${cleanedCode}
-    """
-    
-    任务：
-    1. 追踪逻辑流，找出错误。
-    2. 如果发现错误，请生成“学习闪卡”数据。将具体的错误抽象为概念（例如：将 "df['a']" 的 KeyError 抽象为 "DataFrame 列索引机制"）。
-    3. 返回结构化的诊断 JSON。确保所有文本为**中文**。
-  `;
-
-  const systemInstruction = `
-    你是 'Code Doctor' (代码医生)，一位专为零基础初学者服务的 Python 教学专家。
-    
-    核心任务：
-    1. 诊断代码逻辑。
-    2. 为每一个发现的 **逻辑错误 (Error)** 生成一张 **闪卡 (Flashcard)**。
-       - 闪卡应包含：核心概念名称、错误代码片段、正确代码片段、一句话原理解释。
-    
-    输出要求：
-    - 不要使用晦涩的专业术语。多使用比喻。
-    - 'trace' 数组代表执行流。
-    - 'generatedFlashcards' 数组包含针对错误的练习题。
-    - 针对错误代码，务必提供 'errorHighlight' 字段，指出具体出错的子字符串。
-  `;
-
-  // Define Schema
-  const schema = {
-    type: Type.OBJECT,
-    properties: {
-      rawError: {
-        type: Type.STRING,
-        description: "A one-sentence summary of the main pain point.",
-      },
-      trace: {
-        type: Type.ARRAY,
-        description: "The logic execution steps.",
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            status: { type: Type.STRING, enum: ["success", "warning", "error"] },
-            title: { type: Type.STRING },
-            desc: { type: Type.STRING },
-            isError: { type: Type.BOOLEAN },
-            badCode: { type: Type.STRING },
-            errorHighlight: { type: Type.STRING, description: "The exact substring in badCode to highlight as the error source" },
-            goodCode: { type: Type.STRING },
-            reason: { type: Type.STRING },
-            tip: { type: Type.STRING },
-          },
-          required: ["status", "title", "desc", "isError"],
-        },
-      },
-      generatedFlashcards: {
-        type: Type.ARRAY,
-        description: "List of flashcards generated from the errors found.",
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            concept: { type: Type.STRING, description: "The abstract concept name (e.g. Variable Naming)" },
-            frontCode: { type: Type.STRING, description: "The specific line of code with the error" },
-            errorHighlight: { type: Type.STRING, description: "The exact substring in frontCode to highlight" },
-            backCode: { type: Type.STRING, description: "The corrected line of code" },
-            explanation: { type: Type.STRING, description: "Why the fix works" },
-          },
-          required: ["concept", "frontCode", "backCode", "explanation"]
-        }
-      }
-    },
-    required: ["rawError", "trace"],
+  return {
+    rawError: typeof payload.rawError === 'string' ? payload.rawError : undefined,
+    trace: anchorTrace(trace, source),
   };
+};
+
+// One request for the whole of `code` (a full script or a single chunk).
+const analyzeSingle = async (
+  code: string,
+  settings: ProviderSettings,
+  context: AnalysisContext,
+  { onProgress, signal, forceFresh = false }: StreamOptions
+): Promise<DiagnosisResponse> => {
+  const provider = getProvider(settings.providerId);
+  console.log(`[CodeDoctor] Using provider: ${provider.label}`);
+  provider.ensureConfigured(settings);
+
+  const cleanedCode = cleanCode(code);
+  // Anchor against the untrimmed source so line numbers match the editor.
+  const anchorSource = code.replace(/\u00A0/g, ' ');
+  const request = {
+    code: cleanedCode,
+    prompt: buildPrompt(cleanedCode, context),
+    systemInstruction: buildSystemInstruction(context.language, context.locale),
+    schema: DIAGNOSIS_SCHEMA,
+  };
+  const useStream = settings.streaming && onProgress !== undefined;
+  const t = createTranslator(context.locale ?? DEFAULT_LOCALE);
+
+  // Cache failures (e.g. IndexedDB unavailable in private mode) never block a diagnosis
+  const cacheKey = settings.useResponseCache
+    ? await buildCacheKey(cleanedCode, settings, context).catch(() => null)
+    : null;
+  if (cacheKey && !forceFresh) {
+    const cached = await getCachedResponse(cacheKey).catch(error => {
+      console.warn("[CodeDoctor] Response cache unavailable:", error);
+      return null;
+    });
+    if (cached) {
+      console.log(`[CodeDoctor] Cache hit (${cacheKey.slice(0, 12)}), skipping the model.`);
+      // Ranges are re-derived: the cached code may differ in whitespace from this submission
+      const trace = cached.response.trace.map(({ range, highlightRange, ...step }) => step);
+      return { ...cached.response, trace: anchorTrace(trace, anchorSource), cachedAt: cached.createdAt };
+    }
+  }
 
+  const { attemptTimeoutMs, retryOn } = settings.analysis;
+  const maxAttempts = Math.max(1, settings.analysis.maxAttempts);
   let attempts = 0;
-  const maxAttempts = 5;
 
   while (attempts < maxAttempts) {
     try {
-      console.log(`[CodeDoctor] Attempt ${attempts + 1}/${maxAttempts} - Sending request to Gemini...`);
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: prompt,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: schema,
-          systemInstruction: systemInstruction,
-          temperature: 0.4, 
-        },
-      });
-
-      if (!response.text) {
-        console.warn("[CodeDoctor] Received empty response from API.");
-        throw new Error("Empty response from AI");
-      }
+      console.log(`[CodeDoctor] Attempt ${attempts + 1}/${maxAttempts}${useStream ? ' (streaming)' : ''}...`);
+      const payload = await withAttemptTimeout(attemptSignal => useStream
+        ? provider.diagnoseStream(request, settings, {
+            signal: attemptSignal,
+            onText: (text) => onProgress!(toPartialDiagnosis(text, anchorSource, t)),
+          })
+        : provider.diagnose(request, settings, attemptSignal),
+        attemptTimeoutMs, signal);
 
-      console.log("[CodeDoctor] Response received. Length:", response.text.length);
-      // Helpful for debugging bad JSON structure
-      if (process.env.NODE_ENV === 'development') {
-         console.debug("[CodeDoctor] Raw text snippet:", response.text.substring(0, 500));
+      const { data, repairs } = validateDiagnosis(payload, context.previousErrors, context.locale);
+      console.log("[CodeDoctor] JSON validated successfully. Trace steps:", data.trace.length);
+      if (repairs.length > 0) {
+        console.warn(`[CodeDoctor] Repaired ${repairs.length} issue(s) in model output:`, repairs);
       }
 
-      const parsedData = JSON.parse(response.text) as DiagnosisResponse;
-      console.log("[CodeDoctor] JSON parsed successfully. Trace steps:", parsedData.trace?.length);
-      return parsedData;
+      const trace = anchorTrace(data.trace, anchorSource);
+      const result = repairs.length > 0 ? { ...data, trace, repairs } : { ...data, trace };
+      if (cacheKey) {
+        putCachedResponse(cacheKey, result).catch(error => console.warn("[CodeDoctor] Failed to cache response:", error));
+      }
+      return result;
 
     } catch (error) {
+      if (signal?.aborted) {
+        console.log("[CodeDoctor] Analysis cancelled by user.");
+        throw error;
+      }
+
       attempts++;
-      console.error(`[CodeDoctor] Analysis failed on attempt ${attempts}:`, error);
-      
+      const failure = toDiagnosisError(error);
+      if (error instanceof DiagnosisValidationError) {
+        console.error(`[CodeDoctor] Model output rejected on attempt ${attempts}:`, error.issues);
+      } else {
+        console.error(`[CodeDoctor] Analysis failed on attempt ${attempts} (${failure.code}):`, error);
+      }
+
+      // Surface the underlying (typed) error rather than a generic "failed after retries"
+      failure.attempts = attempts;
+      if (!isRetryable(failure.retryClass, retryOn)) {
+        console.error(`[CodeDoctor] Not retrying: ${failure.code} errors are not retryable.`);
+        throw failure;
+      }
       if (attempts >= maxAttempts) {
         console.error("[CodeDoctor] Exhausted all retry attempts.");
-        throw new Error("Failed to analyze code after multiple attempts. Please try again.");
+        throw failure;
       }
+
+      // Discard whatever the failed attempt streamed in
+      if (useStream) onProgress!({ trace: [] });
       
-      const backoff = 1000 * Math.pow(2, attempts - 1);
+      // Honour the provider's Retry-After when it asks for a longer pause than our backoff
+      const retryAfterMs = failure instanceof RateLimitError ? (failure.retryAfterSeconds ?? 0) * 1000 : 0;
+      const backoff = Math.max(backoffDelay(attempts), retryAfterMs);
       console.log(`[CodeDoctor] Waiting ${backoff}ms before retry...`);
-      await sleep(backoff);
+      await sleep(backoff, signal);
     }
   }
 
   throw new Error("Unexpected error in retry loop.");
-};
\ No newline at end of file
+};
+
+// --- Chunked analysis of long scripts ---
+
+const shiftRange = (range: SourceRange | undefined, offset: number): SourceRange | undefined =>
+  range && { ...range, startLine: range.startLine + offset, endLine: range.endLine + offset };
+
+// Chunk results are anchored against the chunk's own text; move them into whole-file coordinates.
+const placeStep = (step: TraceStep, chunk: ChunkInfo): TraceStep => {
+  const offset = chunk.startLine - 1;
+  const info: ChunkInfo = { index: chunk.index, total: chunk.total, startLine: chunk.startLine, endLine: chunk.endLine };
+  return { ...step, range: shiftRange(step.range, offset), highlightRange: shiftRange(step.highlightRange, offset), chunk: info };
+};
+
+const inChunk = (line: number | undefined, chunk: ChunkInfo) =>
+  line !== undefined && line >= chunk.startLine && line <= chunk.endLine;
+
+// Evidence is about the whole file; each chunk only gets the part that concerns it.
+const contextForChunk = (context: AnalysisContext, chunk: CodeChunk, outline: string, cells: CellSpan[]): AnalysisContext => {
+  const { execution, traceback, staticFindings, notebookOutputs } = context;
+  const overlapsChunk = (cell: number) =>
+    cells.some(span => span.cell === cell && span.startLine <= chunk.endLine && span.endLine >= chunk.startLine);
+  return {
+    ...context,
+    chunk: { index: chunk.index, total: chunk.total, startLine: chunk.startLine, endLine: chunk.endLine, outline },
+    // A crash belongs to the chunk holding the failing line; a clean run or a timeout concerns every chunk
+    execution: execution?.status === 'error' && !inChunk(execution.errorLine, chunk) ? undefined : execution,
+    // Same for a pasted traceback; one that couldn't be located stays with every chunk
+    traceback: traceback?.errorLine !== undefined && !inChunk(traceback.errorLine, chunk) ? undefined : traceback,
+    staticFindings: staticFindings?.filter(step => inChunk(step.range?.startLine, chunk)),
+    notebookOutputs: notebookOutputs?.filter(output => overlapsChunk(output.cell)),
+    // Earlier errors can't be split by chunk; they are checked locally against the merged result
+    previousErrors: undefined,
+  };
+};
+
+const mergeChunkResults = (chunks: ChunkInfo[], results: DiagnosisResponse[]): DiagnosisResponse => {
+  const withProblems = results
+    .map((result, i) => ({ result, i }))
+    .filter(({ result }) => result.trace.some(step => step.status !== 'success'));
+  const rawError = withProblems.length === 0
+    ? results[0].rawError
+    : withProblems.length === 1
+      ? withProblems[0].result.rawError
+      : withProblems.map(({ result, i }) => `[${i + 1}/${chunks.length}] ${result.rawError}`).join(' ');
+
+  const repairs = results.flatMap((result, i) => (result.repairs ?? []).map(repair => `[${i + 1}/${chunks.length}] ${repair}`));
+  const merged: DiagnosisResponse = {
+    rawError,
+    trace: results.flatMap((result, i) => result.trace.map(step => placeStep(step, chunks[i]))),
+    generatedFlashcards: results.flatMap(result => result.generatedFlashcards ?? []),
+  };
+  if (repairs.length > 0) merged.repairs = repairs;
+  // Only a fully cached run counts as a cache hit
+  if (results.every(result => result.cachedAt !== undefined)) {
+    merged.cachedAt = Math.min(...results.map(result => result.cachedAt!));
+  }
+  return merged;
+};
+
+// Entry point. Scripts over settings.analysis.maxPromptTokens are split at top-level
+// definitions (when chunking is enabled), analysed one chunk at a time and merged.
+export const analyzeCode = async (
+  code: string,
+  settings: ProviderSettings = DEFAULT_PROVIDER_SETTINGS,
+  context: AnalysisContext = {},
+  options: StreamOptions = {}
+): Promise<DiagnosisResponse> => {
+  const plan = planAnalysis(code, context.language, settings.analysis);
+  console.log(`[CodeDoctor] Starting analysis. Code length: ${code.length} chars, ~${plan.tokens} prompt tokens (limit ${settings.analysis.maxPromptTokens}).`);
+  if (plan.nearLimit && !plan.chunks) {
+    console.warn("[CodeDoctor] Prompt is close to or over the configured token limit.");
+  }
+  const previousErrors = context.previousErrors ?? [];
+  if (!plan.chunks) {
+    return completeVerification(await analyzeSingle(code, settings, context, options), code, previousErrors);
+  }
+
+  const { chunks } = plan;
+  const { onProgress } = options;
+  console.log(`[CodeDoctor] Chunked analysis: ${chunks.length} chunks (${chunks.map(c => `L${c.startLine}-${c.endLine}`).join(', ')}).`);
+  const outline = buildOutline(code, context.language);
+  const cells = findCellSpans(code);
+  const results: DiagnosisResponse[] = [];
+
+  for (const chunk of chunks) {
+    const doneTrace = results.length > 0 ? mergeChunkResults(chunks, results).trace : [];
+    const result = await analyzeSingle(chunk.code, settings, contextForChunk(context, chunk, outline, cells), {
+      ...options,
+      // Earlier chunks stay on screen while the current one streams in
+      onProgress: onProgress && (partial => onProgress({
+        rawError: partial.rawError,
+        trace: [...doneTrace, ...partial.trace.map(step => placeStep(step, chunk))],
+      })),
+    });
+    results.push(result);
+  }
+
+  return completeVerification(mergeChunkResults(chunks, results), code, previousErrors);
+};
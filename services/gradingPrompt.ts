@@ -0,0 +1,46 @@
+import { Type } from "@google/genai";
+import { Flashcard, Locale } from "../types";
+import { getLanguage } from "./languages";
+import { getOutputLanguage } from "./i18n";
+
+// Prompt material for model-graded flashcard answers (see answerCheckers.ts).
+// Only consulted when the local checkers can't decide.
+
+export const buildGradingPrompt = (card: Flashcard, answer: string, locale?: Locale): string => `
+    学生正在复习一张 ${getLanguage(card.language).prompt.languageName} 错题闪卡，请判断学生的修复是否正确。
+
+    知识点：${card.concept}
+    原理：${card.explanation}
+
+    错误代码:
+    """
+    ${card.frontCode}
+    """
+
+    参考答案:
+    """
+    ${card.backCode}
+    """
+
+    学生答案:
+    """
+    ${answer}
+    """
+
+    只要学生答案修复了同一个错误、且没有引入新的错误，即使写法与参考答案不同也算正确。
+    用一两句${getOutputLanguage(locale)}说明判断理由。
+  `;
+
+export const GRADING_SYSTEM_INSTRUCTION = `
+    你是 'Code Doctor' (代码医生) 的阅卷老师，负责给初学者的代码修复打分。
+    判断要宽容写法差异、严格对待逻辑错误。
+  `;
+
+export const GRADING_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    acceptable: { type: Type.BOOLEAN, description: "Whether the student's fix is correct." },
+    explanation: { type: Type.STRING, description: "One or two sentences explaining the verdict." },
+  },
+  required: ["acceptable", "explanation"],
+};
@@ -0,0 +1,26 @@
+import { TraceStep } from "../types";
+
+// Socratic hint mode: an error step starts with only its title and description, and the
+// student asks for one more level at a time: each guiding question, then where the error
+// sits in the code, then the fix itself.
+
+export type HintStage = 'question' | 'highlight' | 'answer';
+
+export const hintStages = (step: TraceStep): HintStage[] => [
+  ...(step.hints ?? []).map((): HintStage => 'question'),
+  ...(step.badCode && step.errorHighlight ? ['highlight' as const] : []),
+  'answer',
+];
+
+// What a step shows once `level` stages have been revealed.
+export const disclosure = (step: TraceStep, level: number) => {
+  const stages = hintStages(step);
+  const revealed = stages.slice(0, level);
+  return {
+    questions: (step.hints ?? []).slice(0, level),
+    showHighlight: revealed.includes('highlight'),
+    showAnswer: revealed.includes('answer'),
+    next: stages[level] as HintStage | undefined,
+    total: stages.length,
+  };
+};
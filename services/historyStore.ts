@@ -0,0 +1,31 @@
+import { DiagnosisRun } from "../types";
+import { STORES, withStore } from "./indexedDb";
+
+// Persisted diagnosis history (IndexedDB), newest first.
+
+const MAX_RUNS = 200;
+
+export const listRuns = async (): Promise<DiagnosisRun[]> => {
+  const runs = await withStore<DiagnosisRun[]>(STORES.history, 'readonly', store => store.getAll());
+  return runs.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveRun = async (run: DiagnosisRun): Promise<void> => {
+  await withStore(STORES.history, 'readwrite', store => store.put(run));
+  console.log(`[CodeDoctor] Saved run ${run.id} to history.`);
+
+  // Trim the oldest runs so the store doesn't grow without bound
+  const runs = await listRuns();
+  for (const stale of runs.slice(MAX_RUNS)) {
+    await deleteRun(stale.id);
+  }
+};
+
+export const deleteRun = async (id: string): Promise<void> => {
+  await withStore(STORES.history, 'readwrite', store => store.delete(id));
+};
+
+export const clearHistory = async (): Promise<void> => {
+  await withStore(STORES.history, 'readwrite', store => store.clear());
+  console.log("[CodeDoctor] History cleared.");
+};
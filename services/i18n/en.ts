@@ -0,0 +1,409 @@
+import { MessageKey } from "./zh-CN";
+
+export const en: Record<MessageKey, string> = {
+  // Header
+  'app.subtitle': 'AI Logic Tracing System // v1.1.0',
+  'header.flashcards': 'Flashcards',
+  'header.deckTransfer': 'Import / export deck',
+  'header.history': 'History',
+  'header.settings': 'Settings',
+  'header.engine': 'Engine: {name}',
+  'header.locale': 'Interface language',
+
+  // Input column
+  'input.title': 'INPUT TERMINAL',
+  'input.sandbox': 'Run it in the browser sandbox first (Pyodide)',
+  'input.analyzing': 'Diagnosing...',
+  'input.cancel': 'Cancel diagnosis',
+  'input.start': 'Start scan',
+  'input.tokens': '≈ {tokens} / {limit} tokens',
+  'input.nearLimit': 'Close to the per-request limit; the diagnosis may be slow or cut off.',
+  'input.overLimit': 'Over the per-request limit; expect timeouts or truncated output. Turn on chunked analysis in Settings.',
+  'input.overLimitChunked': 'Over the per-request limit; it will be analysed in {n} parts split at top-level def/class.',
+  'editor.undo': 'Undo (Ctrl+Z)',
+  'editor.redo': 'Redo (Ctrl+Shift+Z)',
+  'editor.clear': 'Clear',
+
+  // File import
+  'import.open': 'Import file',
+  'import.openTitle': 'Import a .py / .js / .sql source file or a Jupyter notebook (.ipynb). You can also drop it onto the editor.',
+  'import.drop': 'Drop to import',
+  'import.failed': 'Could not import {name}: {reason}',
+  'import.error.unsupportedFile': 'Unsupported file type. Choose a .py, .js, .sql or .ipynb file.',
+  'import.error.invalidJson': 'The file is not valid JSON and may be damaged.',
+  'import.error.notNotebook': 'No notebook cells were found in the file.',
+  'import.error.unsupportedVersion': 'Only nbformat 4 or newer is supported. Re-save the notebook with a recent Jupyter.',
+  'import.error.noCodeCells': 'The notebook has no non-empty code cells.',
+  'import.evidence': '{name} · saved outputs of {n} cell(s) are used as evidence',
+  'import.dropEvidence': 'Ignore saved outputs',
+  'notebook.title': 'Choose the cells to diagnose',
+  'notebook.subtitle': '{name} · {language} · {n} code cell(s)',
+  'notebook.selectAll': 'Select all',
+  'notebook.selectNone': 'Select none',
+  'notebook.selectFailing': 'Up to the first failing cell',
+  'notebook.neverRun': 'Not run',
+  'notebook.output': 'Output',
+  'notebook.emptyCell': '(empty cell)',
+  'notebook.moreLines': '… {n} more line(s)',
+  'notebook.skipped': '{n} Markdown / raw cell(s) will not be imported.',
+  'notebook.replace': 'Importing replaces the code currently in the editor.',
+  'notebook.cancel': 'Cancel',
+  'notebook.confirm': 'Import {n} cell(s)',
+
+  // Traceback pane
+  'traceback.title': 'Error output (traceback)',
+  'traceback.optional': 'optional',
+  'traceback.placeholder': 'Paste the full error you saw when running it (stderr / traceback). The diagnosis will be based on it...',
+  'traceback.clear': 'Clear',
+  'traceback.frames': '{n} frame(s)',
+  'traceback.line': 'Fails at line {line}',
+  'traceback.lineNotFound': 'The failing line was not found in the current code',
+  'traceback.unparsed': 'Not recognised as a Python traceback; it will not be used.',
+
+  // Report column
+  'report.title': 'DIAGNOSTIC REPORT',
+  'report.reset': 'Reset view',
+  'report.waiting': 'Waiting for input...',
+  'report.deckStats': 'Deck stats',
+  'report.due': 'Due today',
+  'report.mastered': 'Mastered',
+  'report.clearMastered': 'Clear mastered cards',
+  'report.summary': 'Summary',
+  'report.view.steps': 'Steps',
+  'report.view.variables': 'Variables',
+  'report.view.flow': 'Control flow',
+  'report.receivingStep': 'Receiving step {n}...',
+  'report.tracing': 'Tracing the logic flow',
+  'report.tracingDetail': 'Parsing AST... locating faults... generating flashcards...',
+  'report.localOnly': 'Local pre-check · model not called',
+  'report.cachedAt': 'Cached at {time}',
+  'report.cacheHit': 'Cache hit',
+  'report.reanalyse': 'Re-analyse',
+  'report.newCards': '+{n} cards',
+  'report.repairs': 'Automatically repaired {n} problem(s) in the model output',
+  'report.sandbox': 'Sandbox output',
+  'report.complete': 'ANALYSIS_COMPLETE_TS_{time}',
+  'portal.title': 'Back to the exam-prep portal',
+  'portal.label': 'Portal',
+
+  // Model output repairs (listed under the report summary)
+  'repair.notJsonObject': 'The response is not a JSON object',
+  'repair.missingTrace': 'The trace array is missing',
+  'repair.noValidSteps': 'The trace has no valid steps',
+  'repair.noSummary': 'No diagnosis summary was given.',
+  'repair.missingRawError': 'rawError is missing; using "{text}" instead',
+  'repair.flashcardsNotArray': 'generatedFlashcards is not an array; ignored',
+  'repair.missingVerification': 'verification is missing; earlier errors will be compared locally',
+  'repair.notObject': '{where}: not an object; dropped',
+  'repair.noTitleOrDesc': '{where}: missing title and desc; dropped',
+  'repair.invalidStatus': "{where}: invalid status ({value}); inferred as '{status}'",
+  'repair.isErrorMismatch': '{where}: isError disagrees with status; set to {value} from status',
+  'repair.missingField': '{where}: {field} is missing; left empty',
+  'repair.emptyField': '{where}: {field} is empty; dropped',
+  'repair.invalidString': '{where}: {field} is not a valid string; removed',
+  'repair.invalidHints': '{where}: invalid entries in hints; removed',
+  'repair.hintsTrimmed': '{where}: more than {max} hints; kept the first {max}',
+  'repair.variablesNotArray': '{where}: variables is not an array; ignored',
+  'repair.variableDropped': '{where}: name or repr is missing; dropped',
+  'repair.variablesTrimmed': '{where}: more than {max} variables; kept the first {max}',
+  'repair.highlightNotInBadCode': '{where}: errorHighlight "{text}" is not in badCode; removed',
+  'repair.highlightNotInFront': '{where}: errorHighlight is not in frontCode; removed',
+  'repair.unknownErrorId': '{where}: id {value} matches no earlier error; dropped',
+  'repair.invalidVerdict': '{where}: invalid verdict ({value}); dropped',
+  'repair.duplicateVerdict': '{where}: earlier error {id} appears twice; dropped',
+
+  // Sandbox
+  'sandbox.loadTimeout': 'Loading the Python runtime timed out.',
+  'sandbox.timeout': 'Execution ran longer than {ms}ms and was stopped (possibly an infinite loop).',
+  'sandbox.unavailable': 'The Python runtime is unavailable: {message}',
+  'sandbox.crashed': 'The sandbox crashed: {message}',
+
+  // Diagnosis failures (one title/explanation per DiagnosisErrorCode)
+  'failure.notConfigured.title': 'The diagnosis engine is not configured',
+  'failure.notConfigured.explanation': 'An API key, endpoint URL or model name is missing, so nothing was sent. Fill it in under Settings and try again.',
+  'failure.auth.title': 'Authentication failed',
+  'failure.auth.explanation': 'The service rejected the API key. Check that it is correct, has not expired and has the right permissions.',
+  'failure.rateLimit.title': 'Too many requests',
+  'failure.rateLimit.explanation': 'The model service is rate limiting you or your quota is used up. Wait a moment before trying again.',
+  'failure.network.title': 'Could not reach the model service',
+  'failure.network.explanation': 'The request never reached the server. Check your connection, or make sure the local server (e.g. Ollama) is running and the endpoint URL is right.',
+  'failure.timeout.title': 'Request timed out',
+  'failure.timeout.explanation': 'The model did not finish answering in time. With long code or a slow local model, shorten the code or raise the per-attempt timeout in Settings.',
+  'failure.server.title': 'The model service is unavailable',
+  'failure.server.explanation': 'The server reported an internal error, which is usually temporary. Try again later or switch engines in Settings.',
+  'failure.invalidOutput.title': 'Could not read the model output',
+  'failure.invalidOutput.explanation': 'The answer was not a valid diagnosis JSON. Retrying usually works; if it keeps happening, try a stronger model.',
+  'failure.safety.title': 'Blocked by a safety filter',
+  'failure.safety.explanation': "The service's safety policy blocked this request or its answer. Retrying will not change the result.",
+  'failure.inputTooLong.title': 'The code is too long',
+  'failure.inputTooLong.explanation': 'The submission is longer than the model can handle.',
+  'failure.badRequest.title': 'Request rejected',
+  'failure.badRequest.explanation': 'The service considered the request malformed (HTTP 4xx). A misspelt model name is the usual cause; check Settings.',
+  'failure.unknown.title': 'System failure',
+  'failure.unknown.explanation': 'An unrecognised error occurred.',
+  'failure.action.openSettings': 'Open settings',
+  'failure.action.retry': 'Retry',
+  'failure.action.waitAndRetry': 'Retry in {n}s',
+  'failure.action.shortenCode': 'Shorten the code: keep only the failing function or snippet and submit again.',
+  'failure.action.editCode': 'Edit anything in the code or comments that might trip the filter, then submit again.',
+  'failure.attempts': 'Tried automatically {n} time(s)',
+  'failure.details': 'Technical details',
+
+  // Trace map
+  'trace.status.success': 'Pass',
+  'trace.status.warning': 'Warning',
+  'trace.status.error': 'Error',
+  'trace.status.unknown': 'Unknown',
+  'trace.step': 'Step {n}: {status}',
+  'trace.locate': 'Show in editor',
+  'trace.static': 'Local pre-check',
+  'trace.runtime': 'Confirmed by interpreter · line {line}',
+  'trace.tracebackMatch': 'Confirmed by traceback · line {line}',
+  'trace.pathology': 'Pathology',
+  'trace.fix': 'Fix',
+  'trace.reason': 'Reason:',
+  'trace.chunkHeader': 'Part {n}/{total} · L{start}-L{end}',
+  'trace.cell': 'Cell [{n}]',
+
+  // Applying fixes
+  'fix.apply': 'Apply this fix',
+  'fix.applied': 'Applied',
+  'fix.notFound': 'This snippet was not found in the current code. Edit it by hand.',
+  'fix.ambiguous': 'This snippet occurs more than once in the current code, so it is unclear which one to change. Edit it by hand.',
+  'fix.applyAll': 'Apply all fixes ({n})',
+  'fix.previewTitle': 'Preview all fixes',
+  'fix.previewSummary': '{applied} fix(es) will be applied, {skipped} skipped.',
+  'fix.skippedItem': '"{title}": {reason}',
+  'fix.skippedApplied': 'already applied',
+  'fix.undoHint': 'You can undo this in the editor with Ctrl+Z.',
+  'fix.cancel': 'Cancel',
+  'fix.confirm': 'Apply to editor',
+
+  // Verify fix
+  'verify.button': 'Verify fix',
+  'verify.buttonHint': 'Check the edited code against the errors of the last diagnosis',
+  'verify.title': 'Fix verification',
+  'verify.summary': 'Fixed {resolved} · still present {present} · became a new error {changed}',
+  'verify.newTrace': 'Diagnosis of the edited code',
+  'verify.verdict.resolved': 'Fixed',
+  'verify.verdict.present': 'Still present',
+  'verify.verdict.changed': 'New error',
+  'verify.local': 'local guess',
+  'verify.localHint': 'The model gave no verdict; this one is inferred from whether the old snippet is still in the code.',
+
+  // Hint mode
+  'hint.next': 'Give me a hint ({n}/{total})',
+  'hint.locate': 'Show where the error is',
+  'hint.showAnswer': 'Show the fix',
+
+  // Variable timeline
+  'variables.empty': 'No variable states were recorded for this diagnosis.',
+  'variables.name': 'Variable',
+  'variables.step': 'Step {n}',
+  'variables.legend.new': 'New',
+  'variables.legend.changed': 'Value changed',
+  'variables.legend.culprit': 'Value behind the error',
+  'variables.legend.sandbox': 'From a real sandbox run',
+
+  // Control-flow graph
+  'cfg.module': 'Module entry',
+  'cfg.exit': 'End',
+  'cfg.edge.true': 'yes',
+  'cfg.edge.false': 'no',
+  'cfg.edge.exception': 'raises',
+  'cfg.legend.path': 'Path taken',
+  'cfg.legend.error': 'Failing node',
+  'cfg.legend.branch': 'Branch',
+  'cfg.legend.loop': 'Loop',
+  'cfg.legend.exception': 'Exception jump',
+  'cfg.noPath': 'The diagnosis steps are not anchored to code lines, so no path can be drawn.',
+
+  // Static pre-check
+  'static.fullWidth.title': 'Full-width punctuation “{char}”',
+  'static.fullWidth.desc': 'Python only accepts ASCII symbols: “{char}” should be “{ascii}”.',
+  'static.fullWidth.reason': 'Brackets, colons and quotes typed with a Chinese input method look alike, but Python treats them as entirely different characters.',
+  'static.fullWidth.tip': 'Switch to an English input method while writing code.',
+  'static.fullWidth.concept': 'Full-width vs ASCII punctuation',
+  'static.strayChar.title': 'Unrecognised character “{char}”',
+  'static.strayChar.desc': '“{char}” is not valid Python syntax.',
+  'static.strayChar.reason': 'This character is not any Python operator or punctuation, so the interpreter stops with a SyntaxError.',
+  'static.strayChar.tip': 'Check whether a stray symbol was copied in from a web page or document.',
+  'static.unclosedString.title': 'String is missing its closing quote',
+  'static.unclosedString.desc': 'The string on this line starts with {quote} but no matching {quote} closes it before the end of the line.',
+  'static.unclosedString.reason': 'A string must be wrapped in a pair of quotes, otherwise Python cannot tell where the text ends.',
+  'static.unclosedString.tip': 'Close the string with the same kind of quote it was opened with.',
+  'static.unclosedString.concept': 'Matching string quotes',
+  'static.unclosedTriple.title': 'Triple-quoted string never ends',
+  'static.unclosedTriple.desc': 'The {quote} string that starts on line {line} runs to the end of the file.',
+  'static.unclosedTriple.reason': 'A triple-quoted string may span lines, but it must end with the same three quotes, or all the code after it becomes text.',
+  'static.unclosedTriple.tip': 'Add {quote} where the text should end.',
+  'static.extraCloser.title': 'Extra closing bracket “{char}”',
+  'static.extraCloser.desc': 'This “{char}” has no opening bracket before it.',
+  'static.extraCloser.reason': 'Every closing bracket must pair with an earlier opening bracket.',
+  'static.extraCloser.tip': 'Count the brackets from left to right to see whether a closing one is extra or an opening one is missing.',
+  'static.mismatchedBracket.title': 'Mismatched brackets',
+  'static.mismatchedBracket.desc': 'The “{open}” opened on line {line} is closed by “{close}”.',
+  'static.mismatchedBracket.reason': 'Parentheses, square brackets and braces must each close with their own kind.',
+  'static.mismatchedBracket.tip': 'Change “{close}” to “{expected}”.',
+  'static.unclosedBracket.title': 'Bracket “{char}” is never closed',
+  'static.unclosedBracket.desc': 'The “{open}” on line {line} never gets a matching “{close}”.',
+  'static.unclosedBracket.reason': 'With a bracket left open, Python reads every following line as part of it, so the reported error often appears further down.',
+  'static.unclosedBracket.tip': 'Starting from this opening bracket, add the closing bracket where the expression should end.',
+  'static.concept.brackets': 'Matching brackets',
+  'static.concept.indentation': 'Python indentation rules',
+  'static.tip.spaces': 'Indent with 4 spaces throughout.',
+  'static.tabSpaceMix.title': 'Indentation mixes tabs and spaces',
+  'static.tabSpaceMix.desc': 'This line is indented with both tabs and spaces (TabError).',
+  'static.tabSpaceMix.reason': 'Tabs and spaces display at different widths in different editors, so Python cannot tell which level you meant.',
+  'static.missingIndent.title': 'Block is missing its indentation',
+  'static.missingIndent.desc': 'Line {line} ends with a colon, so the code after it must be indented one level deeper (IndentationError).',
+  'static.missingIndent.reason': 'Python uses indentation to show which code belongs to the if / for / def above, so a colon must be followed by an indented block.',
+  'static.missingIndent.tip': 'Indent the line after the colon by 4 more spaces.',
+  'static.unexpectedIndent.title': 'Unexpected indent',
+  'static.unexpectedIndent.desc': 'This line is indented deeper than the previous one, but the previous line does not open a block with a colon (IndentationError).',
+  'static.unexpectedIndent.reason': 'Indentation may only increase after a statement ending in a colon, such as if, for or def.',
+  'static.unexpectedIndent.tip': 'Align this line with the previous one.',
+  'static.unalignedIndent.title': 'Indentation does not line up',
+  'static.unalignedIndent.desc': 'The indentation of this line matches none of the enclosing blocks (IndentationError).',
+  'static.unalignedIndent.reason': 'When a block ends, the indentation must return to a level used earlier.',
+  'static.unalignedIndent.tip': 'Indent by multiples of 4 spaces and check for a missing or extra space.',
+  'static.emptyBlock.title': 'Empty block',
+  'static.emptyBlock.desc': 'This line ends with a colon but no indented code follows it.',
+  'static.emptyBlock.reason': 'Python does not allow empty blocks; use pass as a placeholder until you write the body.',
+  'static.emptyBlock.tip': 'Write pass on the next line, indented.',
+  'static.mixedFile.title': 'The file mixes tab and space indentation',
+  'static.mixedFile.desc': 'Some lines are indented with tabs, others with spaces.',
+  'static.mixedFile.reason': 'Mixing them easily makes lines that look aligned sit at different levels.',
+  'static.print.title': 'print is missing its parentheses',
+  'static.print.desc': 'This is Python 2 syntax; in Python 3 print is a function.',
+  'static.print.reason': 'Calling a function needs parentheses around what you pass to it.',
+  'static.print.tip': 'Write print(...).',
+  'static.print.concept': 'The print function',
+  'static.missingColon.title': '{keyword} statement is missing its colon',
+  'static.missingColon.desc': 'A {keyword} statement must end with a colon :.',
+  'static.missingColon.reason': 'The colon tells Python that the indented code below belongs to this statement.',
+  'static.missingColon.tip': 'Add : at the end of this line.',
+  'static.missingColon.concept': 'Colons on compound statements',
+  'static.assignInCondition.title': 'Assignment = used in a condition',
+  'static.assignInCondition.desc': '{keyword} needs a comparison here; “equals” is written ==.',
+  'static.assignInCondition.reason': '= stores the right-hand value in the left-hand variable; == compares the two sides.',
+  'static.assignInCondition.tip': 'Use == to test equality and = to assign.',
+  'static.assignInCondition.concept': 'Comparison == vs assignment =',
+  'static.undefinedName.title': 'Variable {name} may be undefined',
+  'static.undefinedName.desc': 'Nothing in the code assigns, imports or defines {name}, so running it will likely raise a NameError.',
+  'static.undefinedName.reason': 'A variable must be assigned (or imported, or defined) before use; also check for typos or different capitalisation.',
+  'static.undefinedName.tip': 'Check the spelling of {name}, or assign it before using it.',
+  'static.usedBeforeAssign.title': 'Variable {name} is used before it is assigned',
+  'static.usedBeforeAssign.desc': '{name} is only assigned on line {defined}, but line {line} already uses it.',
+  'static.usedBeforeAssign.reason': 'Python runs from top to bottom, so a variable must exist by the time it is used.',
+  'static.usedBeforeAssign.tip': 'Move the assignment on line {defined} above the use.',
+  'static.rawError': 'The local pre-check found {count} syntax problem(s), so the program cannot run yet: line {line}, {title}.',
+
+  // Settings
+  'settings.title': 'Settings',
+  'settings.provider': 'Diagnosis engine (Provider)',
+  'provider.gemini': 'Google Gemini',
+  'provider.gemini.hint': 'Calls the hosted Gemini model with the GEMINI_API_KEY environment variable.',
+  'provider.openaiCompatible': 'OpenAI-compatible API (local models)',
+  'provider.openaiCompatible.hint': 'Connects to any OpenAI-compatible endpoint, such as a local Ollama or llama.cpp server.',
+  'provider.fixture': 'Offline samples (Fixture)',
+  'provider.fixture.hint': 'Fully offline, deterministic sample data for development and demos.',
+  'settings.baseUrl': 'Endpoint (Base URL)',
+  'settings.modelName': 'Model name',
+  'settings.apiKey': 'API key (optional)',
+  'settings.apiKeyPlaceholder': 'Leave empty for local servers',
+  'settings.streaming': 'Stream output (show diagnosis steps as they are generated)',
+  'settings.skipModel': 'Answer locally when the pre-check finds syntax errors (no model call)',
+  'settings.hintMode': 'Hint mode (errors start with guiding questions; the fix is shown on request)',
+  'settings.cache': 'Cache diagnoses (reuse results for the same code for 7 days)',
+  'settings.clearCache': 'Clear cache',
+  'settings.cacheCleared': 'Cleared',
+  'settings.save': 'Save settings',
+  'settings.request': 'Request parameters (model / temperature / retries / timeout)',
+  'settings.modelOverride': 'Model override (optional)',
+  'settings.temperature': 'Temperature',
+  'settings.maxAttempts': 'Max attempts',
+  'settings.attemptTimeout': 'Attempt timeout (s)',
+  'settings.attemptTimeout.hint': '0 means no limit',
+  'settings.retryOn': 'Retry on these errors',
+  'settings.retryOn.note': 'Errors such as an invalid API key or a malformed request (HTTP 4xx) never succeed on retry, so they always fail immediately.',
+  'settings.maxPromptTokens': 'Token limit',
+  'settings.chunkLongScripts': 'Over the limit, analyse in chunks by top-level def/class',
+  'retry.network': 'Network failure',
+  'retry.timeout': 'Request timeout',
+  'retry.rateLimit': 'Rate limited (HTTP 429)',
+  'retry.server': 'Server error (HTTP 5xx)',
+  'retry.invalidOutput': 'Invalid model output',
+
+  // History
+  'history.title': 'History ({n})',
+  'history.empty': 'No diagnoses yet',
+  'history.errors': '{n} error(s)',
+  'history.compare': 'Compare',
+  'history.compareTitle': 'Compare with the previous version of this code',
+  'history.delete': 'Delete entry',
+  'history.clear': 'Clear history',
+
+  // Run comparison
+  'runDiff.title': 'Version comparison',
+  'runDiff.fixed': 'Fixed ({n})',
+  'runDiff.remaining': 'Still present ({n})',
+  'runDiff.introduced': 'New ({n})',
+  'runDiff.none': 'None',
+  'runDiff.codeChanges': 'Code changes',
+
+  // Deck import / export
+  'deck.title': 'Import / export deck',
+  'deck.export': 'Export ({n} cards)',
+  'deck.format.json': 'JSON deck',
+  'deck.format.json.hint': 'Full backup, including review progress',
+  'deck.format.csv': 'CSV sheet',
+  'deck.format.csv.hint': 'Editable in Excel',
+  'deck.format.anki': 'Anki text',
+  'deck.format.anki.hint': 'In Anki: File → Import',
+  'deck.import': 'Import (JSON / CSV)',
+  'deck.chooseFile': 'Choose a deck file',
+  'deck.fresh': '{n} new card(s)',
+  'deck.duplicates': '{n} duplicate(s)',
+  'deck.duplicatePolicy': 'Duplicates (same concept and code)',
+  'deck.skip': 'Skip, keep existing cards',
+  'deck.replace': 'Replace with imported cards',
+  'deck.progressPolicy': 'Review progress',
+  'deck.keepProgress': 'Keep progress from the file',
+  'deck.resetProgress': 'Reset as new cards',
+  'deck.confirm': 'Import',
+  'deck.error.invalidJson': 'The file is not valid JSON.',
+  'deck.error.noCards': 'No flashcard array was found in the JSON.',
+  'deck.error.unsupportedVersion': 'Deck version {version} is newer than the supported version {supported}. Please update the app.',
+  'deck.error.emptyCsv': 'The CSV file is empty.',
+  'deck.error.missingColumn': 'The CSV is missing the column: {column}',
+  'deck.error.unreadable': 'Could not read this file.',
+
+  // Flashcard review
+  'review.doneTitle': 'Challenge complete!',
+  'review.doneBody': 'Every card due today has been reviewed. They will come back once they are due again.',
+  'review.back': 'Back to console',
+  'review.interval': 'Interval {interval}d · EF {ef}',
+  'review.inputLabel': 'Fix the code (type the correct logic)',
+  'review.placeholder': 'Type your fixed code here... (Ctrl+Enter to submit)',
+  'review.correct': 'Fixed!',
+  'review.incorrect': 'Not fixed yet',
+  'review.verdict': 'Judged by: {strategy}',
+  'review.reference': 'Reference answer:',
+  'review.diff': 'Your answer → reference answer (line diff):',
+  'review.next': 'Next',
+  'review.inconclusive': 'The automatic checks could not decide. Compare with the reference answer and grade yourself.',
+  'review.checkFailed': 'Unable to check the answer. Compare with the reference answer and grade yourself.',
+  'review.selfGrade': 'Compare with the reference answer and grade yourself',
+  'review.gotIt': 'I got it right',
+  'review.missedIt': 'I got it wrong',
+  'review.checking': 'Checking...',
+  'review.check': 'Check my fix',
+  'review.reveal': 'Show answer and self-grade',
+  'strategy.token': 'token match',
+  'strategy.ast': 'AST equivalence',
+  'strategy.llm': 'model grading',
+  'strategy.self': 'self-graded',
+  'check.astEqual': 'Same syntax tree as the reference answer.',
+  'check.syntaxError': 'The answer has a syntax error: {message}',
+};
@@ -0,0 +1,36 @@
+import { Locale } from "../../types";
+import { en } from "./en";
+import { MessageKey, zhCN } from "./zh-CN";
+
+export type { MessageKey } from "./zh-CN";
+
+interface LocaleDefinition {
+  label: string; // shown in the locale switcher, in its own language
+  outputLanguage: string; // how the prompt names the language the model must write in
+  messages: Partial<Record<MessageKey, string>>;
+}
+
+export const LOCALES: Record<Locale, LocaleDefinition> = {
+  'zh-CN': { label: '简体中文', outputLanguage: '简体中文', messages: zhCN },
+  en: { label: 'English', outputLanguage: '英文 (English)', messages: en },
+};
+
+export const DEFAULT_LOCALE: Locale = 'zh-CN';
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, value);
+
+export const getOutputLanguage = (locale: Locale | undefined): string =>
+  (LOCALES[locale ?? DEFAULT_LOCALE] ?? LOCALES[DEFAULT_LOCALE]).outputLanguage;
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+// Looks the key up in the locale's catalog (falling back to zh-CN) and fills `{name}` placeholders.
+export const createTranslator = (locale: Locale): Translate => {
+  const messages = LOCALES[locale]?.messages ?? zhCN;
+  return (key, params) => {
+    const template = messages[key] ?? zhCN[key];
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+  };
+};
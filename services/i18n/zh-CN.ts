@@ -0,0 +1,411 @@
+// Source catalog: every message key the UI uses, in Simplified Chinese.
+// Other locales may omit keys; missing ones fall back to these strings.
+export const zhCN = {
+  // Header
+  'app.subtitle': 'AI 逻辑溯源系统 // v1.1.0',
+  'header.flashcards': '错题闪卡',
+  'header.deckTransfer': '卡组导入 / 导出',
+  'header.history': '历史',
+  'header.settings': '系统设置',
+  'header.engine': '引擎: {name}',
+  'header.locale': '界面语言',
+
+  // Input column
+  'input.title': '输入终端 (INPUT TERMINAL)',
+  'input.sandbox': '先在浏览器沙箱中真实运行 (Pyodide)',
+  'input.analyzing': '正在诊断逻辑...',
+  'input.cancel': '取消诊断',
+  'input.start': '启动扫描',
+  'input.tokens': '≈ {tokens} / {limit} tokens',
+  'input.nearLimit': '接近单次请求上限，诊断可能变慢或被截断。',
+  'input.overLimit': '超出单次请求上限，可能超时或输出被截断。可在设置中开启分段分析。',
+  'input.overLimitChunked': '超出单次请求上限，将在顶层 def/class 处分成 {n} 段分析。',
+  'editor.undo': '撤销 (Ctrl+Z)',
+  'editor.redo': '重做 (Ctrl+Shift+Z)',
+  'editor.clear': '清空',
+
+  // File import
+  'import.open': '导入文件',
+  'import.openTitle': '导入 .py / .js / .sql 源文件或 Jupyter notebook (.ipynb)，也可以直接拖进编辑器',
+  'import.drop': '松开鼠标导入文件',
+  'import.failed': '无法导入 {name}: {reason}',
+  'import.error.unsupportedFile': '不支持的文件类型，请选择 .py、.js、.sql 或 .ipynb 文件。',
+  'import.error.invalidJson': '文件不是有效的 JSON，可能已损坏。',
+  'import.error.notNotebook': '文件中没有找到 notebook 单元格。',
+  'import.error.unsupportedVersion': '只支持 nbformat 4 及以上版本的 notebook，请用新版 Jupyter 重新保存。',
+  'import.error.noCodeCells': 'notebook 中没有非空的代码单元格。',
+  'import.evidence': '{name} · {n} 个单元格的保存输出将作为诊断证据',
+  'import.dropEvidence': '不使用保存的输出',
+  'notebook.title': '选择要诊断的单元格',
+  'notebook.subtitle': '{name} · {language} · {n} 个代码单元格',
+  'notebook.selectAll': '全选',
+  'notebook.selectNone': '全不选',
+  'notebook.selectFailing': '只选到第一个报错的单元格',
+  'notebook.neverRun': '未运行',
+  'notebook.output': '有输出',
+  'notebook.emptyCell': '(空单元格)',
+  'notebook.moreLines': '… 还有 {n} 行',
+  'notebook.skipped': '{n} 个 Markdown / Raw 单元格不会导入。',
+  'notebook.replace': '导入会替换编辑器中的当前代码。',
+  'notebook.cancel': '取消',
+  'notebook.confirm': '导入 {n} 个单元格',
+
+  // Traceback pane
+  'traceback.title': '报错信息 (Traceback)',
+  'traceback.optional': '可选',
+  'traceback.placeholder': '粘贴运行时看到的完整报错 (stderr / traceback)，诊断会以它为准...',
+  'traceback.clear': '清空',
+  'traceback.frames': '{n} 帧',
+  'traceback.line': '出错位置: 第 {line} 行',
+  'traceback.lineNotFound': '未能在当前代码中找到出错的那一行',
+  'traceback.unparsed': '无法识别为 Python traceback，诊断时不会使用。',
+
+  // Report column
+  'report.title': '诊断报告 (DIAGNOSTIC REPORT)',
+  'report.reset': '重置视图',
+  'report.waiting': '等待输入流...',
+  'report.deckStats': '错题集数据',
+  'report.due': '今日到期',
+  'report.mastered': '已掌握',
+  'report.clearMastered': '清理已掌握卡片',
+  'report.summary': '诊断摘要',
+  'report.view.steps': '步骤',
+  'report.view.variables': '变量表',
+  'report.view.flow': '控制流',
+  'report.receivingStep': '正在接收第 {n} 步...',
+  'report.tracing': '正在追踪逻辑流',
+  'report.tracingDetail': '解析 AST... 提取病灶... 生成闪卡...',
+  'report.localOnly': '本地预检 · 未调用模型',
+  'report.cachedAt': '缓存于 {time}',
+  'report.cacheHit': '缓存命中',
+  'report.reanalyse': '重新分析',
+  'report.newCards': '+{n} 闪卡',
+  'report.repairs': '已自动修复 {n} 处模型输出问题',
+  'report.sandbox': '沙箱运行结果',
+  'report.complete': '分析完成_时间戳_{time}',
+  'portal.title': '返回备考系统门户',
+  'portal.label': '返回门户',
+
+  // Model output repairs (listed under the report summary)
+  'repair.notJsonObject': '响应不是 JSON 对象',
+  'repair.missingTrace': '缺少 trace 数组',
+  'repair.noValidSteps': 'trace 中没有任何有效步骤',
+  'repair.noSummary': '未提供诊断摘要。',
+  'repair.missingRawError': 'rawError 缺失，已使用 "{text}" 代替',
+  'repair.flashcardsNotArray': 'generatedFlashcards 不是数组，已忽略',
+  'repair.missingVerification': 'verification 缺失，将在本地比对原错误',
+  'repair.notObject': '{where}: 不是对象，已丢弃',
+  'repair.noTitleOrDesc': '{where}: 缺少 title 和 desc，已丢弃',
+  'repair.invalidStatus': "{where}: status 无效 ({value})，推断为 '{status}'",
+  'repair.isErrorMismatch': '{where}: isError 与 status 不一致，已根据 status 设为 {value}',
+  'repair.missingField': '{where}: 缺少 {field}，已置空',
+  'repair.emptyField': '{where}: {field} 为空，已丢弃',
+  'repair.invalidString': '{where}: {field} 不是有效字符串，已移除',
+  'repair.invalidHints': '{where}: hints 中有无效项，已移除',
+  'repair.hintsTrimmed': '{where}: hints 超过 {max} 条，只保留前 {max} 条',
+  'repair.variablesNotArray': '{where}: variables 不是数组，已忽略',
+  'repair.variableDropped': '{where}: 缺少 name 或 repr，已丢弃',
+  'repair.variablesTrimmed': '{where}: variables 超过 {max} 个，只保留前 {max} 个',
+  'repair.highlightNotInBadCode': '{where}: errorHighlight "{text}" 不在 badCode 中，已移除',
+  'repair.highlightNotInFront': '{where}: errorHighlight 不在 frontCode 中，已移除',
+  'repair.unknownErrorId': '{where}: id {value} 不对应任何原错误，已丢弃',
+  'repair.invalidVerdict': '{where}: verdict 无效 ({value})，已丢弃',
+  'repair.duplicateVerdict': '{where}: 原错误 {id} 重复出现，已丢弃',
+
+  // Sandbox
+  'sandbox.loadTimeout': 'Python 运行环境加载超时。',
+  'sandbox.timeout': '执行超过 {ms}ms，已强制终止（可能存在死循环）。',
+  'sandbox.unavailable': 'Python 运行环境不可用: {message}',
+  'sandbox.crashed': '沙箱崩溃: {message}',
+
+  // Diagnosis failures (one title/explanation per DiagnosisErrorCode)
+  'failure.notConfigured.title': '诊断引擎尚未配置',
+  'failure.notConfigured.explanation': '缺少 API Key、接口地址或模型名称，请求还没有发出。请在设置中补全后再试。',
+  'failure.auth.title': '身份验证失败',
+  'failure.auth.explanation': '服务拒绝了当前的 API Key。请检查 Key 是否正确、是否已过期或缺少权限。',
+  'failure.rateLimit.title': '请求过于频繁',
+  'failure.rateLimit.explanation': '模型服务触发了限流或配额已用完。请稍等片刻再试。',
+  'failure.network.title': '无法连接到模型服务',
+  'failure.network.explanation': '请求没有到达服务器。请检查网络连接，或确认本地服务 (如 Ollama) 已启动且接口地址正确。',
+  'failure.timeout.title': '请求超时',
+  'failure.timeout.explanation': '模型在规定时间内没有给出完整回答。代码较长或本地模型较慢时，可以缩短代码或在设置中调大单次超时。',
+  'failure.server.title': '模型服务暂时不可用',
+  'failure.server.explanation': '服务端返回了内部错误，通常是临时故障。可以稍后重试，或在设置中切换诊断引擎。',
+  'failure.invalidOutput.title': '模型输出无法解析',
+  'failure.invalidOutput.explanation': '模型的回答不是有效的诊断 JSON。重试往往就能成功；若反复出现，可以换一个更强的模型。',
+  'failure.safety.title': '回答被安全过滤拦截',
+  'failure.safety.explanation': '模型服务的安全策略拦截了这次请求或回答，重试不会改变结果。',
+  'failure.inputTooLong.title': '代码太长',
+  'failure.inputTooLong.explanation': '提交的内容超出了模型能处理的长度。',
+  'failure.badRequest.title': '请求被拒绝',
+  'failure.badRequest.explanation': '服务认为请求格式有误 (HTTP 4xx)，常见原因是模型名称写错。请检查设置。',
+  'failure.unknown.title': '系统故障',
+  'failure.unknown.explanation': '发生了未能识别的错误。',
+  'failure.action.openSettings': '打开设置',
+  'failure.action.retry': '重试',
+  'failure.action.waitAndRetry': '{n} 秒后重试',
+  'failure.action.shortenCode': '缩短代码：只保留出错的函数或片段后再提交。',
+  'failure.action.editCode': '修改代码或注释中可能触发过滤的内容后再提交。',
+  'failure.attempts': '已自动尝试 {n} 次',
+  'failure.details': '技术细节',
+
+  // Trace map
+  'trace.status.success': '通过',
+  'trace.status.warning': '警告',
+  'trace.status.error': '错误',
+  'trace.status.unknown': '未知',
+  'trace.step': '步骤 {n}: {status}',
+  'trace.locate': '定位到编辑器',
+  'trace.static': '本地预检',
+  'trace.runtime': '解释器确认 · 第 {line} 行',
+  'trace.tracebackMatch': '报错确认 · 第 {line} 行',
+  'trace.pathology': '病灶代码 (Pathology)',
+  'trace.fix': '修复方案 (Fix)',
+  'trace.reason': '原因:',
+  'trace.chunkHeader': '第 {n}/{total} 段 · L{start}-L{end}',
+  'trace.cell': 'Cell [{n}]',
+
+  // Applying fixes
+  'fix.apply': '应用此修复',
+  'fix.applied': '已应用',
+  'fix.notFound': '在当前代码中找不到这段病灶代码，请手动修改。',
+  'fix.ambiguous': '这段病灶代码在当前代码中出现了不止一次，无法确定该改哪一处，请手动修改。',
+  'fix.applyAll': '应用全部修复 ({n})',
+  'fix.previewTitle': '预览全部修复',
+  'fix.previewSummary': '将应用 {applied} 处修复，跳过 {skipped} 处。',
+  'fix.skippedItem': '「{title}」: {reason}',
+  'fix.skippedApplied': '已经应用过',
+  'fix.undoHint': '应用后可以在编辑器中用 Ctrl+Z 撤销。',
+  'fix.cancel': '取消',
+  'fix.confirm': '应用到编辑器',
+
+  // Verify fix
+  'verify.button': '验证修复',
+  'verify.buttonHint': '对照上一次诊断发现的错误，检查修改后的代码',
+  'verify.title': '修复验证',
+  'verify.summary': '已修复 {resolved} · 仍存在 {present} · 变成新错误 {changed}',
+  'verify.newTrace': '修改后代码的诊断',
+  'verify.verdict.resolved': '已修复',
+  'verify.verdict.present': '仍然存在',
+  'verify.verdict.changed': '变成了新错误',
+  'verify.local': '本地推断',
+  'verify.localHint': '模型没有给出结论，这是根据原病灶代码是否还在代码中推断的。',
+
+  // Hint mode
+  'hint.next': '给我一个提示 ({n}/{total})',
+  'hint.locate': '指出出错的位置',
+  'hint.showAnswer': '显示修复方法',
+
+  // Variable timeline
+  'variables.empty': '这次诊断没有记录变量状态。',
+  'variables.name': '变量',
+  'variables.step': '步骤 {n}',
+  'variables.legend.new': '新出现',
+  'variables.legend.changed': '值发生变化',
+  'variables.legend.culprit': '导致错误的值',
+  'variables.legend.sandbox': '来自沙箱真实运行',
+
+  // Control-flow graph
+  'cfg.module': '模块入口',
+  'cfg.exit': '结束',
+  'cfg.edge.true': '是',
+  'cfg.edge.false': '否',
+  'cfg.edge.exception': '异常',
+  'cfg.legend.path': '实际执行路径',
+  'cfg.legend.error': '出错节点',
+  'cfg.legend.branch': '分支',
+  'cfg.legend.loop': '循环',
+  'cfg.legend.exception': '异常跳转',
+  'cfg.noPath': '诊断步骤没有定位到代码行，无法叠加执行路径。',
+
+  // Static pre-check
+  'static.fullWidth.title': '使用了中文标点「{char}」',
+  'static.fullWidth.desc': 'Python 只认英文半角符号，「{char}」应该写成「{ascii}」。',
+  'static.fullWidth.reason': '中文输入法下输入的括号、冒号、引号看起来很像，但对 Python 来说是完全不同的字符。',
+  'static.fullWidth.tip': '写代码时切换到英文输入法。',
+  'static.fullWidth.concept': '中英文标点的区别',
+  'static.strayChar.title': '无法识别的字符「{char}」',
+  'static.strayChar.desc': '「{char}」不是合法的 Python 语法符号。',
+  'static.strayChar.reason': '这个字符不属于任何 Python 运算符或标点，解释器会直接报 SyntaxError。',
+  'static.strayChar.tip': '检查是否从网页或文档里复制进了多余的符号。',
+  'static.unclosedString.title': '字符串缺少结束引号',
+  'static.unclosedString.desc': '这一行的字符串以 {quote} 开头，但到行尾都没有对应的 {quote} 结束。',
+  'static.unclosedString.reason': '字符串必须用成对的引号包起来，否则 Python 不知道文字在哪里结束。',
+  'static.unclosedString.tip': '开头用单引号就用单引号结尾，开头用双引号就用双引号结尾。',
+  'static.unclosedString.concept': '字符串的引号配对',
+  'static.unclosedTriple.title': '三引号字符串没有结束',
+  'static.unclosedTriple.desc': '从第 {line} 行开始的 {quote} 字符串一直延续到文件末尾。',
+  'static.unclosedTriple.reason': '三引号字符串可以跨多行，但必须用同样的三个引号结束，否则后面的代码全被当成了文字。',
+  'static.unclosedTriple.tip': '在文字结尾处补上 {quote}。',
+  'static.extraCloser.title': '多余的右括号「{char}」',
+  'static.extraCloser.desc': '这里的「{char}」前面没有对应的左括号。',
+  'static.extraCloser.reason': '每个右括号都必须和前面的一个左括号配对。',
+  'static.extraCloser.tip': '从左往右数一数括号，看看是多写了右括号还是漏了左括号。',
+  'static.mismatchedBracket.title': '括号类型不匹配',
+  'static.mismatchedBracket.desc': '第 {line} 行打开的「{open}」被「{close}」关闭了。',
+  'static.mismatchedBracket.reason': '圆括号、方括号、花括号必须各自成对，不能混用。',
+  'static.mismatchedBracket.tip': '把「{close}」改成「{expected}」。',
+  'static.unclosedBracket.title': '括号「{char}」没有闭合',
+  'static.unclosedBracket.desc': '第 {line} 行的「{open}」一直没有对应的「{close}」。',
+  'static.unclosedBracket.reason': '括号没闭合时，Python 会把后面所有行都当成括号里的内容，所以报错位置常常出现在更后面的行。',
+  'static.unclosedBracket.tip': '从这个左括号开始，找到它应该结束的地方补上右括号。',
+  'static.concept.brackets': '括号配对',
+  'static.concept.indentation': 'Python 缩进规则',
+  'static.tip.spaces': '统一使用 4 个空格缩进。',
+  'static.tabSpaceMix.title': '缩进混用了 Tab 和空格',
+  'static.tabSpaceMix.desc': '这一行的缩进里同时有 Tab 和空格 (TabError)。',
+  'static.tabSpaceMix.reason': 'Tab 和空格在不同编辑器里显示的宽度不同，Python 无法确定你想要的层级。',
+  'static.missingIndent.title': '缺少缩进的代码块',
+  'static.missingIndent.desc': '第 {line} 行以冒号结尾，后面的代码需要比它多缩进一层 (IndentationError)。',
+  'static.missingIndent.reason': 'Python 用缩进表示“这些代码属于上面的 if / for / def”，冒号之后必须跟一个缩进的代码块。',
+  'static.missingIndent.tip': '在冒号下一行多缩进 4 个空格。',
+  'static.unexpectedIndent.title': '意外的缩进',
+  'static.unexpectedIndent.desc': '这一行比上一行缩进得更深，但上一行并没有以冒号开始一个代码块 (IndentationError)。',
+  'static.unexpectedIndent.reason': '只有 if、for、def 等以冒号结尾的语句后面才能增加缩进。',
+  'static.unexpectedIndent.tip': '让这一行和上一行对齐。',
+  'static.unalignedIndent.title': '缩进没有对齐',
+  'static.unalignedIndent.desc': '这一行的缩进和外层任何一级代码块都对不上 (IndentationError)。',
+  'static.unalignedIndent.reason': '退出代码块时，缩进必须回到之前出现过的某一层。',
+  'static.unalignedIndent.tip': '用 4 的倍数个空格缩进，并检查是否少打或多打了空格。',
+  'static.emptyBlock.title': '代码块是空的',
+  'static.emptyBlock.desc': '这一行以冒号结尾，但后面没有任何缩进的代码。',
+  'static.emptyBlock.reason': 'Python 不允许空的代码块；暂时不想写内容时可以用 pass 占位。',
+  'static.emptyBlock.tip': '在下一行缩进后写上 pass。',
+  'static.mixedFile.title': '文件里混用了 Tab 和空格缩进',
+  'static.mixedFile.desc': '有些行用 Tab 缩进，有些行用空格缩进。',
+  'static.mixedFile.reason': '混用很容易造成肉眼看起来对齐、实际层级却不同的问题。',
+  'static.print.title': 'print 缺少括号',
+  'static.print.desc': '这是 Python 2 的写法；在 Python 3 中 print 是一个函数。',
+  'static.print.reason': '调用函数必须加括号，把要打印的内容放进括号里。',
+  'static.print.tip': '写成 print(...)。',
+  'static.print.concept': 'print 函数',
+  'static.missingColon.title': '{keyword} 语句缺少冒号',
+  'static.missingColon.desc': '{keyword} 语句的末尾必须有一个英文冒号 :。',
+  'static.missingColon.reason': '冒号告诉 Python “下面缩进的代码属于这条语句”。',
+  'static.missingColon.tip': '在这一行末尾补上 :。',
+  'static.missingColon.concept': '复合语句的冒号',
+  'static.assignInCondition.title': '条件判断里用了赋值号 =',
+  'static.assignInCondition.desc': '{keyword} 后面需要一个比较，“等于”要写成 ==。',
+  'static.assignInCondition.reason': '= 是把右边的值存进左边的变量，== 才是比较两边是否相等。',
+  'static.assignInCondition.tip': '判断相等用 ==，赋值用 =。',
+  'static.assignInCondition.concept': '比较运算符 == 与赋值 =',
+  'static.undefinedName.title': '变量 {name} 可能没有定义',
+  'static.undefinedName.desc': '代码中找不到给 {name} 赋值、导入或定义它的地方，运行时很可能抛出 NameError。',
+  'static.undefinedName.reason': '变量必须先赋值（或导入、定义）才能使用；也要检查是不是拼写错误或大小写不一致。',
+  'static.undefinedName.tip': '确认 {name} 的拼写，或者在使用前先给它赋值。',
+  'static.usedBeforeAssign.title': '变量 {name} 在赋值之前被使用',
+  'static.usedBeforeAssign.desc': '{name} 在第 {defined} 行才被赋值，但第 {line} 行就用到了它。',
+  'static.usedBeforeAssign.reason': 'Python 从上往下逐行执行，用到变量的时候它必须已经存在。',
+  'static.usedBeforeAssign.tip': '把第 {defined} 行的赋值移到使用之前。',
+  'static.rawError': '本地预检发现 {count} 处语法问题，程序还无法运行：第 {line} 行{title}。',
+
+  // Settings
+  'settings.title': '系统设置',
+  'settings.provider': '诊断引擎 (Provider)',
+  'provider.gemini': 'Google Gemini',
+  'provider.gemini.hint': '使用环境变量 GEMINI_API_KEY 调用云端 Gemini 模型。',
+  'provider.openaiCompatible': 'OpenAI 兼容接口 (本地模型)',
+  'provider.openaiCompatible.hint': '连接任意 OpenAI 兼容接口，例如本地 Ollama 或 llama.cpp 服务。',
+  'provider.fixture': '离线样例 (Fixture)',
+  'provider.fixture.hint': '完全离线的确定性样例数据，适合开发与演示。',
+  'settings.baseUrl': '接口地址 (Base URL)',
+  'settings.modelName': '模型名称',
+  'settings.apiKey': 'API Key (可选)',
+  'settings.apiKeyPlaceholder': '本地服务可留空',
+  'settings.streaming': '流式输出（边生成边显示诊断步骤）',
+  'settings.skipModel': '本地预检发现语法错误时直接出结果（不调用模型）',
+  'settings.hintMode': '提示模式（错误先给引导问题，按需才显示修复代码）',
+  'settings.cache': '缓存诊断结果（相同代码 7 天内直接复用）',
+  'settings.clearCache': '清空缓存',
+  'settings.cacheCleared': '已清空',
+  'settings.save': '保存设置',
+  'settings.request': '请求参数 (模型 / 温度 / 重试 / 超时)',
+  'settings.modelOverride': '模型覆盖 (可选)',
+  'settings.temperature': '温度',
+  'settings.maxAttempts': '最多尝试',
+  'settings.attemptTimeout': '单次超时 (秒)',
+  'settings.attemptTimeout.hint': '0 表示不限制',
+  'settings.retryOn': '出现以下错误时重试',
+  'settings.retryOn.note': 'API Key 无效、请求格式错误 (HTTP 4xx) 等错误重试也无济于事，总是立即失败。',
+  'settings.maxPromptTokens': 'Token 上限',
+  'settings.chunkLongScripts': '超过上限时按顶层 def/class 分段分析',
+  'retry.network': '网络故障',
+  'retry.timeout': '请求超时',
+  'retry.rateLimit': '限流 (HTTP 429)',
+  'retry.server': '服务端错误 (HTTP 5xx)',
+  'retry.invalidOutput': '模型输出无效',
+
+  // History
+  'history.title': '诊断历史 ({n})',
+  'history.empty': '暂无诊断记录',
+  'history.errors': '{n} 个错误',
+  'history.compare': '对比',
+  'history.compareTitle': '与该代码的上一个版本对比',
+  'history.delete': '删除记录',
+  'history.clear': '清空历史',
+
+  // Run comparison
+  'runDiff.title': '版本对比',
+  'runDiff.fixed': '已修复 ({n})',
+  'runDiff.remaining': '仍存在 ({n})',
+  'runDiff.introduced': '新出现 ({n})',
+  'runDiff.none': '无',
+  'runDiff.codeChanges': '代码变更',
+
+  // Deck import / export
+  'deck.title': '卡组导入 / 导出',
+  'deck.export': '导出 ({n} 张)',
+  'deck.format.json': 'JSON 卡组',
+  'deck.format.json.hint': '完整备份，包含复习进度',
+  'deck.format.csv': 'CSV 表格',
+  'deck.format.csv.hint': '可用 Excel 编辑',
+  'deck.format.anki': 'Anki 文本',
+  'deck.format.anki.hint': '在 Anki 中 “文件 → 导入”',
+  'deck.import': '导入 (JSON / CSV)',
+  'deck.chooseFile': '选择卡组文件',
+  'deck.fresh': '新卡片 {n} 张',
+  'deck.duplicates': '重复 {n} 张',
+  'deck.duplicatePolicy': '重复卡片 (概念 + 代码相同)',
+  'deck.skip': '跳过，保留现有卡片',
+  'deck.replace': '用导入的卡片覆盖',
+  'deck.progressPolicy': '复习进度',
+  'deck.keepProgress': '保留文件中的进度',
+  'deck.resetProgress': '重置为新卡片',
+  'deck.confirm': '确认导入',
+  'deck.error.invalidJson': '文件不是有效的 JSON。',
+  'deck.error.noCards': 'JSON 中没有找到闪卡数组。',
+  'deck.error.unsupportedVersion': '卡组版本 {version} 高于当前支持的版本 {supported}，请升级应用。',
+  'deck.error.emptyCsv': 'CSV 文件为空。',
+  'deck.error.missingColumn': 'CSV 缺少列: {column}',
+  'deck.error.unreadable': '无法读取该文件。',
+
+  // Flashcard review
+  'review.doneTitle': '挑战完成！',
+  'review.doneBody': '今天到期的错题都已复习完毕，到期后它们会再次出现。',
+  'review.back': '返回主控台',
+  'review.interval': '间隔 {interval}d · EF {ef}',
+  'review.inputLabel': '修复代码 (输入正确逻辑)',
+  'review.placeholder': '在此输入修复后的代码... (Ctrl+Enter 提交)',
+  'review.correct': '逻辑修复成功！',
+  'review.incorrect': '修复失败',
+  'review.verdict': '判定: {strategy}',
+  'review.reference': '参考答案:',
+  'review.diff': '你的答案 → 参考答案 (逐行差异):',
+  'review.next': '下一张',
+  'review.inconclusive': '自动判定无法确认，请对照参考答案自评',
+  'review.checkFailed': '无法完成自动判定，请对照参考答案自评',
+  'review.selfGrade': '对照参考答案自评',
+  'review.gotIt': '我答对了',
+  'review.missedIt': '我没答对',
+  'review.checking': '正在判定...',
+  'review.check': '验证修复方案',
+  'review.reveal': '显示答案并自评',
+  'strategy.token': '词法比对',
+  'strategy.ast': '语法树等价',
+  'strategy.llm': '模型评分',
+  'strategy.self': '自评',
+  'check.astEqual': '与参考答案的语法树一致。',
+  'check.syntaxError': '答案存在语法错误: {message}',
+};
+
+export type MessageKey = keyof typeof zhCN;
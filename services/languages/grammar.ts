@@ -0,0 +1,111 @@
+import { PythonToken, TokenizeResult, TokenType } from "../pythonTokenizer";
+
+// Table-driven tokenizer for the non-Python languages.
+// Produces the same token types as the Python tokenizer so the editor can style them alike;
+// it re-tokenizes from scratch (these languages are only used for short course snippets).
+
+export interface Grammar {
+  keywords: Set<string>;
+  builtins: Set<string>;
+  caseInsensitive: boolean; // SQL keywords match in any case
+  lineComments: string[];
+  blockComment: [string, string] | null;
+  quotes: string[]; // string delimiters; strings may span lines
+  backslashEscapes: boolean; // false: a doubled quote escapes it (SQL)
+}
+
+const NAME_PATTERN = /^[\p{L}_$][\p{L}\p{Nd}_$]*/u;
+const NUMBER_PATTERN = /^(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|(?:\d[\d_]*(?:\.\d[\d_]*)?|\.\d[\d_]*)(?:[eE][+-]?\d+)?n?)/;
+const OPERATOR_PATTERN = /^(?:=>|\?\?=?|\?\.|\.\.\.|[=!]==?|<=|>=|<>|&&=?|\|\|=?|\*\*=?|<<=?|>>>?=?|[+\-*/%&|^]=?|\+\+|--|[<>=!~?:@])/;
+const PUNCTUATION = new Set(['(', ')', '[', ']', '{', '}', ',', ';', '.']);
+
+const scanString = (code: string, start: number, quote: string, grammar: Grammar): { end: number; unterminated: boolean } => {
+  let i = start + quote.length;
+  while (i < code.length) {
+    if (grammar.backslashEscapes && code[i] === '\\') { i += 2; continue; }
+    if (code.startsWith(quote, i)) {
+      if (!grammar.backslashEscapes && code.startsWith(quote, i + quote.length)) { i += quote.length * 2; continue; }
+      return { end: i + quote.length, unterminated: false };
+    }
+    // Only template-style quotes (`) may run across lines
+    if (code[i] === '\n' && quote !== '`') return { end: i, unterminated: true };
+    i++;
+  }
+  return { end: code.length, unterminated: true };
+};
+
+export const tokenizeWithGrammar = (code: string, grammar: Grammar): TokenizeResult => {
+  const tokens: PythonToken[] = [];
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+  let previousSignificant = null as string | null;
+
+  const push = (type: TokenType, length: number, unterminated = false) => {
+    const text = code.slice(pos, pos + length);
+    const token: PythonToken = { type, text, line, column: pos - lineStart, offset: pos };
+    tokens.push(unterminated ? { ...token, unterminated } : token);
+    // Multi-line tokens (block comments, template strings) advance the line counter
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') { line++; lineStart = pos + i + 1; }
+    }
+    pos += length;
+    if (type !== 'whitespace' && type !== 'newline' && type !== 'comment') previousSignificant = text;
+  };
+
+  const normalize = (word: string) => (grammar.caseInsensitive ? word.toUpperCase() : word);
+
+  while (pos < code.length) {
+    const rest = code.slice(pos);
+    const ch = code[pos];
+
+    if (ch === '\n') { push('newline', 1); continue; }
+
+    const whitespace = /^[ \t\f\r]+/.exec(rest);
+    if (whitespace) { push('whitespace', whitespace[0].length); continue; }
+
+    const lineComment = grammar.lineComments.find(marker => rest.startsWith(marker));
+    if (lineComment) {
+      const end = rest.indexOf('\n');
+      push('comment', end === -1 ? rest.length : end);
+      continue;
+    }
+
+    if (grammar.blockComment && rest.startsWith(grammar.blockComment[0])) {
+      const close = rest.indexOf(grammar.blockComment[1], grammar.blockComment[0].length);
+      push('comment', close === -1 ? rest.length : close + grammar.blockComment[1].length);
+      continue;
+    }
+
+    const quote = grammar.quotes.find(q => rest.startsWith(q));
+    if (quote) {
+      const { end, unterminated } = scanString(code, pos, quote, grammar);
+      push('string', end - pos, unterminated);
+      continue;
+    }
+
+    const name = NAME_PATTERN.exec(rest);
+    if (name) {
+      const word = name[0];
+      const isMember = previousSignificant === '.' || previousSignificant === '?.';
+      let type: TokenType = 'name';
+      if (!isMember && grammar.keywords.has(normalize(word))) type = 'keyword';
+      else if (!isMember && grammar.builtins.has(normalize(word))) type = 'builtin';
+      else if (/^\s*\(/.test(rest.slice(word.length))) type = 'function';
+      push(type, word.length);
+      continue;
+    }
+
+    const number = /^[\d.]/.test(ch) ? NUMBER_PATTERN.exec(rest) : null;
+    if (number) { push('number', number[0].length); continue; }
+
+    if (PUNCTUATION.has(ch) && !rest.startsWith('...')) { push('punctuation', 1); continue; }
+
+    const operator = OPERATOR_PATTERN.exec(rest);
+    if (operator) { push('operator', operator[0].length); continue; }
+
+    push('error', 1);
+  }
+
+  return { lines: [], tokens };
+};
@@ -0,0 +1,21 @@
+import { LanguageId } from "../../types";
+import { javascript } from "./javascript";
+import { python } from "./python";
+import { sql } from "./sql";
+import { LanguageDefinition } from "./types";
+
+export type { LanguageDefinition, PromptTemplate, IndentRules } from "./types";
+
+export const LANGUAGES: Record<LanguageId, LanguageDefinition> = {
+  python,
+  javascript,
+  sql,
+};
+
+export const DEFAULT_LANGUAGE: LanguageId = 'python';
+
+// Cards and runs saved before languages existed are Python.
+export const getLanguage = (id: LanguageId | undefined): LanguageDefinition => LANGUAGES[id ?? DEFAULT_LANGUAGE] ?? python;
+
+export const isLanguageId = (value: unknown): value is LanguageId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGES, value);
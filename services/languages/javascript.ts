@@ -0,0 +1,43 @@
+import { tokenizeWithGrammar } from "./grammar";
+import { LanguageDefinition } from "./types";
+
+const GRAMMAR = {
+  keywords: new Set([
+    'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default',
+    'delete', 'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import',
+    'in', 'instanceof', 'let', 'new', 'null', 'of', 'return', 'static', 'super', 'switch', 'this',
+    'throw', 'true', 'try', 'typeof', 'undefined', 'var', 'void', 'while', 'with', 'yield',
+  ]),
+  builtins: new Set([
+    'Array', 'Boolean', 'console', 'Date', 'document', 'Error', 'JSON', 'Map', 'Math', 'Number',
+    'Object', 'parseFloat', 'parseInt', 'Promise', 'RegExp', 'Set', 'String', 'Symbol', 'window',
+    'isNaN', 'fetch', 'setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'TypeError',
+    'RangeError', 'ReferenceError', 'SyntaxError',
+  ]),
+  caseInsensitive: false,
+  lineComments: ['//'],
+  blockComment: ['/*', '*/'] as [string, string],
+  quotes: ['"', "'", '`'],
+  backslashEscapes: true,
+};
+
+export const javascript: LanguageDefinition = {
+  id: 'javascript',
+  label: 'JavaScript',
+  fileLabel: 'SOURCE_INPUT.js',
+  extension: 'js',
+  lineComment: '//',
+  sample: "// 在此粘贴 JavaScript 代码...\nfunction hello() {\n  console.log('你好，世界');\n}",
+  indent: {
+    unit: '  ',
+    opensBlock: /[{[(]\s*(\/\/.*)?$/,
+  },
+  prompt: {
+    languageName: 'JavaScript',
+    conceptExample: `将 "undefined is not a function" 抽象为 "this 绑定与方法调用"`,
+    focus: '== 与 === 的区别、变量提升与 let/const、异步回调与 Promise、this 指向',
+  },
+  tokenize: code => tokenizeWithGrammar(code, GRAMMAR),
+  runnable: false,
+  topLevelBoundary: /^(export\s+(default\s+)?)?(async\s+)?(function\b|class\b)|^@/,
+};
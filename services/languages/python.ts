@@ -0,0 +1,23 @@
+import { tokenizePython } from "../pythonTokenizer";
+import { LanguageDefinition } from "./types";
+
+export const python: LanguageDefinition = {
+  id: 'python',
+  label: 'Python',
+  fileLabel: 'SOURCE_INPUT.py',
+  extension: 'py',
+  lineComment: '#',
+  sample: "# 在此粘贴 Python 代码...\ndef hello():\n    print('你好，世界')",
+  indent: {
+    unit: '    ',
+    opensBlock: /:\s*(#.*)?$/,
+  },
+  prompt: {
+    languageName: 'Python',
+    conceptExample: `将 "df['a']" 的 KeyError 抽象为 "DataFrame 列索引机制"`,
+    focus: '缩进与代码块、可变对象、作用域、类型转换',
+  },
+  tokenize: tokenizePython,
+  runnable: true,
+  topLevelBoundary: /^(@|def\s|async\s+def\s|class\s)/,
+};
@@ -0,0 +1,44 @@
+import { tokenizeWithGrammar } from "./grammar";
+import { LanguageDefinition } from "./types";
+
+const GRAMMAR = {
+  keywords: new Set([
+    'SELECT', 'FROM', 'WHERE', 'AND', 'OR', 'NOT', 'IN', 'IS', 'NULL', 'LIKE', 'BETWEEN', 'AS',
+    'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'OUTER', 'CROSS', 'ON', 'USING', 'GROUP', 'BY',
+    'HAVING', 'ORDER', 'ASC', 'DESC', 'LIMIT', 'OFFSET', 'DISTINCT', 'UNION', 'ALL', 'EXISTS',
+    'INSERT', 'INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE', 'CREATE', 'TABLE', 'DROP', 'ALTER',
+    'ADD', 'PRIMARY', 'KEY', 'FOREIGN', 'REFERENCES', 'INDEX', 'VIEW', 'CASE', 'WHEN', 'THEN',
+    'ELSE', 'END', 'WITH', 'DEFAULT', 'UNIQUE', 'CHECK', 'CONSTRAINT', 'TRUE', 'FALSE',
+  ]),
+  builtins: new Set([
+    'COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'COALESCE', 'NULLIF', 'CAST', 'ROUND', 'LENGTH', 'UPPER',
+    'LOWER', 'SUBSTR', 'SUBSTRING', 'TRIM', 'NOW', 'DATE', 'INTEGER', 'INT', 'TEXT', 'VARCHAR',
+    'REAL', 'BOOLEAN', 'TIMESTAMP',
+  ]),
+  caseInsensitive: true,
+  lineComments: ['--'],
+  blockComment: ['/*', '*/'] as [string, string],
+  quotes: ["'", '"'],
+  backslashEscapes: false,
+};
+
+export const sql: LanguageDefinition = {
+  id: 'sql',
+  label: 'SQL',
+  fileLabel: 'QUERY_INPUT.sql',
+  extension: 'sql',
+  lineComment: '--',
+  sample: "-- 在此粘贴 SQL 查询...\nSELECT name, COUNT(*)\nFROM students\nGROUP BY name;",
+  indent: {
+    unit: '  ',
+    opensBlock: /\(\s*(--.*)?$/,
+  },
+  prompt: {
+    languageName: 'SQL',
+    conceptExample: `将 "column must appear in the GROUP BY clause" 抽象为 "聚合查询中的分组规则"`,
+    focus: 'GROUP BY 与聚合函数、NULL 比较、JOIN 条件、WHERE 与 HAVING 的区别',
+  },
+  tokenize: code => tokenizeWithGrammar(code, GRAMMAR),
+  runnable: false,
+  topLevelBoundary: /^(create|select|insert|update|delete|with|alter|drop)\b/i,
+};
@@ -0,0 +1,29 @@
+import { LanguageId } from "../../types";
+import { TokenizeResult } from "../pythonTokenizer";
+
+// Wording slotted into the shared diagnosis prompt (see diagnosisPrompt.ts).
+export interface PromptTemplate {
+  languageName: string; // 出现在提示词里的语言名
+  conceptExample: string; // 把具体错误抽象成概念的示例
+  focus: string; // 这门语言初学者最常踩的坑，提示模型重点关注
+}
+
+export interface IndentRules {
+  unit: string; // Tab 键插入的缩进
+  opensBlock: RegExp | null; // 行尾匹配时，回车后自动多缩进一层
+}
+
+export interface LanguageDefinition {
+  id: LanguageId;
+  label: string;
+  fileLabel: string; // 编辑器标题栏显示的文件名
+  extension: string;
+  lineComment: string; // 单行注释前缀 (notebook 导入时用来写单元格分隔标记)
+  sample: string; // 编辑器占位示例
+  indent: IndentRules;
+  prompt: PromptTemplate;
+  // Highlighter grammar. `previous` lets incremental tokenizers reuse unchanged lines.
+  tokenize: (code: string, previous?: TokenizeResult) => TokenizeResult;
+  runnable: boolean; // 能否在浏览器沙箱里运行、做本地静态预检
+  topLevelBoundary: RegExp | null; // 顶格的定义起始行 (分段分析在此切分)；null 则按空行切分
+}
@@ -0,0 +1,179 @@
+import { LanguageId, NotebookCellOutput, TraceStep } from "../types";
+import { DEFAULT_LANGUAGE, getLanguage, isLanguageId, LANGUAGES } from "./languages";
+
+// Importing source files and Jupyter notebooks (nbformat 4) into the editor.
+// Selected notebook cells are joined into one script with a percent-format marker
+// (`# %% Cell [n]`) above each cell. The markers are ordinary comments, so they survive
+// edits in the editor and let trace steps be attributed back to their cell.
+
+export type ImportFailureReason = 'unsupportedFile' | 'invalidJson' | 'notNotebook' | 'unsupportedVersion' | 'noCodeCells';
+
+export class NotebookImportError extends Error {
+  readonly reason: ImportFailureReason;
+
+  constructor(reason: ImportFailureReason, message: string) {
+    super(message);
+    this.name = 'NotebookImportError';
+    this.reason = reason;
+  }
+}
+
+export interface NotebookCell {
+  number: number; // 在 notebook 中的位置 (1-based，含 markdown 单元格)
+  kind: 'code' | 'markdown' | 'raw';
+  source: string;
+  executionCount: number | null; // 仅代码单元格；未运行过为 null
+  output: NotebookCellOutput | null; // 仅代码单元格；没有保存任何输出时为 null
+}
+
+export interface ParsedNotebook {
+  language: LanguageId; // 来自 kernelspec / language_info，未知语言按 Python 处理
+  cells: NotebookCell[];
+}
+
+export type ImportedFile =
+  | { kind: 'source'; code: string; language: LanguageId }
+  | { kind: 'notebook'; notebook: ParsedNotebook };
+
+// Saved outputs can be huge (progress bars, printed DataFrames); the prompt only needs the gist.
+const MAX_OUTPUT_CHARS = 2000;
+
+// Tracebacks in .ipynb files keep the terminal colour codes IPython printed.
+const stripAnsi = (text: string) => text.replace(/\u001b\[[0-9;]*[A-Za-z]/g, '');
+
+// nbformat allows multiline strings either as one string or as a list of lines.
+const joinText = (value: unknown): string =>
+  Array.isArray(value) ? value.filter(part => typeof part === 'string').join('') : typeof value === 'string' ? value : '';
+
+const truncate = (text: string) =>
+  text.length > MAX_OUTPUT_CHARS ? `${text.slice(0, MAX_OUTPUT_CHARS)}\n… (${text.length - MAX_OUTPUT_CHARS} more chars)` : text;
+
+const parseOutputs = (cell: number, executionCount: number | null, outputs: unknown): NotebookCellOutput | null => {
+  if (!Array.isArray(outputs) || outputs.length === 0) return null;
+
+  let stdout = '';
+  let result = '';
+  let error: NotebookCellOutput['error'];
+  for (const raw of outputs) {
+    const output = (raw ?? {}) as Record<string, unknown>;
+    switch (output.output_type) {
+      case 'stream':
+        stdout += joinText(output.text);
+        break;
+      case 'execute_result':
+      case 'display_data':
+        result += joinText((output.data as Record<string, unknown> | undefined)?.['text/plain']);
+        break;
+      case 'error':
+        error = {
+          name: String(output.ename ?? 'Error'),
+          value: String(output.evalue ?? ''),
+          traceback: truncate(stripAnsi(Array.isArray(output.traceback) ? output.traceback.join('\n') : '')),
+        };
+        break;
+    }
+  }
+
+  if (!stdout && !result && !error) return null;
+  return { cell, executionCount, stdout: truncate(stdout), result: truncate(result), ...(error && { error }) };
+};
+
+export const parseNotebook = (text: string): ParsedNotebook => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new NotebookImportError('invalidJson', 'Notebook is not valid JSON.');
+  }
+
+  const file = (raw ?? {}) as { nbformat?: unknown; cells?: unknown; metadata?: { kernelspec?: { language?: unknown }; language_info?: { name?: unknown } } };
+  if (!Array.isArray(file.cells)) throw new NotebookImportError('notNotebook', 'No "cells" array found.');
+  if (typeof file.nbformat === 'number' && file.nbformat < 4) {
+    throw new NotebookImportError('unsupportedVersion', `nbformat ${file.nbformat} is not supported (need 4+).`);
+  }
+
+  const kernelLanguage = String(file.metadata?.kernelspec?.language ?? file.metadata?.language_info?.name ?? '').toLowerCase();
+  const cells = file.cells.map((rawCell, i): NotebookCell => {
+    const cell = (rawCell ?? {}) as Record<string, unknown>;
+    const kind = cell.cell_type === 'code' || cell.cell_type === 'markdown' ? cell.cell_type : 'raw';
+    const executionCount = typeof cell.execution_count === 'number' ? cell.execution_count : null;
+    return {
+      number: i + 1,
+      kind,
+      source: joinText(cell.source),
+      executionCount,
+      output: kind === 'code' ? parseOutputs(i + 1, executionCount, cell.outputs) : null,
+    };
+  });
+
+  if (!cells.some(cell => cell.kind === 'code' && cell.source.trim())) {
+    throw new NotebookImportError('noCodeCells', 'The notebook has no non-empty code cells.');
+  }
+  return { language: isLanguageId(kernelLanguage) ? kernelLanguage : DEFAULT_LANGUAGE, cells };
+};
+
+// Picks the import path from the file extension: notebooks are parsed, registered source files load as-is.
+export const readImportedFile = (fileName: string, text: string): ImportedFile => {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  if (extension === 'ipynb') return { kind: 'notebook', notebook: parseNotebook(text) };
+
+  const language = Object.values(LANGUAGES).find(lang => lang.extension === extension);
+  if (!language) throw new NotebookImportError('unsupportedFile', `Unsupported file type: .${extension}`);
+  return { kind: 'source', code: text.replace(/\r\n/g, '\n'), language: language.id };
+};
+
+// --- Cell markers ---
+
+const MARKER = /^(?:#|\/\/|--) %% Cell \[(\d+)\]/;
+
+export const cellMarker = (cellNumber: number, language: LanguageId) =>
+  `${getLanguage(language).lineComment} %% Cell [${cellNumber}]`;
+
+// IPython magics (%matplotlib) and shell escapes (!pip) are not Python; they are kept as
+// comments so the static checks and the sandbox don't stop at them.
+const commentOutMagics = (source: string) => source.replace(/^(\s*)([%!])/gm, '$1# $2');
+
+export const assembleNotebook = (cells: NotebookCell[], language: LanguageId): string =>
+  cells
+    .map(cell => {
+      const source = language === 'python' ? commentOutMagics(cell.source) : cell.source;
+      return `${cellMarker(cell.number, language)}\n${source.replace(/\r\n/g, '\n').trimEnd()}`;
+    })
+    .join('\n\n');
+
+export interface CellSpan {
+  cell: number;
+  startLine: number; // 标记所在行 (1-based)
+  endLine: number; // 下一个标记之前的最后一行
+}
+
+export const findCellSpans = (code: string): CellSpan[] => {
+  const lines = code.split('\n');
+  const spans: CellSpan[] = [];
+  lines.forEach((line, i) => {
+    const match = MARKER.exec(line);
+    if (!match) return;
+    if (spans.length > 0) spans[spans.length - 1].endLine = i;
+    spans.push({ cell: Number(match[1]), startLine: i + 1, endLine: lines.length });
+  });
+  return spans;
+};
+
+export const findCellForLine = (spans: CellSpan[], line: number): number | undefined =>
+  spans.find(span => line >= span.startLine && line <= span.endLine)?.cell;
+
+// Tags every located step with the cell it falls in; code without markers is left alone.
+export const attributeCells = (trace: TraceStep[], code: string): TraceStep[] => {
+  const spans = findCellSpans(code);
+  if (spans.length === 0) return trace;
+  return trace.map(step => {
+    const cell = step.range && findCellForLine(spans, step.range.startLine);
+    return cell === undefined ? step : { ...step, cell };
+  });
+};
+
+// Saved outputs only count as evidence for cells that are still in the editor.
+export const outputsForCode = (outputs: NotebookCellOutput[], code: string): NotebookCellOutput[] => {
+  const present = new Set(findCellSpans(code).map(span => span.cell));
+  return outputs.filter(output => present.has(output.cell));
+};
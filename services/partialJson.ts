@@ -0,0 +1,130 @@
+// Tolerant parser for JSON that is still arriving over a stream.
+// Parses as much of a truncated document as possible; containers (and strings)
+// that were cut off by the end of input are reported as incomplete.
+
+export interface PartialJson {
+  value: unknown;
+  isComplete: (node: unknown) => boolean; // false for objects/arrays cut off by the end of input
+}
+
+const MISSING = Symbol('missing');
+
+export const parsePartialJson = (text: string): PartialJson => {
+  const incomplete = new WeakSet<object>();
+  let i = 0;
+  let hitEnd = false;
+
+  const skipWhitespace = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+
+  const parseString = (): string => {
+    i++; // opening quote
+    let out = '';
+    while (i < text.length) {
+      const ch = text[i];
+      if (ch === '"') {
+        i++;
+        return out;
+      }
+      if (ch === '\\') {
+        if (i + 1 >= text.length) break;
+        const esc = text[i + 1];
+        if (esc === 'u') {
+          if (i + 6 > text.length) break;
+          out += String.fromCharCode(parseInt(text.slice(i + 2, i + 6), 16));
+          i += 6;
+          continue;
+        }
+        const map: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '"': '"', '\\': '\\', '/': '/' };
+        out += map[esc] ?? esc;
+        i += 2;
+        continue;
+      }
+      out += ch;
+      i++;
+    }
+    hitEnd = true;
+    return out;
+  };
+
+  const parseLiteral = (): unknown => {
+    const start = i;
+    while (i < text.length && /[^\s,\]}]/.test(text[i])) i++;
+    if (i >= text.length) {
+      // A number or literal at the very end may still be growing ("tr", "12")
+      hitEnd = true;
+      return MISSING;
+    }
+    const token = text.slice(start, i);
+    try {
+      return JSON.parse(token);
+    } catch {
+      return MISSING;
+    }
+  };
+
+  const parseArray = (): unknown[] => {
+    const arr: unknown[] = [];
+    i++; // [
+    while (true) {
+      skipWhitespace();
+      if (i >= text.length) { hitEnd = true; break; }
+      if (text[i] === ']') { i++; return arr; }
+      if (text[i] === ',') { i++; continue; }
+      const value = parseValue();
+      if (value !== MISSING) arr.push(value);
+      if (hitEnd) break;
+    }
+    incomplete.add(arr);
+    return arr;
+  };
+
+  const parseObject = (): Record<string, unknown> => {
+    const obj: Record<string, unknown> = {};
+    i++; // {
+    while (true) {
+      skipWhitespace();
+      if (i >= text.length) { hitEnd = true; break; }
+      if (text[i] === '}') { i++; return obj; }
+      if (text[i] === ',') { i++; continue; }
+      if (text[i] !== '"') { hitEnd = true; break; } // malformed; give up here
+
+      const key = parseString();
+      if (hitEnd) break;
+      skipWhitespace();
+      if (i >= text.length) { hitEnd = true; break; }
+      if (text[i] !== ':') { hitEnd = true; break; }
+      i++;
+
+      const value = parseValue();
+      if (value !== MISSING) obj[key] = value;
+      if (hitEnd) break;
+    }
+    incomplete.add(obj);
+    return obj;
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    if (i >= text.length) {
+      hitEnd = true;
+      return MISSING;
+    }
+    const ch = text[i];
+    if (ch === '{') return parseObject();
+    if (ch === '[') return parseArray();
+    if (ch === '"') return parseString();
+    return parseLiteral();
+  };
+
+  // Models sometimes wrap JSON in a markdown fence
+  const fence = text.match(/^\s*```(?:json)?\s*/i);
+  if (fence) i = fence[0].length;
+
+  const value = parseValue();
+  return {
+    value: value === MISSING ? undefined : value,
+    isComplete: (node) => typeof node !== 'object' || node === null || !incomplete.has(node),
+  };
+};
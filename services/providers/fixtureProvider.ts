@@ -0,0 +1,151 @@
+import { DiagnosisResponse } from "../../types";
+import { DiagnosisProvider } from "./types";
+
+// Deterministic offline provider: no network, same input -> same output.
+// Intended for development and demos; it recognises a handful of classic
+// beginner mistakes and otherwise reports a clean run.
+
+interface Fixture {
+  pattern: RegExp; // must match a single line (multiline flag)
+  build: (line: string) => DiagnosisResponse;
+}
+
+const FIXTURE_LATENCY_MS = 600;
+const STREAM_CHUNK_CHARS = 48;
+const STREAM_CHUNK_DELAY_MS = 40;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+const FIXTURES: Fixture[] = [
+  {
+    // Python 2 style print statement
+    pattern: /^[ \t]*print[ \t]+[^(\s].*$/m,
+    build: (line) => {
+      const indent = line.match(/^\s*/)![0];
+      const args = line.trim().replace(/^print\s+/, '');
+      const fixed = `${indent}print(${args})`;
+      return {
+        rawError: 'print 在 Python 3 中是一个函数，必须用括号调用。',
+        trace: [
+          { status: 'success', title: '读取代码', desc: '解释器开始逐行读取你的程序。', isError: false },
+          {
+            status: 'error',
+            title: 'SyntaxError: 缺少括号',
+            desc: '解释器遇到了旧式的 print 语句，无法理解。',
+            isError: true,
+            badCode: line.trim(),
+            errorHighlight: 'print',
+            goodCode: fixed.trim(),
+            reason: 'Python 3 把 print 从“语句”变成了“函数”。',
+            tip: '把 print 想象成一台机器，括号就是它的投料口。',
+            hints: [
+              '解释器卡在了哪一行？那一行里最先出现的单词是什么？',
+              '在 Python 3 里，你调用过的其他函数（比如 len）后面都跟着什么符号？',
+            ],
+          },
+        ],
+        generatedFlashcards: [
+          {
+            concept: 'print 函数调用',
+            frontCode: line.trim(),
+            errorHighlight: 'print',
+            backCode: fixed.trim(),
+            explanation: '函数调用需要把参数放在括号里。',
+          },
+        ],
+      };
+    },
+  },
+  {
+    // Assignment instead of comparison in a condition
+    pattern: /^[ \t]*(?:if|elif|while)\b[^=\n]*[^=!<>\n]=[^=\n].*:[ \t]*$/m,
+    build: (line) => {
+      const fixed = line.trim().replace(/([^=!<>])=([^=])/, '$1==$2');
+      return {
+        rawError: '条件判断里用了赋值符号 =，应该使用比较符号 ==。',
+        trace: [
+          { status: 'success', title: '读取代码', desc: '解释器开始逐行读取你的程序。', isError: false },
+          {
+            status: 'error',
+            title: 'SyntaxError: 条件中的赋值',
+            desc: '在 if/while 的条件里，解释器期待的是一个“问题”，却收到了一个“命令”。',
+            isError: true,
+            badCode: line.trim(),
+            errorHighlight: '=',
+            goodCode: fixed,
+            reason: '= 表示“把右边放进左边”，== 才表示“两边相等吗？”。',
+            tip: '一个等号是搬运工，两个等号是裁判。',
+            hints: [
+              '条件语句需要得到“是”或“否”的答案，这一行的条件在问什么问题？',
+              '在 Python 里，“把值放进变量”和“比较两个值”用的是同一个符号吗？',
+            ],
+          },
+        ],
+        generatedFlashcards: [
+          {
+            concept: '赋值与比较的区别',
+            frontCode: line.trim(),
+            errorHighlight: '=',
+            backCode: fixed,
+            explanation: '条件判断需要比较运算符 ==。',
+          },
+        ],
+      };
+    },
+  },
+];
+
+const cleanRun = (code: string): DiagnosisResponse => {
+  const lineCount = code.split('\n').filter(l => l.trim()).length;
+  return {
+    rawError: '离线样例模式：未发现明显错误。',
+    trace: [
+      { status: 'success', title: '读取代码', desc: `解释器读取了 ${lineCount} 行有效代码。`, isError: false },
+      { status: 'success', title: '执行完毕', desc: '程序按预期从头运行到尾。', isError: false },
+    ],
+    generatedFlashcards: [],
+  };
+};
+
+const pickResponse = (code: string): DiagnosisResponse => {
+  for (const fixture of FIXTURES) {
+    const match = code.match(fixture.pattern);
+    if (match) return fixture.build(match[0]);
+  }
+  return cleanRun(code);
+};
+
+export const fixtureProvider: DiagnosisProvider = {
+  id: 'fixture',
+  label: '离线样例 (Fixture)',
+
+  ensureConfigured: () => {},
+
+  diagnose: async ({ code }, _settings, signal) => {
+    console.log("[CodeDoctor] Using offline fixture provider.");
+    await sleep(FIXTURE_LATENCY_MS, signal);
+    return pickResponse(code);
+  },
+
+  generateJson: async () => {
+    throw new Error("The offline fixture provider only supports diagnosis.");
+  },
+
+  // Replays the serialized fixture in small chunks, like a real token stream.
+  diagnoseStream: async ({ code }, _settings, { onText, signal }) => {
+    console.log("[CodeDoctor] Streaming offline fixture.");
+    const text = JSON.stringify(pickResponse(code));
+    for (let end = STREAM_CHUNK_CHARS; end < text.length + STREAM_CHUNK_CHARS; end += STREAM_CHUNK_CHARS) {
+      await sleep(STREAM_CHUNK_DELAY_MS, signal);
+      onText(text.slice(0, end));
+    }
+    return JSON.parse(text);
+  },
+};
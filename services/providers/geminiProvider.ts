@@ -0,0 +1,103 @@
+import { FinishReason, GenerateContentParameters, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { ProviderSettings } from "../../types";
+import { InvalidOutputError, ProviderNotConfiguredError, SafetyBlockError } from "../diagnosisErrors";
+import { parseDiagnosisJson } from "../diagnosisValidator";
+import { DiagnosisProvider, JsonRequest } from "./types";
+
+export const GEMINI_MODEL = "gemini-2.5-flash";
+
+const resolveModel = (settings: ProviderSettings) => settings.analysis.model.trim() || GEMINI_MODEL;
+
+const buildParams = (
+  { prompt, systemInstruction, schema }: JsonRequest,
+  settings: ProviderSettings,
+  signal?: AbortSignal
+): GenerateContentParameters => ({
+  model: resolveModel(settings),
+  contents: prompt,
+  config: {
+    responseMimeType: "application/json",
+    responseSchema: schema,
+    systemInstruction: systemInstruction,
+    temperature: settings.analysis.temperature,
+    abortSignal: signal,
+  },
+});
+
+const BLOCKING_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.RECITATION,
+];
+
+// A blocked prompt or answer arrives as an empty/cut-off text; say why instead of "empty response".
+const assertNotBlocked = (response: GenerateContentResponse | undefined) => {
+  const blockReason = response?.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyBlockError(blockReason);
+
+  const finishReason = response?.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason)) throw new SafetyBlockError(finishReason);
+  if (finishReason === FinishReason.MAX_TOKENS) {
+    throw new InvalidOutputError("Response was cut off at the output token limit", ['MAX_TOKENS']);
+  }
+};
+
+const parseText = (text: string | undefined) => {
+  if (!text) {
+    console.warn("[CodeDoctor] Received empty response from API.");
+    throw new Error("Empty response from AI");
+  }
+
+  console.log("[CodeDoctor] Response received. Length:", text.length);
+  // Helpful for debugging bad JSON structure
+  if (process.env.NODE_ENV === 'development') {
+     console.debug("[CodeDoctor] Raw text snippet:", text.substring(0, 500));
+  }
+
+  return parseDiagnosisJson(text);
+};
+
+const requestJson = async (request: JsonRequest, settings: ProviderSettings, signal?: AbortSignal) => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  console.log(`[CodeDoctor] Sending request to Gemini (${resolveModel(settings)})...`);
+  const response = await ai.models.generateContent(buildParams(request, settings, signal));
+  assertNotBlocked(response);
+  return parseText(response.text);
+};
+
+export const geminiProvider: DiagnosisProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+
+  ensureConfigured: () => {
+    if (!process.env.API_KEY) {
+      console.error("[CodeDoctor] Critical Error: API Key is missing in environment variables.");
+      throw new ProviderNotConfiguredError("API Key is missing in environment variables.");
+    }
+    console.log("[CodeDoctor] API Key present.");
+  },
+
+  diagnose: requestJson,
+
+  generateJson: requestJson,
+
+  diagnoseStream: async (request, settings, { onText, signal }) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+    console.log(`[CodeDoctor] Opening stream to Gemini (${resolveModel(settings)})...`);
+    const stream = await ai.models.generateContentStream(buildParams(request, settings, signal));
+
+    let text = '';
+    let lastChunk: GenerateContentResponse | undefined;
+    for await (const chunk of stream) {
+      lastChunk = chunk;
+      text += chunk.text ?? '';
+      onText(text);
+    }
+    assertNotBlocked(lastChunk);
+    return parseText(text);
+  },
+};
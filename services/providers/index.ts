@@ -0,0 +1,47 @@
+import { AnalysisOptions, ProviderId, ProviderSettings } from "../../types";
+import { fixtureProvider } from "./fixtureProvider";
+import { GEMINI_MODEL, geminiProvider } from "./geminiProvider";
+import { openAICompatibleProvider } from "./openAICompatibleProvider";
+import { DiagnosisProvider } from "./types";
+
+export { GEMINI_MODEL } from "./geminiProvider";
+export type { DiagnosisProvider, DiagnosisRequest, JsonRequest, StreamHandlers } from "./types";
+
+export const PROVIDERS: Record<ProviderId, DiagnosisProvider> = {
+  'gemini': geminiProvider,
+  'openai-compatible': openAICompatibleProvider,
+  'fixture': fixtureProvider,
+};
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+  model: '',
+  temperature: 0.4,
+  maxAttempts: 5,
+  attemptTimeoutMs: 120_000,
+  retryOn: ['network', 'timeout', 'rateLimit', 'server', 'invalidOutput'],
+  maxPromptTokens: 8000,
+  chunkLongScripts: true,
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  providerId: 'gemini',
+  openAIBaseUrl: 'http://localhost:11434/v1',
+  openAIModel: 'qwen2.5-coder:7b',
+  openAIApiKey: '',
+  streaming: true,
+  skipModelOnSyntaxErrors: true,
+  useResponseCache: true,
+  hintMode: false,
+  analysis: DEFAULT_ANALYSIS_OPTIONS,
+};
+
+export const getProvider = (id: ProviderId): DiagnosisProvider => PROVIDERS[id] ?? geminiProvider;
+
+// Human-readable name of the model a run used, recorded in history.
+export const describeModel = (settings: ProviderSettings): string => {
+  switch (settings.providerId) {
+    case 'gemini': return settings.analysis.model.trim() || GEMINI_MODEL;
+    case 'openai-compatible': return settings.analysis.model.trim() || settings.openAIModel;
+    case 'fixture': return 'offline-fixture';
+  }
+};
@@ -0,0 +1,132 @@
+import { ProviderSettings } from "../../types";
+import { toJsonSchema } from "../diagnosisPrompt";
+import { InvalidOutputError, ProviderNotConfiguredError, SafetyBlockError } from "../diagnosisErrors";
+import { parseDiagnosisJson } from "../diagnosisValidator";
+import { DiagnosisProvider, JsonRequest } from "./types";
+
+// Talks to any server exposing the OpenAI `/chat/completions` API,
+// e.g. a local llama.cpp server or Ollama (`http://localhost:11434/v1`).
+
+// Non-2xx response; the status lets the retry loop tell rate limits and outages from bad requests.
+export class EndpointHttpError extends Error {
+  readonly status: number;
+  readonly retryAfterSeconds?: number;
+
+  constructor(status: number, body: string, retryAfterSeconds?: number) {
+    super(`Endpoint responded with HTTP ${status}: ${body}`);
+    this.name = 'EndpointHttpError';
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+const sendRequest = async (
+  { prompt, systemInstruction, schema }: JsonRequest,
+  settings: ProviderSettings,
+  stream: boolean,
+  signal?: AbortSignal
+): Promise<Response> => {
+  const url = `${settings.openAIBaseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.openAIApiKey) {
+    headers['Authorization'] = `Bearer ${settings.openAIApiKey}`;
+  }
+
+  // Not every local server honours `json_schema`, so the schema is also spelled out in the system message.
+  const schemaHint = `\n只输出符合以下 JSON Schema 的 JSON，不要输出任何其他内容：\n${JSON.stringify(toJsonSchema(schema))}`;
+
+  const model = settings.analysis.model.trim() || settings.openAIModel;
+  console.log(`[CodeDoctor] Sending request to ${url} (${model})...`);
+  const res = await fetch(url, {
+    method: 'POST',
+    headers,
+    signal,
+    body: JSON.stringify({
+      model,
+      temperature: settings.analysis.temperature,
+      stream,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: systemInstruction + schemaHint },
+        { role: 'user', content: prompt },
+      ],
+    }),
+  });
+
+  if (!res.ok) {
+    const retryAfter = Number(res.headers.get('Retry-After'));
+    throw new EndpointHttpError(res.status, await res.text(), retryAfter > 0 ? retryAfter : undefined);
+  }
+  return res;
+};
+
+const parseText = (text: string | undefined) => {
+  if (!text) {
+    console.warn("[CodeDoctor] Received empty response from endpoint.");
+    throw new Error("Empty response from AI");
+  }
+  console.log("[CodeDoctor] Response received. Length:", text.length);
+  return parseDiagnosisJson(text);
+};
+
+const assertFinished = (finishReason: unknown) => {
+  if (finishReason === 'content_filter') throw new SafetyBlockError('content_filter');
+  if (finishReason === 'length') throw new InvalidOutputError("Response was cut off at the output token limit", ['length']);
+};
+
+const requestJson = async (request: JsonRequest, settings: ProviderSettings, signal?: AbortSignal) => {
+  const res = await sendRequest(request, settings, false, signal);
+  const data = await res.json();
+  assertFinished(data?.choices?.[0]?.finish_reason);
+  return parseText(data?.choices?.[0]?.message?.content);
+};
+
+export const openAICompatibleProvider: DiagnosisProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI 兼容接口 (本地模型)',
+
+  ensureConfigured: (settings) => {
+    if (!settings.openAIBaseUrl.trim() || !settings.openAIModel.trim()) {
+      console.error("[CodeDoctor] Critical Error: OpenAI-compatible endpoint or model not configured.");
+      throw new ProviderNotConfiguredError("OpenAI-compatible endpoint URL and model must be configured in settings.");
+    }
+  },
+
+  diagnose: requestJson,
+
+  generateJson: requestJson,
+
+  diagnoseStream: async (request, settings, { onText, signal }) => {
+    const res = await sendRequest(request, settings, true, signal);
+    if (!res.body) throw new Error("Streaming not supported by this endpoint");
+
+    // Server-sent events: `data: {json}` lines, terminated by `data: [DONE]`
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let finishReason: unknown;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+        const choice = JSON.parse(data)?.choices?.[0];
+        finishReason = choice?.finish_reason ?? finishReason;
+        const delta = choice?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(text);
+        }
+      }
+    }
+    assertFinished(finishReason);
+    return parseText(text);
+  },
+};
@@ -0,0 +1,30 @@
+import { ProviderId, ProviderSettings } from "../../types";
+
+// A single structured-output call: the model must answer with JSON matching `schema`.
+export interface JsonRequest {
+  prompt: string;
+  systemInstruction: string;
+  schema: object; // Gemini-flavoured schema (see diagnosisPrompt.ts)
+}
+
+export interface DiagnosisRequest extends JsonRequest {
+  code: string; // 已清洗的源代码
+}
+
+export interface StreamHandlers {
+  onText: (accumulated: string) => void; // called with the full text received so far
+  signal?: AbortSignal;
+}
+
+export interface DiagnosisProvider {
+  id: ProviderId;
+  label: string;
+  // Throws before any request is sent when the provider cannot possibly work (e.g. missing key).
+  ensureConfigured: (settings: ProviderSettings) => void;
+  // Resolves with the parsed-but-unvalidated payload; analyzeCode runs it through validateDiagnosis.
+  diagnose: (request: DiagnosisRequest, settings: ProviderSettings, signal?: AbortSignal) => Promise<unknown>;
+  // Same contract as diagnose, but reports raw text as it arrives.
+  diagnoseStream: (request: DiagnosisRequest, settings: ProviderSettings, handlers: StreamHandlers) => Promise<unknown>;
+  // Auxiliary structured calls (answer grading etc.). Resolves with parsed, unvalidated JSON.
+  generateJson: (request: JsonRequest, settings: ProviderSettings, signal?: AbortSignal) => Promise<unknown>;
+}
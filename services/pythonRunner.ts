@@ -0,0 +1,119 @@
+import { ExecutionResult, Locale, TraceStep } from "../types";
+import { DEFAULT_LOCALE, createTranslator } from "./i18n";
+import { rangeContainsLine } from "./sourceLocator";
+
+// Main-thread side of the Pyodide sandbox (see pythonWorker.ts).
+// The worker is created lazily and reused; it is terminated (and recreated
+// on the next run) when a script exceeds its time budget.
+
+export interface RunOptions {
+  timeoutMs?: number; // 执行超时 (不含 Pyodide 首次加载)
+  memoryCapMb?: number;
+  locale?: Locale; // 沙箱自身的提示 (超时、不可用) 使用的语言
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_MEMORY_CAP_MB = 128;
+const LOAD_TIMEOUT_MS = 60_000; // 首次下载 Pyodide 可能较慢
+
+let worker: Worker | null = null;
+let nextId = 0;
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    console.log("[CodeDoctor] Spawning Python sandbox worker.");
+    worker = new Worker(new URL('./pythonWorker.ts', import.meta.url), { type: 'module' });
+  }
+  return worker;
+};
+
+const killWorker = () => {
+  worker?.terminate();
+  worker = null;
+};
+
+const emptyResult = (status: ExecutionResult['status'], stderr: string, durationMs = 0): ExecutionResult => ({
+  status,
+  stdout: '',
+  stderr,
+  durationMs,
+});
+
+export const runPython = (code: string, options: RunOptions = {}): Promise<ExecutionResult> => {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const memoryCapBytes = (options.memoryCapMb ?? DEFAULT_MEMORY_CAP_MB) * 1024 * 1024;
+  const id = nextId++;
+  const t = createTranslator(options.locale ?? DEFAULT_LOCALE);
+
+  console.log(`[CodeDoctor] Running code in sandbox (timeout ${timeoutMs}ms).`);
+
+  return new Promise((resolve) => {
+    const w = getWorker();
+    let timer = setTimeout(() => {
+      cleanup();
+      killWorker();
+      resolve(emptyResult('unavailable', t('sandbox.loadTimeout')));
+    }, LOAD_TIMEOUT_MS);
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      w.removeEventListener('message', onMessage);
+      w.removeEventListener('error', onError);
+    };
+
+    const onMessage = (e: MessageEvent) => {
+      const msg = e.data;
+      if (msg.id !== id) return;
+
+      if (msg.type === 'started') {
+        // Runtime is loaded; from here on only the user's code is on the clock.
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          console.warn("[CodeDoctor] Sandbox timed out, terminating worker.");
+          cleanup();
+          killWorker();
+          resolve(emptyResult('timeout', t('sandbox.timeout', { ms: timeoutMs }), timeoutMs));
+        }, timeoutMs);
+      } else if (msg.type === 'done') {
+        cleanup();
+        console.log(`[CodeDoctor] Sandbox finished: ${msg.result.status}`);
+        resolve(msg.result);
+      } else if (msg.type === 'unavailable') {
+        cleanup();
+        console.error("[CodeDoctor] Pyodide failed to load:", msg.message);
+        resolve(emptyResult('unavailable', t('sandbox.unavailable', { message: msg.message })));
+      }
+    };
+
+    const onError = (e: ErrorEvent) => {
+      cleanup();
+      killWorker();
+      console.error("[CodeDoctor] Sandbox worker crashed:", e.message);
+      resolve(emptyResult('unavailable', t('sandbox.crashed', { message: e.message })));
+    };
+
+    w.addEventListener('message', onMessage);
+    w.addEventListener('error', onError);
+    w.postMessage({ id, code, memoryCapBytes });
+  });
+};
+
+// Finds the trace step whose code covers the line the interpreter actually failed on.
+// Prefers located ranges, then textual matches, and error steps over others; returns -1 when nothing matches.
+export const findStepForLine = (trace: TraceStep[], code: string, line: number): number => {
+  const located = trace
+    .map((step, index) => ({ step, index }))
+    .filter(({ step }) => step.range && rangeContainsLine(step.range, line));
+  const locatedMatch = located.find(({ step }) => step.isError) ?? located[0];
+  if (locatedMatch) return locatedMatch.index;
+
+  const sourceLine = code.split('\n')[line - 1]?.trim();
+  if (!sourceLine) return -1;
+
+  const candidates = trace
+    .map((step, index) => ({ step, index }))
+    .filter(({ step }) => step.badCode && step.badCode.split('\n').some(l => l.trim() === sourceLine));
+
+  const match = candidates.find(({ step }) => step.isError) ?? candidates[0];
+  return match ? match.index : -1;
+};
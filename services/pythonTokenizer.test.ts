@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { PythonToken, significantTokens, tokenizePython } from './pythonTokenizer';
+
+const tokens = (code: string) => significantTokens(tokenizePython(code).tokens);
+const pairs = (code: string) => tokens(code).map(({ type, text }) => [type, text]);
+
+describe('tokenizePython', () => {
+  it('reproduces the source when the token texts are joined', () => {
+    const code = 'def f(x):\n\treturn x  # done\n\n"""doc\nstring"""\n';
+    expect(tokenizePython(code).tokens.map(t => t.text).join('')).toBe(code);
+  });
+
+  it('reads the walrus operator as one operator', () => {
+    expect(pairs('if (n := 10) > 5: pass')).toEqual([
+      ['keyword', 'if'],
+      ['punctuation', '('],
+      ['name', 'n'],
+      ['operator', ':='],
+      ['number', '10'],
+      ['punctuation', ')'],
+      ['operator', '>'],
+      ['number', '5'],
+      ['punctuation', ':'],
+      ['keyword', 'pass'],
+    ]);
+  });
+
+  it('keeps slices, annotations and the ellipsis apart from the walrus', () => {
+    expect(pairs('x: int = xs[1:2]')).toContainEqual(['punctuation', ':']);
+    expect(pairs('xs[1:2]').filter(([type]) => type === 'operator')).toEqual([]);
+    expect(pairs('def f(): ...')).toContainEqual(['operator', '...']);
+  });
+
+  it('reads string prefixes as part of the string', () => {
+    expect(pairs(`a = rb'\\d+' + f"{x}" + Br"y" + u'z'`).filter(([type]) => type === 'string')).toEqual([
+      ['string', `rb'\\d+'`],
+      ['string', 'f"{x}"'],
+      ['string', 'Br"y"'],
+      ['string', "u'z'"],
+    ]);
+  });
+
+  it('handles escaped quotes, # inside strings and nested f-string quotes', () => {
+    expect(pairs(`s = "say \\"hi\\" # not a comment"`)).toEqual([
+      ['name', 's'],
+      ['operator', '='],
+      ['string', `"say \\"hi\\" # not a comment"`],
+    ]);
+    expect(pairs(`f"{d["key"]}!"`)).toEqual([['string', `f"{d["key"]}!"`]]);
+  });
+
+  it('marks an unterminated single-quoted string', () => {
+    const [, , string] = tokens("s = 'open");
+    expect(string).toMatchObject({ type: 'string', unterminated: true });
+  });
+
+  it('carries a triple-quoted string across lines', () => {
+    const result = tokenizePython('x = """first\nsecond\nthird""" + y');
+    expect(result.lines[1].startState.openString).toEqual({ prefix: '', quote: '"""' });
+    expect(result.lines[2].endState.openString).toBeNull();
+    const strings = result.tokens.filter(t => t.type === 'string').map(t => t.text);
+    expect(strings).toEqual(['"""first', 'second', 'third"""']);
+    expect(significantTokens(result.tokens).at(-1)).toMatchObject({ type: 'name', text: 'y', line: 3 });
+  });
+
+  it('classifies keywords, builtins, decorators, soft keywords and numbers', () => {
+    const code = '@app.route("/")\nasync def main():\n    match cmd:\n        case 0x1F:\n            print(await go(1.5e-3))';
+    const types = Object.fromEntries(tokens(code).map(t => [t.text, t.type]));
+    expect(types).toMatchObject({
+      '@app.route': 'decorator',
+      async: 'keyword',
+      main: 'function',
+      match: 'softKeyword',
+      case: 'softKeyword',
+      '0x1F': 'number',
+      print: 'builtin',
+      await: 'keyword',
+      go: 'function',
+      '1.5e-3': 'number',
+    });
+    expect(tokens('match = re.match(p, s)')[0]).toMatchObject({ type: 'name', text: 'match' });
+  });
+
+  it('reports 1-based lines, 0-based columns and absolute offsets', () => {
+    const code = 'a = 1\n  b = 2';
+    const b = tokens(code).find(t => t.text === 'b') as PythonToken;
+    expect(b).toMatchObject({ line: 2, column: 2, offset: 8 });
+    expect(code.slice(b.offset, b.offset + 1)).toBe('b');
+  });
+});
+
+describe('incremental re-tokenization', () => {
+  const original = 'a = 1\nb = (2,\n     3)\nc = "x"';
+
+  it('reuses every line when nothing changed', () => {
+    const first = tokenizePython(original);
+    const second = tokenizePython(original, first);
+    second.lines.forEach((line, i) => expect(line).toBe(first.lines[i]));
+  });
+
+  it('re-tokenizes only the edited line when the state after it is unchanged', () => {
+    const first = tokenizePython(original);
+    const edited = tokenizePython(original.replace('a = 1', 'a = 10'), first);
+    expect(edited.lines[0]).not.toBe(first.lines[0]);
+    edited.lines.slice(1).forEach((line, i) => expect(line).toBe(first.lines[i + 1]));
+    expect(edited.tokens.find(t => t.text === 'c')).toMatchObject({ line: 4, offset: 23 });
+  });
+
+  it('re-tokenizes the following lines when an edit changes the state they start in', () => {
+    const first = tokenizePython(original);
+    const edited = tokenizePython(original.replace('a = 1', 'a = """'), first);
+    expect(edited.lines[1]).not.toBe(first.lines[1]);
+    expect(edited.lines[1].tokens).toEqual([{ type: 'string', text: 'b = (2,', column: 0 }]);
+    expect(edited.tokens.some(t => t.type === 'punctuation' && t.text === '(')).toBe(false);
+  });
+
+  it('matches a fresh tokenization after an edit', () => {
+    const first = tokenizePython(original);
+    const code = original.replace('     3)', '     3, x := 4)');
+    expect(tokenizePython(code, first)).toEqual(tokenizePython(code));
+  });
+});
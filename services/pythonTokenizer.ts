@@ -0,0 +1,283 @@
+// Line-incremental Python tokenizer.
+// Produces typed tokens with positions; concatenating every token's text reproduces the source exactly,
+// so the highlighter can render tokens 1:1. Each line is tokenized from the state the previous line
+// ended in (open triple-quoted string, bracket depth, backslash continuation), which lets
+// `tokenizePython` reuse unchanged lines from a previous result while the user types.
+
+export type TokenType =
+  | 'keyword'
+  | 'softKeyword' // match / case / type, only when used as statements
+  | 'builtin'
+  | 'name'
+  | 'function' // name followed by '(' or defined with def/class
+  | 'decorator'
+  | 'number'
+  | 'string'
+  | 'comment'
+  | 'operator'
+  | 'punctuation'
+  | 'whitespace'
+  | 'newline'
+  | 'error';
+
+export interface PythonToken {
+  type: TokenType;
+  text: string;
+  line: number; // 1-based
+  column: number; // 0-based
+  offset: number; // from the start of the source
+  unterminated?: boolean; // string literal missing its closing quote
+}
+
+export interface TokenizerState {
+  openString: { prefix: string; quote: '"""' | "'''" } | null; // triple-quoted string spanning lines
+  depth: number; // open (, [ or {
+  continued: boolean; // previous line ended with a backslash
+}
+
+interface LineToken {
+  type: TokenType;
+  text: string;
+  column: number;
+  unterminated?: boolean;
+}
+
+export interface TokenizedLine {
+  text: string;
+  startState: TokenizerState;
+  endState: TokenizerState;
+  tokens: LineToken[];
+}
+
+export interface TokenizeResult {
+  lines: TokenizedLine[];
+  tokens: PythonToken[];
+}
+
+export const INITIAL_STATE: TokenizerState = { openString: null, depth: 0, continued: false };
+
+export const KEYWORDS = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue',
+  'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import',
+  'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while',
+  'with', 'yield',
+]);
+
+const SOFT_KEYWORDS = new Set(['match', 'case', 'type']);
+
+export const BUILTINS = new Set([
+  'abs', 'all', 'any', 'bin', 'bool', 'breakpoint', 'bytearray', 'bytes', 'callable', 'chr',
+  'classmethod', 'compile', 'complex', 'delattr', 'dict', 'dir', 'divmod', 'enumerate', 'eval',
+  'exec', 'filter', 'float', 'format', 'frozenset', 'getattr', 'globals', 'hasattr', 'hash',
+  'help', 'hex', 'id', 'input', 'int', 'isinstance', 'issubclass', 'iter', 'len', 'list',
+  'locals', 'map', 'max', 'memoryview', 'min', 'next', 'object', 'oct', 'open', 'ord', 'pow',
+  'print', 'property', 'range', 'repr', 'reversed', 'round', 'set', 'setattr', 'slice',
+  'sorted', 'staticmethod', 'str', 'sum', 'super', 'tuple', 'type', 'vars', 'zip', '__import__',
+  'aiter', 'anext', 'ascii', 'exit', 'quit',
+  'NotImplemented', 'Ellipsis', '__name__', '__file__', '__doc__', '__builtins__',
+  'BaseException', 'Exception', 'ArithmeticError', 'AssertionError', 'AttributeError',
+  'EOFError', 'FileNotFoundError', 'ImportError', 'IndexError', 'KeyError', 'KeyboardInterrupt',
+  'LookupError', 'MemoryError', 'ModuleNotFoundError', 'NameError', 'NotImplementedError',
+  'OSError', 'OverflowError', 'RecursionError', 'RuntimeError', 'StopIteration', 'SyntaxError',
+  'IndentationError', 'TypeError', 'UnboundLocalError', 'ValueError', 'ZeroDivisionError',
+  'ConnectionError', 'PermissionError', 'TimeoutError', 'UnicodeDecodeError', 'UnicodeEncodeError',
+  'GeneratorExit', 'SystemExit', 'Warning', 'UserWarning', 'DeprecationWarning',
+]);
+
+const OPERATORS = [
+  '**=', '//=', '>>=', '<<=', '...',
+  '->', ':=', '**', '//', '>>', '<<', '<=', '>=', '==', '!=',
+  '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '@=',
+  '+', '-', '*', '/', '%', '&', '|', '^', '~', '<', '>', '=', '@', '!',
+];
+
+const PUNCTUATION = new Set(['(', ')', '[', ']', '{', '}', ',', ':', ';', '.']);
+
+const NAME_PATTERN = /^[\p{L}\p{Nl}_][\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}]*/u;
+const NUMBER_PATTERN = /^(?:0[xX](?:_?[\da-fA-F])+|0[oO](?:_?[0-7])+|0[bB](?:_?[01])+|(?:\d(?:_?\d)*(?:\.(?:\d(?:_?\d)*)?)?|\.\d(?:_?\d)*)(?:[eE][+-]?\d(?:_?\d)*)?[jJ]?)/;
+const STRING_START = /^([rRbBuUfF]{0,2})("""|'''|"|')/;
+const DECORATOR_PATTERN = /^@[\p{L}_][\p{L}\p{Nd}_]*(?:\s*\.\s*[\p{L}_][\p{L}\p{Nd}_]*)*/u;
+
+const sameState = (a: TokenizerState, b: TokenizerState) =>
+  a.depth === b.depth
+  && a.continued === b.continued
+  && a.openString?.quote === b.openString?.quote
+  && a.openString?.prefix === b.openString?.prefix;
+
+// Index just past the `}` closing an f-string replacement field opened at `start`
+// (nested brackets and quotes allowed, as in Python 3.12); -1 if it doesn't close on this line.
+const skipReplacementField = (line: string, start: number): number => {
+  let depth = 0;
+  for (let i = start; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '{' || ch === '[' || ch === '(') depth++;
+    else if (ch === '}' || ch === ']' || ch === ')') {
+      depth--;
+      if (depth === 0) return i + 1;
+    } else if (ch === '"' || ch === "'") {
+      const end = scanString(line, i + 1, '', ch);
+      if (end.unterminated) return -1;
+      i = end.end - 1;
+    }
+  }
+  return -1;
+};
+
+// Scans a string body starting at `from` (just past the opening quote).
+// Backslashes always protect the next character, even in raw strings.
+const scanString = (line: string, from: number, prefix: string, quote: string): { end: number; unterminated: boolean } => {
+  const isFormat = /[fF]/.test(prefix);
+  let i = from;
+  while (i < line.length) {
+    const ch = line[i];
+    if (ch === '\\') {
+      i += 2;
+    } else if (isFormat && ch === '{') {
+      if (line[i + 1] === '{') { i += 2; continue; }
+      const close = skipReplacementField(line, i);
+      if (close === -1) return { end: line.length, unterminated: true };
+      i = close;
+    } else if (line.startsWith(quote, i)) {
+      return { end: i + quote.length, unterminated: false };
+    } else {
+      i++;
+    }
+  }
+  return { end: line.length, unterminated: true };
+};
+
+// `match x:` / `case [a, b]:` / `type Alias = int` are statements; `match = re.match(...)` is not.
+const isSoftKeywordStatement = (word: string, rest: string): boolean => {
+  const next = rest.trimStart();
+  if (!next || /^[=.,)\]}:]/.test(next) && !next.startsWith('==')) return false;
+  if (word === 'type') return /^[\p{L}_][\p{L}\p{Nd}_]*\s*(?:\[[^\]]*\]\s*)?=[^=]/u.test(next);
+  const code = next.replace(/#.*$/, '').trimEnd();
+  return code.endsWith(':');
+};
+
+export const tokenizeLine = (line: string, startState: TokenizerState): { tokens: LineToken[]; endState: TokenizerState } => {
+  const tokens: LineToken[] = [];
+  let { depth } = startState;
+  let pos = 0;
+  let previousSignificant = null as string | null;
+  const atLogicalLineStart = startState.depth === 0 && !startState.continued && !startState.openString;
+
+  const push = (type: TokenType, text: string, unterminated = false) => {
+    tokens.push(unterminated ? { type, text, column: pos, unterminated } : { type, text, column: pos });
+    pos += text.length;
+    if (type !== 'whitespace' && type !== 'comment') previousSignificant = text;
+  };
+
+  // Continuation of a triple-quoted string from an earlier line
+  if (startState.openString) {
+    const { prefix, quote } = startState.openString;
+    const { end, unterminated } = scanString(line, 0, prefix, quote);
+    push('string', line.slice(0, end));
+    if (unterminated) {
+      return { tokens, endState: { openString: startState.openString, depth, continued: false } };
+    }
+  }
+
+  while (pos < line.length) {
+    const rest = line.slice(pos);
+    const ch = line[pos];
+    const isFirstToken = atLogicalLineStart && previousSignificant === null;
+
+    const whitespace = /^[ \t\f\r]+/.exec(rest);
+    if (whitespace) { push('whitespace', whitespace[0]); continue; }
+
+    if (ch === '#') { push('comment', rest); continue; }
+
+    if (ch === '\\' && rest.trimEnd() === '\\') {
+      push('punctuation', '\\');
+      if (pos < line.length) push('whitespace', line.slice(pos));
+      return { tokens, endState: { openString: null, depth, continued: true } };
+    }
+
+    const stringStart = STRING_START.exec(rest);
+    if (stringStart) {
+      const [opening, prefix, quote] = stringStart;
+      const { end, unterminated } = scanString(line, pos + opening.length, prefix, quote);
+      const text = line.slice(pos, end);
+      if (unterminated && quote.length === 3) {
+        push('string', text);
+        return { tokens, endState: { openString: { prefix, quote: quote as '"""' | "'''" }, depth, continued: false } };
+      }
+      push('string', text, unterminated);
+      continue;
+    }
+
+    const name = NAME_PATTERN.exec(rest);
+    if (name) {
+      const word = name[0];
+      const after = line.slice(pos + word.length);
+      const isAttribute = previousSignificant === '.';
+      let type: TokenType = 'name';
+      if (KEYWORDS.has(word) && !isAttribute) type = 'keyword';
+      else if (isFirstToken && SOFT_KEYWORDS.has(word) && isSoftKeywordStatement(word, after)) type = 'softKeyword';
+      else if (previousSignificant === 'def' || previousSignificant === 'class') type = 'function';
+      else if (BUILTINS.has(word) && !isAttribute) type = 'builtin';
+      else if (/^\s*\(/.test(after)) type = 'function';
+      push(type, word);
+      continue;
+    }
+
+    const number = /^[\d.]/.test(ch) ? NUMBER_PATTERN.exec(rest) : null;
+    if (number && number[0] !== '.' && !rest.startsWith('...')) { push('number', number[0]); continue; }
+
+    if (ch === '@' && isFirstToken) {
+      const decorator = DECORATOR_PATTERN.exec(rest);
+      if (decorator) { push('decorator', decorator[0]); continue; }
+    }
+
+    // Multi-character operators first, so `:=` and `...` aren't split into punctuation
+    const operator = OPERATORS.find(op => rest.startsWith(op));
+    if (operator && operator.length > 1) { push('operator', operator); continue; }
+
+    if (PUNCTUATION.has(ch)) {
+      if (ch === '(' || ch === '[' || ch === '{') depth++;
+      else if (ch === ')' || ch === ']' || ch === '}') depth = Math.max(0, depth - 1);
+      push('punctuation', ch);
+      continue;
+    }
+
+    if (operator) { push('operator', operator); continue; }
+
+    push('error', ch);
+  }
+
+  return { tokens, endState: { openString: null, depth, continued: false } };
+};
+
+// Tokenizes `code`, reusing lines from `previous` whose text and start state are unchanged.
+export const tokenizePython = (code: string, previous?: TokenizeResult): TokenizeResult => {
+  const sourceLines = code.split('\n');
+  const lines: TokenizedLine[] = [];
+  const tokens: PythonToken[] = [];
+  let state = INITIAL_STATE;
+  let offset = 0;
+
+  sourceLines.forEach((text, i) => {
+    const cached = previous?.lines[i];
+    const tokenized: TokenizedLine = cached && cached.text === text && sameState(cached.startState, state)
+      ? cached
+      : { text, startState: state, ...tokenizeLine(text, state) };
+    lines.push(tokenized);
+
+    for (const token of tokenized.tokens) {
+      tokens.push({ ...token, line: i + 1, offset: offset + token.column });
+    }
+    offset += text.length;
+    if (i < sourceLines.length - 1) {
+      tokens.push({ type: 'newline', text: '\n', line: i + 1, column: text.length, offset });
+      offset += 1;
+    }
+    state = tokenized.endState;
+  });
+
+  return { lines, tokens };
+};
+
+// Tokens that carry meaning (no whitespace, newlines or comments).
+export const significantTokens = (tokens: PythonToken[]): PythonToken[] =>
+  tokens.filter(t => t.type !== 'whitespace' && t.type !== 'newline' && t.type !== 'comment');
@@ -0,0 +1,210 @@
+// Web Worker that runs user Python code with Pyodide.
+// Spawned by pythonRunner.ts; a hung script is handled by terminating this worker from the main thread.
+
+const PYODIDE_URL = 'https://cdn.jsdelivr.net/pyodide/v0.26.4/full/pyodide.mjs';
+const MAX_STREAM_CHARS = 20_000; // stdout/stderr beyond this are truncated
+
+// Runs inside Pyodide. Memory is capped via tracemalloc, checked from a trace hook
+// every few thousand events; the real traceback is formatted without the runner's own frame.
+// The same hook records, per line of the user's code, the variables after its last run
+// (and, post mortem, those of the frame that raised) for the variable timeline.
+const RUNNER_SOURCE = `
+import sys, json, traceback, tracemalloc, reprlib, types
+
+_SNAPSHOT_EVENTS = 5000  # later lines keep the memory check but are no longer recorded
+_MAX_VARS = 12
+_PLAIN = (int, float, complex, bool, str, bytes, list, tuple, dict, set, frozenset, type(None))
+_SKIPPED = (types.ModuleType, types.FunctionType, types.BuiltinFunctionType, types.MethodType, type)
+
+_short = reprlib.Repr()
+_short.maxstring = _short.maxother = 40
+_short.maxlist = _short.maxtuple = _short.maxdict = _short.maxset = 6
+
+def __code_doctor_describe(value):
+    # repr() of arbitrary objects (a large DataFrame) can be slow; show their type and shape
+    if isinstance(value, _PLAIN):
+        return _short.repr(value)
+    shape = getattr(value, "shape", None)
+    return "<%s%s>" % (type(value).__name__, " shape=%s" % (shape,) if isinstance(shape, tuple) else "")
+
+def __code_doctor_snapshot(frame):
+    out = []
+    for name, value in list(frame.f_locals.items()):
+        if name.startswith("_") or isinstance(value, _SKIPPED):
+            continue
+        out.append({"name": name, "type": type(value).__name__, "repr": __code_doctor_describe(value)})
+        if len(out) >= _MAX_VARS:
+            break
+    return out
+
+def __code_doctor_run(src, mem_cap):
+    counter = [0]
+    recorded = [0]
+    snapshots = {}  # line -> state after that line last ran
+    current = {}  # id(frame) -> line the frame is executing
+    def tracer(frame, event, arg):
+        counter[0] += 1
+        if counter[0] % 2000 == 0 and tracemalloc.get_traced_memory()[0] > mem_cap:
+            raise MemoryError("Memory limit exceeded (%d MB)" % (mem_cap // (1024 * 1024)))
+        if frame.f_code.co_filename == "<main>" and recorded[0] < _SNAPSHOT_EVENTS:
+            key = id(frame)
+            if event in ("line", "return") and key in current:
+                recorded[0] += 1
+                snapshots[current[key]] = {"line": current[key], "variables": __code_doctor_snapshot(frame)}
+            if event == "line":
+                current[key] = frame.f_lineno
+            elif event == "return":
+                current.pop(key, None)
+        return tracer
+
+    tracemalloc.start()
+    sys.settrace(tracer)
+    try:
+        exec(compile(src, "<main>", "exec"), {"__name__": "__main__"})
+        return json.dumps({"ok": True, "snapshots": sorted(snapshots.values(), key=lambda s: s["line"])})
+    except BaseException as e:
+        sys.settrace(None)
+        tb = e.__traceback__.tb_next if e.__traceback__ else None
+        frames = traceback.extract_tb(tb) if tb else []
+        user_frames = [f for f in frames if f.filename == "<main>"]
+        line = user_frames[-1].lineno if user_frames else getattr(e, "lineno", None)
+        # The innermost user frame still holds the values at the moment of failure
+        failing = None
+        walk = tb
+        while walk is not None:
+            if walk.tb_frame.f_code.co_filename == "<main>":
+                failing = walk
+            walk = walk.tb_next
+        if failing is not None:
+            snapshots[failing.tb_lineno] = {"line": failing.tb_lineno, "variables": __code_doctor_snapshot(failing.tb_frame), "failed": True}
+        return json.dumps({
+            "ok": False,
+            "type": type(e).__name__,
+            "message": str(e),
+            "traceback": "".join(traceback.format_exception(type(e), e, tb)),
+            "line": line,
+            "snapshots": sorted(snapshots.values(), key=lambda s: s["line"]),
+        })
+    finally:
+        sys.settrace(None)
+        tracemalloc.stop()
+`;
+
+interface RunMessage {
+  id: number;
+  code: string;
+  memoryCapBytes: number;
+}
+
+const ctx = self as unknown as {
+  onmessage: ((e: MessageEvent<RunMessage>) => void) | null;
+  postMessage: (message: unknown) => void;
+};
+
+// The parts of the Pyodide API this worker uses
+interface PyCallable {
+  (...args: unknown[]): string;
+  destroy(): void;
+}
+
+interface PyodideRuntime {
+  runPython(source: string): unknown;
+  setStdin(options: { stdin: () => string | null }): void;
+  setStdout(options: { batched: (line: string) => void }): void;
+  setStderr(options: { batched: (line: string) => void }): void;
+  globals: { get(name: string): PyCallable };
+}
+
+// What __code_doctor_run returns, as JSON
+interface RunnerOutcome {
+  ok: boolean;
+  type?: string;
+  message?: string;
+  traceback?: string;
+  line?: number | null;
+  snapshots: unknown[];
+}
+
+let pyodidePromise: Promise<PyodideRuntime> | null = null;
+
+const loadRuntime = () => {
+  if (!pyodidePromise) {
+    pyodidePromise = (async () => {
+      const { loadPyodide } = await import(/* @vite-ignore */ PYODIDE_URL);
+      const pyodide: PyodideRuntime = await loadPyodide();
+      pyodide.runPython(RUNNER_SOURCE);
+      // input() gets EOF instead of blocking on a prompt the worker can't show
+      pyodide.setStdin({ stdin: () => null });
+      return pyodide;
+    })();
+  }
+  return pyodidePromise;
+};
+
+const clip = (text: string) =>
+  text.length > MAX_STREAM_CHARS ? text.slice(0, MAX_STREAM_CHARS) + '\n... [output truncated]' : text;
+
+ctx.onmessage = async (e) => {
+  const { id, code, memoryCapBytes } = e.data;
+
+  let pyodide: PyodideRuntime;
+  try {
+    pyodide = await loadRuntime();
+  } catch (err) {
+    pyodidePromise = null;
+    ctx.postMessage({ type: 'unavailable', id, message: (err as Error).message });
+    return;
+  }
+
+  let stdout = '';
+  let stderr = '';
+  pyodide.setStdout({ batched: (line: string) => { stdout += line + '\n'; } });
+  pyodide.setStderr({ batched: (line: string) => { stderr += line + '\n'; } });
+
+  ctx.postMessage({ type: 'started', id });
+  const started = performance.now();
+
+  const run = pyodide.globals.get('__code_doctor_run');
+  let outcome: RunnerOutcome;
+  try {
+    outcome = JSON.parse(run(code, memoryCapBytes));
+  } catch (err) {
+    // The runner itself failed (a JS stack overflow from deep recursion, output it couldn't
+    // serialise). Report it rather than leave the main thread waiting for its timeout, and
+    // load a fresh runtime next time in case this one is left broken.
+    console.error("[CodeDoctor] Sandbox runner failed:", err);
+    pyodidePromise = null;
+    const { name, message } = err instanceof Error ? err : { name: 'Error', message: String(err) };
+    ctx.postMessage({
+      type: 'done',
+      id,
+      result: {
+        status: 'error',
+        stdout: clip(stdout),
+        stderr: clip(stderr + `${name}: ${message}\n`),
+        exceptionType: name,
+        exceptionMessage: message,
+        durationMs: Math.round(performance.now() - started),
+      },
+    });
+    return;
+  } finally {
+    run.destroy();
+  }
+
+  ctx.postMessage({
+    type: 'done',
+    id,
+    result: {
+      status: outcome.ok ? 'ok' : outcome.type === 'MemoryError' ? 'memory' : 'error',
+      stdout: clip(stdout),
+      stderr: clip(stderr),
+      traceback: outcome.traceback,
+      exceptionType: outcome.type,
+      exceptionMessage: outcome.message,
+      errorLine: outcome.line ?? undefined,
+      snapshots: outcome.snapshots,
+      durationMs: Math.round(performance.now() - started),
+    },
+  });
+};
@@ -0,0 +1,74 @@
+import { AnalysisContext, DiagnosisResponse, ProviderSettings } from "../types";
+import { PROMPT_VERSION } from "./diagnosisPrompt";
+import { STORES, withStore } from "./indexedDb";
+import { describeModel } from "./providers";
+
+// Content-addressed cache of validated diagnoses (IndexedDB).
+// Re-submitting the same snippet returns the same report, which saves quota and keeps demos reproducible.
+
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 100;
+
+interface CacheEntry {
+  key: string;
+  createdAt: number;
+  response: DiagnosisResponse;
+}
+
+// Trailing spaces and blank lines don't change what the code means.
+const normalizeForKey = (cleanedCode: string) =>
+  cleanedCode
+    .split('\n')
+    .map(line => line.trimEnd())
+    .filter(line => line.length > 0)
+    .join('\n');
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const buildCacheKey = (cleanedCode: string, settings: ProviderSettings, context: AnalysisContext): Promise<string> =>
+  sha256(JSON.stringify([
+    normalizeForKey(cleanedCode),
+    context.language ?? 'python',
+    context.locale ?? 'zh-CN',
+    // A chunk's prompt also carries its position and the outline of the whole file
+    context.chunk ? [context.chunk.index, context.chunk.total, context.chunk.outline] : null,
+    settings.providerId,
+    describeModel(settings),
+    PROMPT_VERSION,
+    // Sandbox evidence changes the prompt, so grounded and ungrounded runs are cached separately
+    context.execution ? [context.execution.status, context.execution.errorLine ?? null] : null,
+    // So do a pasted traceback and outputs saved in an imported notebook
+    context.traceback ? [context.traceback.exceptionType, context.traceback.message, context.traceback.errorLine ?? null] : null,
+    context.notebookOutputs?.length ? context.notebookOutputs : null,
+    // Verify-fix runs also judge the previous diagnosis' errors
+    context.previousErrors?.length ? context.previousErrors.map(step => [step.title, step.badCode ?? null, step.goodCode ?? null]) : null,
+  ]));
+
+export const getCachedResponse = async (key: string, now: number = Date.now()): Promise<CacheEntry | null> => {
+  const entry = await withStore<CacheEntry | undefined>(STORES.cache, 'readonly', store => store.get(key));
+  if (!entry) return null;
+  if (now - entry.createdAt > CACHE_TTL_MS) {
+    await withStore(STORES.cache, 'readwrite', store => store.delete(key));
+    return null;
+  }
+  return entry;
+};
+
+export const putCachedResponse = async (key: string, response: DiagnosisResponse): Promise<void> => {
+  await withStore(STORES.cache, 'readwrite', store => store.put({ key, createdAt: Date.now(), response }));
+
+  // Evict the oldest entries beyond the size limit
+  const entries = await withStore<CacheEntry[]>(STORES.cache, 'readonly', store => store.getAll());
+  const stale = entries.sort((a, b) => b.createdAt - a.createdAt).slice(MAX_ENTRIES);
+  for (const entry of stale) {
+    await withStore(STORES.cache, 'readwrite', store => store.delete(entry.key));
+  }
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+  await withStore(STORES.cache, 'readwrite', store => store.clear());
+  console.log("[CodeDoctor] Response cache cleared.");
+};
@@ -0,0 +1,48 @@
+import { RetryableErrorClass } from "../types";
+import { RequestTimeoutError } from "./diagnosisErrors";
+import { MessageKey } from "./i18n";
+
+// Decides which failed attempts are worth repeating.
+// A bad API key or a malformed request fails the same way every time, so those are fatal;
+// outages, rate limits, timeouts and unparseable model output may well succeed on the next try.
+// The class of an error comes from DiagnosisError.retryClass (see diagnosisErrors.ts).
+
+export const ERROR_CLASS_LABELS: Record<RetryableErrorClass, MessageKey> = {
+  network: 'retry.network',
+  timeout: 'retry.timeout',
+  rateLimit: 'retry.rateLimit',
+  server: 'retry.server',
+  invalidOutput: 'retry.invalidOutput',
+};
+
+export const isRetryable = (retryClass: RetryableErrorClass | null, retryOn: RetryableErrorClass[]): boolean =>
+  retryClass !== null && retryOn.includes(retryClass);
+
+export const backoffDelay = (attempt: number): number => 1000 * Math.pow(2, attempt - 1);
+
+// Runs one attempt with its own abort signal, which fires on user cancel or after `timeoutMs` (0 = no limit).
+export const withAttemptTimeout = async <T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> => {
+  signal?.throwIfAborted();
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(signal!.reason);
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+  const timer = timeoutMs > 0
+    ? setTimeout(() => controller.abort(new RequestTimeoutError(`Request timed out after ${timeoutMs / 1000}s`)), timeoutMs)
+    : undefined;
+
+  try {
+    return await run(controller.signal);
+  } catch (error) {
+    // Providers reject with a generic AbortError; report the timeout itself instead
+    const reason = controller.signal.reason;
+    if (controller.signal.aborted && reason instanceof RequestTimeoutError) throw reason;
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+};
@@ -0,0 +1,47 @@
+import { DiagnosisRun, TraceStep } from "../types";
+import { diffLines } from "./textDiff";
+
+// Compares the error steps of two diagnosis runs of the same snippet.
+
+export interface RunComparison {
+  fixed: TraceStep[]; // 旧版本中存在、新版本中已消失的错误
+  remaining: TraceStep[]; // 两个版本中都存在的错误 (取新版本的描述)
+  introduced: TraceStep[]; // 新版本中新出现的错误
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// Two error steps are "the same error" if they point at the same code or carry the same title.
+const isSameError = (a: TraceStep, b: TraceStep): boolean => {
+  if (a.badCode && b.badCode && normalize(a.badCode) === normalize(b.badCode)) return true;
+  return normalize(a.title) === normalize(b.title);
+};
+
+export const compareRuns = (older: DiagnosisRun, newer: DiagnosisRun): RunComparison => {
+  const oldErrors = older.result.trace.filter(step => step.isError);
+  const newErrors = newer.result.trace.filter(step => step.isError);
+
+  return {
+    fixed: oldErrors.filter(o => !newErrors.some(n => isSameError(o, n))),
+    remaining: newErrors.filter(n => oldErrors.some(o => isSameError(o, n))),
+    introduced: newErrors.filter(n => !oldErrors.some(o => isSameError(o, n))),
+  };
+};
+
+const SAME_SNIPPET_THRESHOLD = 0.5;
+
+// Two runs are treated as versions of one snippet when at least half their lines are shared.
+export const isSameSnippet = (a: DiagnosisRun, b: DiagnosisRun): boolean => {
+  const diff = diffLines(a.code.trim(), b.code.trim());
+  const shared = diff.filter(line => line.op === 'equal' && line.text.trim()).length;
+  const total = Math.max(
+    a.code.split('\n').filter(l => l.trim()).length,
+    b.code.split('\n').filter(l => l.trim()).length,
+    1
+  );
+  return shared / total >= SAME_SNIPPET_THRESHOLD;
+};
+
+// The most recent earlier run of the same snippet, if any. `runs` is newest first.
+export const findPreviousVersion = (run: DiagnosisRun, runs: DiagnosisRun[]): DiagnosisRun | undefined =>
+  runs.find(other => other.createdAt < run.createdAt && isSameSnippet(other, run));
@@ -0,0 +1,140 @@
+import { CardStats, CardStatus, CheckStrategyId, Flashcard } from "../types";
+
+// SM-2 spaced-repetition scheduling for flashcards.
+// https://super-memory.com/english/ol/sm2.htm
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000; // 答错的卡片 10 分钟后再出现
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MASTERED_INTERVAL_DAYS = 21;
+const CRITICAL_EASE = 1.7;
+const MAX_HISTORY = 50; // keeps localStorage small
+
+export const createInitialStats = (now: number = Date.now()): CardStats => ({
+  correctStreak: 0,
+  incorrectCount: 0,
+  status: 'new',
+  easeFactor: DEFAULT_EASE,
+  interval: 0,
+  repetitions: 0,
+  dueAt: now,
+  history: [],
+});
+
+// Maps a pass/fail review onto the SM-2 0-5 quality scale.
+// A verbatim answer counts as a perfect recall; self-graded passes as a hesitant one.
+const CORRECT_QUALITY: Record<CheckStrategyId, number> = { token: 5, ast: 4, llm: 4, self: 3 };
+
+export const qualityFromResult = (isCorrect: boolean, acceptedBy?: CheckStrategyId): number =>
+  isCorrect ? (acceptedBy ? CORRECT_QUALITY[acceptedBy] : 4) : 1;
+
+const deriveStatus = (stats: Omit<CardStats, 'status'>, lastCorrect: boolean): CardStatus => {
+  if (stats.interval >= MASTERED_INTERVAL_DAYS) return 'mastered';
+  if (!lastCorrect && (stats.easeFactor <= CRITICAL_EASE || stats.incorrectCount >= 3)) return 'critical';
+  return 'learning';
+};
+
+export const reviewCard = (
+  stats: CardStats,
+  quality: number,
+  now: number = Date.now(),
+  acceptedBy?: CheckStrategyId
+): CardStats => {
+  const q = Math.max(0, Math.min(5, Math.round(quality)));
+  const isCorrect = q >= 3;
+
+  let { repetitions, interval } = stats;
+  if (isCorrect) {
+    interval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * stats.easeFactor);
+    repetitions += 1;
+  } else {
+    repetitions = 0;
+    interval = 0;
+  }
+
+  const easeFactor = Math.max(MIN_EASE, stats.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+  const dueAt = isCorrect ? now + interval * DAY_MS : now + RELEARN_DELAY_MS;
+
+  const next = {
+    correctStreak: isCorrect ? stats.correctStreak + 1 : 0,
+    incorrectCount: isCorrect ? stats.incorrectCount : stats.incorrectCount + 1,
+    easeFactor,
+    interval,
+    repetitions,
+    dueAt,
+    history: [...stats.history, { reviewedAt: now, quality: q, interval, easeFactor, acceptedBy }].slice(-MAX_HISTORY),
+    lastAcceptedBy: isCorrect && acceptedBy ? acceptedBy : stats.lastAcceptedBy,
+  };
+
+  return { ...next, status: deriveStatus(next, isCorrect) };
+};
+
+// Fixing the real bug behind a card is evidence of understanding, though not a review:
+// the card gets a little more ease and is not due before tomorrow. Granted once per card.
+const FIX_BONUS_EASE = 0.15;
+
+export const applyFixBonus = (stats: CardStats, now: number = Date.now()): CardStats => {
+  if (stats.fixVerifiedAt !== undefined) return stats;
+  return {
+    ...stats,
+    easeFactor: stats.easeFactor + FIX_BONUS_EASE,
+    dueAt: Math.max(stats.dueAt, now + DAY_MS),
+    fixVerifiedAt: now,
+  };
+};
+
+// Each hint the student needed before seeing the answer makes the new card a little harder.
+// Only cards that have never been reviewed are adjusted; reviews take over from there.
+const HINT_EASE_PENALTY = 0.15;
+
+export const applyHintUsage = (stats: CardStats, hintsUsed: number): CardStats => {
+  const extra = hintsUsed - (stats.hintsUsed ?? 0);
+  if (extra <= 0 || stats.history.length > 0) return stats;
+  return { ...stats, easeFactor: Math.max(MIN_EASE, stats.easeFactor - HINT_EASE_PENALTY * extra), hintsUsed };
+};
+
+export const isDue = (card: Flashcard, now: number = Date.now()): boolean => card.stats.dueAt <= now;
+
+// Higher is more urgent: how far past due a card is, relative to its interval.
+// Critical cards jump the queue.
+const urgency = (card: Flashcard, now: number): number => {
+  const overdueDays = (now - card.stats.dueAt) / DAY_MS;
+  const base = overdueDays / Math.max(card.stats.interval, 1);
+  return card.stats.status === 'critical' ? base + 1000 : base;
+};
+
+export const getDueCards = (cards: Flashcard[], now: number = Date.now()): Flashcard[] =>
+  cards
+    .filter(card => isDue(card, now))
+    .sort((a, b) => urgency(b, now) - urgency(a, now));
+
+// Cards saved before the scheduler existed only carry streak counters.
+// Keep their progress: streaks become SM-2 repetitions, mastered cards get a long interval.
+export const migrateFlashcard = (card: Flashcard, now: number = Date.now()): Flashcard => {
+  const stats = card.stats as Partial<CardStats> & Pick<CardStats, 'correctStreak' | 'incorrectCount' | 'status'>;
+  if (typeof stats.easeFactor === 'number' && typeof stats.dueAt === 'number') return card;
+
+  const correctStreak = stats.correctStreak ?? 0;
+  const incorrectCount = stats.incorrectCount ?? 0;
+  const status: CardStatus = stats.status ?? 'new';
+
+  let interval = correctStreak >= 2 ? 6 : correctStreak;
+  if (status === 'mastered') interval = MASTERED_INTERVAL_DAYS;
+
+  return {
+    ...card,
+    stats: {
+      correctStreak,
+      incorrectCount,
+      status,
+      easeFactor: status === 'critical' ? CRITICAL_EASE : DEFAULT_EASE,
+      interval,
+      repetitions: status === 'mastered' ? Math.max(correctStreak, 3) : correctStreak,
+      // Mastered cards come back after their interval; everything else is due now.
+      dueAt: status === 'mastered' ? now + interval * DAY_MS : now,
+      history: [],
+    },
+  };
+};
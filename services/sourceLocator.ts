@@ -0,0 +1,91 @@
+import { SourceRange, TraceStep } from "../types";
+import { tokenizePython } from "./pythonTokenizer";
+
+// Maps free-floating code snippets from the model (badCode / errorHighlight)
+// back onto the submitted source, so the editor can mark real line/column ranges.
+
+// Token texts joined by single spaces, so `x=1` and `x = 1` compare equal
+// while spaces inside string literals still matter.
+export const normalizeLine = (line: string) =>
+  tokenizePython(line).tokens
+    .filter(t => t.type !== 'whitespace')
+    .map(t => t.text)
+    .join(' ');
+
+// Whether two snippets have a line in common (after normalizeLine), e.g. a card's front and a step's badCode.
+export const sharesCodeLine = (a: string | undefined, b: string | undefined): boolean => {
+  const lines = new Set((a ?? '').split('\n').map(normalizeLine).filter(Boolean));
+  return (b ?? '').split('\n').map(normalizeLine).some(line => line && lines.has(line));
+};
+
+const offsetToPosition = (source: string, offset: number) => {
+  const before = source.slice(0, offset);
+  const lines = before.split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length };
+};
+
+export const locateSnippet = (source: string, snippet: string): SourceRange | null => {
+  const trimmed = snippet.replace(/^\s*\n|\n\s*$/g, '');
+  if (!trimmed.trim()) return null;
+
+  // 1. Verbatim match
+  const index = source.indexOf(trimmed);
+  if (index !== -1) {
+    const start = offsetToPosition(source, index);
+    const end = offsetToPosition(source, index + trimmed.length);
+    return { startLine: start.line, startColumn: start.column, endLine: end.line, endColumn: end.column };
+  }
+
+  // 2. Line-by-line match ignoring indentation and spacing between tokens,
+  //    since models frequently dedent or reformat the snippet they quote.
+  const sourceLines = source.split('\n');
+  const snippetLines = trimmed.split('\n').map(normalizeLine);
+
+  for (let i = 0; i + snippetLines.length <= sourceLines.length; i++) {
+    const matches = snippetLines.every((line, j) => normalizeLine(sourceLines[i + j]) === line);
+    if (!matches) continue;
+
+    const first = sourceLines[i];
+    const last = sourceLines[i + snippetLines.length - 1];
+    return {
+      startLine: i + 1,
+      startColumn: first.length - first.trimStart().length,
+      endLine: i + snippetLines.length,
+      endColumn: last.trimEnd().length,
+    };
+  }
+
+  return null;
+};
+
+// Finds `highlight` inside an already-located range, searching line by line.
+const locateWithin = (source: string, range: SourceRange, highlight: string): SourceRange | null => {
+  if (highlight.includes('\n')) {
+    const found = locateSnippet(source, highlight);
+    return found && found.startLine >= range.startLine && found.endLine <= range.endLine ? found : null;
+  }
+
+  const lines = source.split('\n');
+  for (let line = range.startLine; line <= range.endLine; line++) {
+    const from = line === range.startLine ? range.startColumn : 0;
+    const column = lines[line - 1].indexOf(highlight, from);
+    if (column !== -1) {
+      return { startLine: line, startColumn: column, endLine: line, endColumn: column + highlight.length };
+    }
+  }
+  return null;
+};
+
+export const anchorTrace = (trace: TraceStep[], source: string): TraceStep[] =>
+  trace.map(step => {
+    if (!step.badCode) return step;
+
+    const range = locateSnippet(source, step.badCode);
+    if (!range) return step;
+
+    const highlightRange = step.errorHighlight ? locateWithin(source, range, step.errorHighlight) : null;
+    return highlightRange ? { ...step, range, highlightRange } : { ...step, range };
+  });
+
+export const rangeContainsLine = (range: SourceRange, line: number): boolean =>
+  line >= range.startLine && line <= range.endLine;
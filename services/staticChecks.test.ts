@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { buildLocalDiagnosis, runStaticChecks } from './staticChecks';
+
+const titles = (code: string) => runStaticChecks(code).steps.map(step => step.title);
+
+describe('runStaticChecks', () => {
+  it('treats names bound by the walrus operator as defined', () => {
+    expect(titles('if (n := 10) > 5:\n    print(n)')).toEqual([]);
+    expect(titles('while (line := input()) != "q":\n    print(line)')).toEqual([]);
+    expect(titles('total = [y for x in range(3) if (y := x * 2)]\nprint(y)')).toEqual([]);
+  });
+
+  it('does not mistake the walrus for = in a condition', () => {
+    expect(titles('if (n := 10) == 10:\n    pass')).toEqual([]);
+    expect(titles('x = 1\nif x = 1:\n    pass')).toEqual(['条件判断里用了赋值号 =']);
+  });
+
+  it('still reports names that are never bound', () => {
+    expect(titles('if (n := 10) > 5:\n    print(m)')).toEqual(['变量 m 可能没有定义']);
+  });
+
+  it('writes findings and the local diagnosis in the requested locale', () => {
+    const result = runStaticChecks('if x = 1\n    pass', 'en');
+    expect(result.steps[0].title).toBe('if statement is missing its colon');
+    expect(result.flashcards[0].concept).toBe('Colons on compound statements');
+    expect(buildLocalDiagnosis(result, 'en').rawError).toBe(
+      'The local pre-check found 1 syntax problem(s), so the program cannot run yet: line 1, if statement is missing its colon.',
+    );
+  });
+});
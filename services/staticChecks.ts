@@ -0,0 +1,627 @@
+import { DiagnosisResponse, FlashcardData, Locale, TraceStep } from "../types";
+import { BUILTINS, PythonToken, TokenizeResult, significantTokens, tokenizePython } from "./pythonTokenizer";
+import { DEFAULT_LOCALE, Translate, createTranslator } from "./i18n";
+
+// Local static pre-checks, run in the browser before the model is called.
+// Catches the mistakes a beginner hits before the program even starts (brackets, quotes,
+// indentation, missing colons, `=` in conditions, Python 2 print) plus likely NameErrors.
+// Like the interpreter, only the first structural error is reported: later ones are usually fallout.
+
+interface Finding {
+  severity: 'error' | 'warning';
+  line: number;
+  startLine?: number; // earlier line shown as context (indentation problems)
+  token?: PythonToken; // highlighted in the editor
+  title: string;
+  desc: string;
+  reason: string;
+  tip: string;
+  goodCode?: string; // fixed source for lines startLine..line, original indentation
+  concept?: string; // set for fixable mistakes worth a flashcard
+}
+
+export interface StaticCheckResult {
+  steps: TraceStep[];
+  flashcards: FlashcardData[];
+  hasSyntaxErrors: boolean; // the interpreter would refuse to run this code
+}
+
+export interface DepthToken extends PythonToken {
+  depth: number; // bracket depth the token sits at
+}
+
+export interface LogicalLine {
+  line: number;
+  indent: string;
+  tokens: DepthToken[];
+}
+
+const OPENERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSERS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+const FULL_WIDTH: Record<string, string> = {
+  '（': '(', '）': ')', '【': '[', '】': ']', '：': ':', '，': ',', '；': ';', '。': '.',
+  '“': '"', '”': '"', '‘': "'", '’': "'", '＝': '=', '　': ' ',
+};
+
+const COMPOUND_KEYWORDS = new Set(['if', 'elif', 'else', 'for', 'while', 'def', 'class', 'try', 'except', 'finally', 'with']);
+const CONDITION_KEYWORDS = new Set(['if', 'elif', 'while']);
+
+const replaceAt = (text: string, column: number, length: number, replacement: string) =>
+  text.slice(0, column) + replacement + text.slice(column + length);
+
+const leadingWhitespace = (text: string) => /^[ \t\f]*/.exec(text)![0];
+
+export const indentWidth = (indent: string) => {
+  let width = 0;
+  for (const ch of indent) width = ch === '\t' ? width + 8 - (width % 8) : width + 1;
+  return width;
+};
+
+const withIndent = (text: string, width: number) => ' '.repeat(width) + text.trimStart();
+
+// Groups tokens into logical lines: a statement continued over brackets or backslashes is one line.
+export const buildLogicalLines = (tokenized: TokenizeResult, tokens: PythonToken[]): LogicalLine[] => {
+  const byLine = new Map<number, PythonToken[]>();
+  for (const token of tokens) {
+    if (token.text === '\\') continue;
+    byLine.set(token.line, [...(byLine.get(token.line) ?? []), token]);
+  }
+
+  const logical: LogicalLine[] = [];
+  let current: LogicalLine | null = null;
+  let depth = 0;
+
+  tokenized.lines.forEach((line, i) => {
+    const lineTokens = byLine.get(i + 1) ?? [];
+    if (!current && lineTokens.length > 0) {
+      current = { line: i + 1, indent: leadingWhitespace(line.text), tokens: [] };
+    }
+    for (const token of lineTokens) {
+      if (CLOSERS[token.text]) depth = Math.max(0, depth - 1);
+      current!.tokens.push({ ...token, depth });
+      if (OPENERS[token.text]) depth++;
+    }
+
+    const { endState } = line;
+    if (current && endState.depth === 0 && !endState.continued && !endState.openString) {
+      logical.push(current);
+      current = null;
+      depth = 0;
+    }
+  });
+  if (current) logical.push(current);
+  return logical;
+};
+
+// --- Tokens: stray characters, strings, brackets ---
+
+// One finding per line: the first stray character, fix covers all of them.
+const checkCharacters = (tokens: PythonToken[], lines: string[], t: Translate): Finding[] =>
+  tokens
+    .filter((token, i, all) => token.type === 'error' && !all.slice(0, i).some(o => o.type === 'error' && o.line === token.line))
+    .map(token => {
+      const ascii = FULL_WIDTH[token.text];
+      const line = lines[token.line - 1];
+      return ascii
+        ? {
+            severity: 'error' as const,
+            line: token.line,
+            token,
+            title: t('static.fullWidth.title', { char: token.text }),
+            desc: t('static.fullWidth.desc', { char: token.text, ascii }),
+            reason: t('static.fullWidth.reason'),
+            tip: t('static.fullWidth.tip'),
+            goodCode: [...line].map(ch => FULL_WIDTH[ch] ?? ch).join(''),
+            concept: t('static.fullWidth.concept'),
+          }
+        : {
+            severity: 'error' as const,
+            line: token.line,
+            token,
+            title: t('static.strayChar.title', { char: token.text }),
+            desc: t('static.strayChar.desc', { char: token.text }),
+            reason: t('static.strayChar.reason'),
+            tip: t('static.strayChar.tip'),
+          };
+    });
+
+const checkStrings = (tokenized: TokenizeResult, tokens: PythonToken[], lines: string[], t: Translate): Finding[] => {
+  const findings: Finding[] = [];
+  for (const token of tokens) {
+    if (token.type !== 'string' || !token.unterminated) continue;
+    const quote = /["']/.exec(token.text)?.[0] ?? '"';
+    findings.push({
+      severity: 'error',
+      line: token.line,
+      token,
+      title: t('static.unclosedString.title'),
+      desc: t('static.unclosedString.desc', { quote }),
+      reason: t('static.unclosedString.reason'),
+      tip: t('static.unclosedString.tip'),
+      goodCode: lines[token.line - 1].trimEnd() + quote,
+      concept: t('static.unclosedString.concept'),
+    });
+  }
+
+  const last = tokenized.lines[tokenized.lines.length - 1];
+  if (last?.endState.openString) {
+    // The line where the still-open triple-quoted string began
+    let startIndex = tokenized.lines.length - 1;
+    while (startIndex > 0 && tokenized.lines[startIndex].startState.openString) startIndex--;
+    const token = tokens.filter(other => other.line === startIndex + 1 && other.type === 'string').pop();
+    findings.push({
+      severity: 'error',
+      line: startIndex + 1,
+      token,
+      title: t('static.unclosedTriple.title'),
+      desc: t('static.unclosedTriple.desc', { line: startIndex + 1, quote: last.endState.openString.quote }),
+      reason: t('static.unclosedTriple.reason'),
+      tip: t('static.unclosedTriple.tip', { quote: last.endState.openString.quote }),
+    });
+  }
+  return findings;
+};
+
+const checkBrackets = (tokens: PythonToken[], lines: string[], t: Translate): Finding[] => {
+  const stack: PythonToken[] = [];
+  for (const token of tokens) {
+    if (token.type !== 'punctuation') continue;
+    if (OPENERS[token.text]) {
+      stack.push(token);
+      continue;
+    }
+    if (!CLOSERS[token.text]) continue;
+
+    const open = stack.pop();
+    if (!open) {
+      return [{
+        severity: 'error',
+        line: token.line,
+        token,
+        title: t('static.extraCloser.title', { char: token.text }),
+        desc: t('static.extraCloser.desc', { char: token.text }),
+        reason: t('static.extraCloser.reason'),
+        tip: t('static.extraCloser.tip'),
+      }];
+    }
+    if (open.text !== CLOSERS[token.text]) {
+      const line = lines[token.line - 1];
+      return [{
+        severity: 'error',
+        line: token.line,
+        token,
+        title: t('static.mismatchedBracket.title'),
+        desc: t('static.mismatchedBracket.desc', { line: open.line, open: open.text, close: token.text }),
+        reason: t('static.mismatchedBracket.reason'),
+        tip: t('static.mismatchedBracket.tip', { close: token.text, expected: OPENERS[open.text] }),
+        goodCode: replaceAt(line, token.column, 1, OPENERS[open.text]),
+        concept: t('static.concept.brackets'),
+      }];
+    }
+  }
+
+  const open = stack.pop();
+  if (!open) return [];
+  const line = lines[open.line - 1];
+  // Only the simple case gets a fix: one bracket left open on the last line of code
+  const closesOnSameLine = open.line === tokens[tokens.length - 1].line && stack.every(other => other.line !== open.line);
+  return [{
+    severity: 'error',
+    line: open.line,
+    token: open,
+    title: t('static.unclosedBracket.title', { char: open.text }),
+    desc: t('static.unclosedBracket.desc', { line: open.line, open: open.text, close: OPENERS[open.text] }),
+    reason: t('static.unclosedBracket.reason'),
+    tip: t('static.unclosedBracket.tip'),
+    goodCode: closesOnSameLine ? line.trimEnd() + OPENERS[open.text] : undefined,
+    concept: closesOnSameLine ? t('static.concept.brackets') : undefined,
+  }];
+};
+
+// --- Logical lines: indentation, colons, conditions, print ---
+
+const checkIndentation = (logical: LogicalLine[], lines: string[], t: Translate): Finding[] => {
+  const stack = [0];
+  let previous: LogicalLine | null = null;
+  let expectIndent = false;
+  let firstTabLine: number | null = null;
+  let usesSpaces = false;
+
+  for (const current of logical) {
+    const text = lines[current.line - 1];
+    const width = indentWidth(current.indent);
+    const top = stack[stack.length - 1];
+
+    if (current.indent.includes(' ') && current.indent.includes('\t')) {
+      return [{
+        severity: 'error',
+        line: current.line,
+        title: t('static.tabSpaceMix.title'),
+        desc: t('static.tabSpaceMix.desc'),
+        reason: t('static.tabSpaceMix.reason'),
+        tip: t('static.tip.spaces'),
+        goodCode: withIndent(text, width),
+        concept: t('static.concept.indentation'),
+      }];
+    }
+    if (current.indent.includes('\t')) firstTabLine ??= current.line;
+    if (current.indent.includes(' ')) usesSpaces = true;
+
+    if (expectIndent && width <= top) {
+      const header = previous!.line;
+      return [{
+        severity: 'error',
+        line: current.line,
+        startLine: header,
+        title: t('static.missingIndent.title'),
+        desc: t('static.missingIndent.desc', { line: header }),
+        reason: t('static.missingIndent.reason'),
+        tip: t('static.missingIndent.tip'),
+        goodCode: [...lines.slice(header - 1, current.line - 1), withIndent(text, indentWidth(previous!.indent) + 4)].join('\n'),
+        concept: t('static.concept.indentation'),
+      }];
+    }
+    if (expectIndent) {
+      stack.push(width);
+    } else if (width > top) {
+      return [{
+        severity: 'error',
+        line: current.line,
+        startLine: previous?.line,
+        title: t('static.unexpectedIndent.title'),
+        desc: t('static.unexpectedIndent.desc'),
+        reason: t('static.unexpectedIndent.reason'),
+        tip: t('static.unexpectedIndent.tip'),
+        goodCode: [...(previous ? lines.slice(previous.line - 1, current.line - 1) : []), withIndent(text, top)].join('\n'),
+        concept: t('static.concept.indentation'),
+      }];
+    } else if (width < top) {
+      while (stack.length > 1 && stack[stack.length - 1] > width) stack.pop();
+      if (stack[stack.length - 1] !== width) {
+        return [{
+          severity: 'error',
+          line: current.line,
+          startLine: previous?.line,
+          title: t('static.unalignedIndent.title'),
+          desc: t('static.unalignedIndent.desc'),
+          reason: t('static.unalignedIndent.reason'),
+          tip: t('static.unalignedIndent.tip'),
+          goodCode: [...(previous ? lines.slice(previous.line - 1, current.line - 1) : []), withIndent(text, stack[stack.length - 1])].join('\n'),
+          concept: t('static.concept.indentation'),
+        }];
+      }
+    }
+
+    // A compound statement missing its colon still opens a block; checkStatements reports the colon.
+    const last = current.tokens[current.tokens.length - 1];
+    const [first] = current.tokens;
+    const hasColon = current.tokens.some(token => token.text === ':' && token.type === 'punctuation' && token.depth === 0);
+    expectIndent = (last.text === ':' && last.type === 'punctuation' && last.depth === 0)
+      || (first.type === 'keyword' && COMPOUND_KEYWORDS.has(first.text) && !hasColon);
+    previous = current;
+  }
+
+  if (expectIndent && previous) {
+    const text = lines[previous.line - 1];
+    return [{
+      severity: 'error',
+      line: previous.line,
+      title: t('static.emptyBlock.title'),
+      desc: t('static.emptyBlock.desc'),
+      reason: t('static.emptyBlock.reason'),
+      tip: t('static.emptyBlock.tip'),
+      goodCode: `${text}\n${' '.repeat(indentWidth(previous.indent) + 4)}pass`,
+      concept: t('static.concept.indentation'),
+    }];
+  }
+
+  if (firstTabLine !== null && usesSpaces) {
+    return [{
+      severity: 'warning',
+      line: firstTabLine,
+      title: t('static.mixedFile.title'),
+      desc: t('static.mixedFile.desc'),
+      reason: t('static.mixedFile.reason'),
+      tip: t('static.tip.spaces'),
+    }];
+  }
+  return [];
+};
+
+const checkStatements = (logical: LogicalLine[], lines: string[], t: Translate): Finding[] => {
+  const findings: Finding[] = [];
+
+  for (const { tokens } of logical) {
+    const [first, second] = tokens;
+    const keyword = first.text === 'async' && second ? second : first;
+
+    // Python 2 style print
+    if (first.type === 'builtin' && first.text === 'print' && second
+      && ['string', 'name', 'number', 'builtin', 'function'].includes(second.type)) {
+      const line = lines[first.line - 1];
+      const last = tokens[tokens.length - 1];
+      const end = last.line === first.line ? last.column + last.text.length : line.length;
+      const args = line.slice(second.column, end);
+      findings.push({
+        severity: 'error',
+        line: first.line,
+        token: first,
+        title: t('static.print.title'),
+        desc: t('static.print.desc'),
+        reason: t('static.print.reason'),
+        tip: t('static.print.tip'),
+        goodCode: line.slice(0, second.column).trimEnd() + `(${args})` + line.slice(end),
+        concept: t('static.print.concept'),
+      });
+      continue;
+    }
+
+    if (keyword.type !== 'keyword' || !COMPOUND_KEYWORDS.has(keyword.text)) continue;
+    if (first.text === 'async' && !['def', 'for', 'with'].includes(keyword.text)) continue;
+
+    const colonIndex = tokens.findIndex(token => token.text === ':' && token.type === 'punctuation' && token.depth === 0);
+    if (colonIndex === -1) {
+      const last = tokens[tokens.length - 1];
+      findings.push({
+        severity: 'error',
+        line: last.line,
+        token: last,
+        title: t('static.missingColon.title', { keyword: keyword.text }),
+        desc: t('static.missingColon.desc', { keyword: keyword.text }),
+        reason: t('static.missingColon.reason'),
+        tip: t('static.missingColon.tip'),
+        goodCode: replaceAt(lines[last.line - 1], last.column + last.text.length, 0, ':'),
+        concept: t('static.missingColon.concept'),
+      });
+      continue;
+    }
+
+    if (CONDITION_KEYWORDS.has(keyword.text)) {
+      const assign = tokens.slice(0, colonIndex).find(token => token.type === 'operator' && token.text === '=' && token.depth === 0);
+      if (assign) {
+        findings.push({
+          severity: 'error',
+          line: assign.line,
+          token: assign,
+          title: t('static.assignInCondition.title'),
+          desc: t('static.assignInCondition.desc', { keyword: keyword.text }),
+          reason: t('static.assignInCondition.reason'),
+          tip: t('static.assignInCondition.tip'),
+          goodCode: replaceAt(lines[assign.line - 1], assign.column, 1, '=='),
+          concept: t('static.assignInCondition.concept'),
+        });
+      }
+    }
+  }
+  return findings;
+};
+
+// --- Names ---
+
+interface Definition {
+  line: number;
+  deferred: boolean; // inside a def body, so it runs later
+}
+
+// Names bound by one logical line (assignment targets, loop variables, imports, parameters...).
+const boundNames = ({ tokens }: LogicalLine): PythonToken[] => {
+  const bound: PythonToken[] = [];
+  const isName = (t?: PythonToken) => t !== undefined && (t.type === 'name' || t.type === 'function');
+  const [first] = tokens;
+
+  // def / class name and parameters
+  const defIndex = tokens.findIndex(t => t.depth === 0 && (t.text === 'def' || t.text === 'class'));
+  if (defIndex !== -1 && isName(tokens[defIndex + 1])) {
+    bound.push(tokens[defIndex + 1]);
+    if (tokens[defIndex].text === 'def') {
+      tokens.forEach((t, i) => {
+        if (t.depth === 1 && isName(t) && ['(', ',', '*', '**'].includes(tokens[i - 1]?.text)) bound.push(t);
+      });
+    }
+  }
+
+  // import a.b as c / from x import a, b as c
+  const importIndex = tokens.findIndex(t => t.text === 'import');
+  if (importIndex !== -1) {
+    let expectName = true;
+    for (const t of tokens.slice(importIndex + 1)) {
+      if (t.text === ',') expectName = true;
+      else if (expectName && isName(t)) { bound.push(t); expectName = false; }
+    }
+  }
+
+  tokens.forEach((t, i) => {
+    const next = tokens[i + 1];
+    // ... as name (import / with / except)
+    if (t.text === 'as' && isName(next)) bound.push(next);
+    // walrus
+    if (t.text === ':=' && isName(tokens[i - 1])) bound.push(tokens[i - 1]);
+    // global / nonlocal
+    if ((first.text === 'global' || first.text === 'nonlocal') && i > 0 && isName(t)) bound.push(t);
+    // for targets, including comprehensions
+    if (t.text === 'for') {
+      for (const target of tokens.slice(i + 1)) {
+        if (target.text === 'in' && target.depth === t.depth) break;
+        if (isName(target)) bound.push(target);
+      }
+    }
+    // lambda parameters
+    if (t.text === 'lambda') {
+      for (const param of tokens.slice(i + 1)) {
+        if (param.text === ':' && param.depth === t.depth) break;
+        if (isName(param)) bound.push(param);
+      }
+    }
+  });
+
+  // match-case capture patterns / type aliases
+  if (first.type === 'softKeyword' && first.text === 'case') {
+    tokens.forEach((t, i) => {
+      if (isName(t) && tokens[i - 1]?.text !== '.' && tokens[i + 1]?.text !== '.' && tokens[i + 1]?.text !== '(') bound.push(t);
+    });
+  }
+  if (first.type === 'softKeyword' && first.text === 'type' && isName(tokens[1])) bound.push(tokens[1]);
+
+  // Assignment targets: depth-0 names left of the last plain `=`
+  let lastAssign = -1;
+  tokens.forEach((t, i) => { if (t.depth === 0 && t.type === 'operator' && t.text === '=') lastAssign = i; });
+  tokens.slice(0, Math.max(lastAssign, 0)).forEach((t, i) => {
+    if (t.depth === 0 && isName(t) && tokens[i - 1]?.text !== '.') bound.push(t);
+  });
+  // Annotated declaration: `x: int`
+  if (isName(first) && tokens[1]?.text === ':' && tokens[1].depth === 0) bound.push(first);
+
+  return bound;
+};
+
+const checkNames = (logical: LogicalLine[], t: Translate): Finding[] => {
+  const starImport = logical.some(({ tokens }) => tokens[0].text === 'from' && tokens.some(token => token.text === '*'));
+  if (starImport) return []; // names could come from anywhere
+
+  const definitions = new Map<string, Definition[]>();
+  const uses: { token: PythonToken; deferred: boolean }[] = [];
+  const defIndents: number[] = [];
+
+  for (const line of logical) {
+    const width = indentWidth(line.indent);
+    while (defIndents.length > 0 && defIndents[defIndents.length - 1] >= width) defIndents.pop();
+    const deferred = defIndents.length > 0;
+
+    const bound = new Set(boundNames(line));
+    for (const token of bound) {
+      definitions.set(token.text, [...(definitions.get(token.text) ?? []), { line: token.line, deferred }]);
+    }
+
+    // `from package.module import ...`: the module path isn't a variable
+    const importIndex = line.tokens[0].text === 'from' ? line.tokens.findIndex(token => token.text === 'import') : 0;
+
+    line.tokens.forEach((token, i) => {
+      if ((token.type !== 'name' && token.type !== 'function') || bound.has(token) || i < importIndex) return;
+      const prev = line.tokens[i - 1];
+      const next = line.tokens[i + 1];
+      if (prev?.text === '.') return; // attribute
+      if (token.depth > 0 && next?.text === '=' && (prev?.text === '(' || prev?.text === ',')) return; // keyword argument
+      uses.push({ token, deferred });
+    });
+
+    const keyword = line.tokens[0].text === 'async' ? line.tokens[1] : line.tokens[0];
+    if (keyword?.text === 'def') defIndents.push(width);
+  }
+
+  const findings: Finding[] = [];
+  const reported = new Set<string>();
+  for (const { token, deferred } of uses) {
+    const name = token.text;
+    if (reported.has(name) || BUILTINS.has(name)) continue;
+    const defs = definitions.get(name);
+
+    if (!defs) {
+      reported.add(name);
+      findings.push({
+        severity: 'warning',
+        line: token.line,
+        token,
+        title: t('static.undefinedName.title', { name }),
+        desc: t('static.undefinedName.desc', { name }),
+        reason: t('static.undefinedName.reason'),
+        tip: t('static.undefinedName.tip', { name }),
+      });
+      continue;
+    }
+
+    // Top-level code runs in order; function bodies only run when called.
+    const firstDefinition = Math.min(...defs.map(d => d.line));
+    if (!deferred && defs.every(d => !d.deferred) && token.line < firstDefinition) {
+      reported.add(name);
+      findings.push({
+        severity: 'warning',
+        line: token.line,
+        token,
+        title: t('static.usedBeforeAssign.title', { name }),
+        desc: t('static.usedBeforeAssign.desc', { name, defined: firstDefinition, line: token.line }),
+        reason: t('static.usedBeforeAssign.reason'),
+        tip: t('static.usedBeforeAssign.tip', { defined: firstDefinition }),
+      });
+    }
+  }
+  return findings;
+};
+
+// --- Results ---
+
+const dedentBlock = (blockLines: string[], amount: number) =>
+  blockLines.map(l => l.slice(Math.min(amount, leadingWhitespace(l).length))).join('\n');
+
+const toStep = (finding: Finding, lines: string[]): TraceStep => {
+  const startLine = finding.startLine ?? finding.line;
+  const block = lines.slice(startLine - 1, finding.line);
+  const amount = Math.min(...block.filter(l => l.trim()).map(l => leadingWhitespace(l).length));
+  const firstText = lines[startLine - 1];
+  const lastText = lines[finding.line - 1];
+
+  const step: TraceStep = {
+    status: finding.severity,
+    title: finding.title,
+    desc: finding.desc,
+    isError: finding.severity === 'error',
+    badCode: dedentBlock(block, amount).trimEnd(),
+    reason: finding.reason,
+    tip: finding.tip,
+    range: {
+      startLine,
+      startColumn: leadingWhitespace(firstText).length,
+      endLine: finding.line,
+      endColumn: lastText.trimEnd().length,
+    },
+    origin: 'static',
+  };
+  if (finding.goodCode !== undefined) step.goodCode = dedentBlock(finding.goodCode.split('\n'), amount).trimEnd();
+  if (finding.token) {
+    const { token } = finding;
+    step.errorHighlight = token.text;
+    step.highlightRange = { startLine: token.line, startColumn: token.column, endLine: token.line, endColumn: token.column + token.text.length };
+  }
+  return step;
+};
+
+export const runStaticChecks = (code: string, locale: Locale = DEFAULT_LOCALE): StaticCheckResult => {
+  const t = createTranslator(locale);
+  const source = code.replace(/\u00A0/g, ' ');
+  const lines = source.split('\n');
+  const tokenized = tokenizePython(source);
+  const tokens = significantTokens(tokenized.tokens);
+
+  let findings = checkCharacters(tokens, lines, t);
+  if (findings.length === 0) findings = checkStrings(tokenized, tokens, lines, t);
+  if (findings.length === 0) findings = checkBrackets(tokens, lines, t);
+  if (findings.length === 0) {
+    const logical = buildLogicalLines(tokenized, tokens);
+    findings = [...checkIndentation(logical, lines, t), ...checkStatements(logical, lines, t), ...checkNames(logical, t)];
+  }
+  findings.sort((a, b) => a.line - b.line);
+
+  const steps = findings.map(f => toStep(f, lines));
+  const flashcards: FlashcardData[] = findings.flatMap((f, i) => {
+    const step = steps[i];
+    return f.concept && step.goodCode
+      ? [{ concept: f.concept, frontCode: step.badCode!, errorHighlight: step.errorHighlight, backCode: step.goodCode, explanation: f.reason }]
+      : [];
+  });
+
+  console.log(`[CodeDoctor] Static pre-check: ${findings.length} finding(s).`);
+  return { steps, flashcards, hasSyntaxErrors: findings.some(f => f.severity === 'error') };
+};
+
+// Diagnosis built from the pre-check alone, used when the model call is skipped.
+export const buildLocalDiagnosis = ({ steps, flashcards }: StaticCheckResult, locale: Locale = DEFAULT_LOCALE): DiagnosisResponse => {
+  const t = createTranslator(locale);
+  const errors = steps.filter(step => step.isError);
+  const first = errors[0] ?? steps[0];
+  return {
+    rawError: t('static.rawError', { count: errors.length, line: first.range!.startLine, title: first.title }),
+    trace: steps,
+    generatedFlashcards: flashcards.length > 0 ? flashcards : undefined,
+    localOnly: true,
+  };
+};
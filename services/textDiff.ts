@@ -0,0 +1,93 @@
+// Line-based diff (longest common subsequence). Good enough for beginner-sized snippets.
+
+export type DiffOp = 'equal' | 'add' | 'remove';
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+  oldLine?: number; // 1-based, absent for added lines
+  newLine?: number; // 1-based, absent for removed lines
+}
+
+const MAX_CELLS = 4_000_000; // beyond this the LCS table gets too big; fall back to replace-all
+
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  if (a.length * b.length > MAX_CELLS) {
+    return [
+      ...a.map((text, i) => ({ op: 'remove' as const, text, oldLine: i + 1 })),
+      ...b.map((text, i) => ({ op: 'add' as const, text, newLine: i + 1 })),
+    ];
+  }
+
+  // lcs[i][j] = LCS length of a[i:] and b[j:]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      out.push({ op: 'equal', text: a[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push({ op: 'remove', text: a[i], oldLine: i + 1 });
+      i++;
+    } else {
+      out.push({ op: 'add', text: b[j], newLine: j + 1 });
+      j++;
+    }
+  }
+  for (; i < a.length; i++) out.push({ op: 'remove', text: a[i], oldLine: i + 1 });
+  for (; j < b.length; j++) out.push({ op: 'add', text: b[j], newLine: j + 1 });
+
+  return out;
+};
+
+export const hasChanges = (diff: DiffLine[]): boolean => diff.some(line => line.op !== 'equal');
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+// Groups a full diff into unified-diff hunks with `context` unchanged lines around each change.
+export const toHunks = (diff: DiffLine[], context = 3): DiffHunk[] => {
+  const ranges: [number, number][] = [];
+  diff.forEach((line, i) => {
+    if (line.op === 'equal') return;
+    const from = Math.max(0, i - context);
+    const to = Math.min(diff.length - 1, i + context);
+    const last = ranges[ranges.length - 1];
+    if (last && from <= last[1] + 1) last[1] = to;
+    else ranges.push([from, to]);
+  });
+
+  return ranges.map(([from, to]) => {
+    const before = diff.slice(0, from);
+    const lines = diff.slice(from, to + 1);
+    const oldBefore = before.filter(line => line.op !== 'add').length;
+    const newBefore = before.filter(line => line.op !== 'remove').length;
+    const oldLines = lines.filter(line => line.op !== 'add').length;
+    const newLines = lines.filter(line => line.op !== 'remove').length;
+    return {
+      // An empty side points at the line before it, as in `diff -u`
+      oldStart: oldLines === 0 ? oldBefore : oldBefore + 1,
+      oldLines,
+      newStart: newLines === 0 ? newBefore : newBefore + 1,
+      newLines,
+      lines,
+    };
+  });
+};
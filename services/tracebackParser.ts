@@ -0,0 +1,127 @@
+import { ParsedTraceback, TraceStep, TracebackFrame } from "../types";
+import { findStepForLine } from "./pythonRunner";
+
+// Parses Python tracebacks pasted by the student: plain CPython output (including chained
+// exceptions and SyntaxError carets) and IPython/Jupyter's coloured variant
+// ("Cell In[3], line 2" / "----> 2 code"). Only the last exception of a chain is kept,
+// since that is the one the student actually saw.
+
+const CHAIN_SEPARATOR = /^(During handling of the above exception, another exception occurred:|The above exception was the direct cause of the following exception:)\s*$/m;
+
+// File "main.py", line 5, in load   /   File "<stdin>", line 1
+const CPYTHON_FRAME = /^\s*File "(.+?)", line (\d+)(?:, in (.+?))?\s*$/;
+// IPython 8+: Cell In[3], line 2   /   File ~/lib/python3.11/site-packages/pandas/core/frame.py:3761, in DataFrame.__getitem__(self, key)
+const IPYTHON_CELL_FRAME = /^\s*(Cell In\s?\[\d*\]|Input In \[\d*\]), line (\d+)(?:, in (.+?))?\s*$/;
+const IPYTHON_FILE_FRAME = /^\s*File (.+?):(\d+)(?:, in (.+?))?\s*$/;
+// IPython 7: <ipython-input-3-5a1b> in <module>   (line numbers come from the "---->" marker)
+const IPYTHON7_FRAME = /^(<ipython-input-[^>]+>|\S+\.py) in (.+?)\s*$/;
+// ----> 2 print(df["b"])   /   -> 3761 indexer = ...
+const IPYTHON_ARROW = /^\s*-*> ?(\d+)\s(.*)$/;
+// KeyError: 'b'   /   pandas.errors.ParserError: ...   /   KeyboardInterrupt
+const EXCEPTION_LINE = /^([A-Za-z_][\w.]*)(?::\s?(.*))?$/;
+
+// Without any frames, only a name that reads like an exception class counts (not "Note: ...")
+const EXCEPTION_NAME = /(Error|Exception|Warning|Interrupt|Exit|Iteration|Group)$/;
+
+const stripAnsi = (text: string) => text.replace(/\u001b\[[0-9;]*[A-Za-z]/g, '');
+
+const matchFrame = (line: string): TracebackFrame | null => {
+  const match = CPYTHON_FRAME.exec(line) ?? IPYTHON_CELL_FRAME.exec(line) ?? IPYTHON_FILE_FRAME.exec(line);
+  if (match) return { file: match[1], line: Number(match[2]), ...(match[3] && { functionName: match[3] }) };
+
+  const legacy = IPYTHON7_FRAME.exec(line);
+  return legacy ? { file: legacy[1], line: 0, functionName: legacy[2] } : null;
+};
+
+const isNoise = (line: string) =>
+  !line.trim() || /^\s*[\^~\s]+$/.test(line) || /^-{10,}\s*$/.test(line) || /Traceback \(most recent call last\)/.test(line);
+
+export const parseTraceback = (text: string): ParsedTraceback | null => {
+  const blocks = stripAnsi(text).replace(/\r\n/g, '\n').split(CHAIN_SEPARATOR);
+  const lines = blocks[blocks.length - 1].split('\n');
+
+  const frames: TracebackFrame[] = [];
+  let exception: { type: string; message: string } | null = null;
+
+  for (const line of lines) {
+    if (isNoise(line)) continue;
+
+    const frame = matchFrame(line);
+    if (frame) {
+      frames.push(frame);
+      exception = null; // an "exception-looking" line before a frame was just context
+      continue;
+    }
+
+    const current = frames[frames.length - 1];
+    const arrow = IPYTHON_ARROW.exec(line);
+    if (arrow && current) {
+      current.line = Number(arrow[1]);
+      current.code = arrow[2].trim();
+      continue;
+    }
+    // CPython quotes the failing source line, indented, right under the frame header
+    if (/^\s/.test(line) && current && current.code === undefined && !exception) {
+      current.code = line.trim();
+      continue;
+    }
+    // IPython's numbered context lines ("      1 df = ...") carry no information we need
+    if (/^\s+\d+\s/.test(line)) continue;
+
+    const match = EXCEPTION_LINE.exec(line.trim());
+    if (match && !/^\s/.test(line) && !exception && (frames.length > 0 || EXCEPTION_NAME.test(match[1]))) {
+      exception = { type: match[1], message: (match[2] ?? '').trim() };
+    }
+  }
+
+  if (!exception) return null;
+  return { exceptionType: exception.type, message: exception.message, frames: frames.filter(frame => frame.line > 0 || frame.code) };
+};
+
+// --- Locating the failing frame in the submitted code ---
+
+const LIBRARY_FILE = /site-packages|dist-packages|[\\/]lib[\\/]python\d|^<frozen|importlib/;
+
+const nearest = (candidates: number[], target: number) =>
+  candidates.reduce((best, line) => (Math.abs(line - target) < Math.abs(best - target) ? line : best));
+
+// The innermost frame that belongs to the student's code: library frames are skipped, and a
+// quoted source line must appear in the editor (traceback line numbers of notebook cells or
+// of a since-edited file don't match the editor, the text usually still does).
+export const locateTraceback = (traceback: ParsedTraceback, code: string): ParsedTraceback => {
+  const lines = code.split('\n').map(line => line.trim());
+  const { failingFrame, errorLine, ...parsed } = traceback;
+
+  for (let i = parsed.frames.length - 1; i >= 0; i--) {
+    const frame = parsed.frames[i];
+    if (LIBRARY_FILE.test(frame.file)) continue;
+
+    if (frame.code) {
+      const matches = lines.flatMap((line, index) => (line === frame.code ? [index + 1] : []));
+      if (matches.length > 0) return { ...parsed, failingFrame: i, errorLine: nearest(matches, frame.line) };
+      continue;
+    }
+    if (frame.line >= 1 && frame.line <= lines.length) return { ...parsed, failingFrame: i, errorLine: frame.line };
+  }
+  return parsed;
+};
+
+// --- Anchoring the trace ---
+
+const lineRange = (code: string, line: number) => {
+  const text = code.split('\n')[line - 1] ?? '';
+  return { startLine: line, startColumn: text.length - text.trimStart().length, endLine: line, endColumn: text.trimEnd().length };
+};
+
+// The step the real failure belongs to: the step covering the failing line, else the first error step.
+export const findFailingStep = (trace: TraceStep[], code: string, line: number): number => {
+  const index = findStepForLine(trace, code, line);
+  return index !== -1 ? index : trace.findIndex(step => step.status === 'error');
+};
+
+// Gives the failing step a location when the model's badCode could not be found in the source.
+export const anchorFailingStep = (trace: TraceStep[], code: string, line: number): TraceStep[] => {
+  const index = findFailingStep(trace, code, line);
+  if (index === -1 || trace[index].range) return trace;
+  return trace.map((step, i) => (i === index ? { ...step, range: lineRange(code, line) } : step));
+};
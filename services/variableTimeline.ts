@@ -0,0 +1,69 @@
+import { LineSnapshot, TraceStep, VariableSnapshot } from "../types";
+
+// Variable states per trace step, shown as a table across the steps. The model guesses
+// them from reading the code; a sandbox run replaces the guess for every step whose
+// lines actually executed.
+
+const IDENTIFIER = /[A-Za-z_]\w*/g;
+
+// The values behind the error: variables named in the step's errorHighlight, else in the failing line.
+const markCulprits = (variables: VariableSnapshot[], step: TraceStep, failingLine: string): VariableSnapshot[] => {
+  const names = new Set((step.errorHighlight ?? failingLine).match(IDENTIFIER) ?? []);
+  return variables.map(variable => (names.has(variable.name) ? { ...variable, isCulprit: true } : variable));
+};
+
+export const applyExecutionSnapshots = (trace: TraceStep[], snapshots: LineSnapshot[], code: string): TraceStep[] => {
+  if (snapshots.length === 0) return trace;
+  const lines = code.split('\n');
+
+  return trace.map(step => {
+    const { range } = step;
+    if (!range) return step;
+    const inRange = snapshots.filter(snapshot => snapshot.line >= range.startLine && snapshot.line <= range.endLine);
+    if (inRange.length === 0) return step;
+
+    // The failure if it happened here, else the state after the step's last executed line
+    const snapshot = inRange.find(s => s.failed) ?? inRange[inRange.length - 1];
+    const variables = snapshot.failed
+      ? markCulprits(snapshot.variables, step, lines[snapshot.line - 1] ?? '')
+      : snapshot.variables;
+    return { ...step, variables, variablesSource: 'sandbox' };
+  });
+};
+
+export type ValueChange = 'new' | 'changed';
+
+export interface TimelineCell extends VariableSnapshot {
+  change?: ValueChange; // 与前一列相比
+}
+
+export interface TimelineColumn {
+  stepIndex: number;
+  cells: Record<string, TimelineCell | undefined>; // 按变量名
+}
+
+export interface VariableTimeline {
+  names: string[]; // 按首次出现的顺序
+  columns: TimelineColumn[]; // 只包含带变量状态的步骤
+}
+
+export const buildTimeline = (trace: TraceStep[]): VariableTimeline => {
+  const names: string[] = [];
+  const last = new Map<string, string>(); // name -> repr in the latest column that had it
+  const columns: TimelineColumn[] = [];
+
+  trace.forEach((step, stepIndex) => {
+    if (!step.variables?.length) return;
+    const cells: TimelineColumn['cells'] = {};
+    for (const variable of step.variables) {
+      if (!names.includes(variable.name)) names.push(variable.name);
+      const previous = last.get(variable.name);
+      const change: ValueChange | undefined = previous === undefined ? 'new' : previous !== variable.repr ? 'changed' : undefined;
+      cells[variable.name] = change ? { ...variable, change } : variable;
+      last.set(variable.name, variable.repr);
+    }
+    columns.push({ stepIndex, cells });
+  });
+
+  return { names, columns };
+};
@@ -1,5 +1,13 @@
 export type TraceStatus = 'success' | 'warning' | 'error';
 
+// 源码位置：行号从 1 开始，列号从 0 开始，endColumn 不包含在内
+export interface SourceRange {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
 export interface TraceStep {
   status: TraceStatus;
   title: string;
@@ -10,8 +18,43 @@ export interface TraceStep {
   errorHighlight?: string; // The specific substring to highlight in badCode
   reason?: string;
   tip?: string;
+  hints?: string[]; // 引导性问题，由浅入深，不直接给出答案 (提示模式下逐条显示)
+  variables?: VariableSnapshot[]; // 该步骤执行后的变量状态
+  variablesSource?: 'model' | 'sandbox'; // 模型推测 / 沙箱真实执行记录
+  range?: SourceRange; // badCode 在提交源码中的位置 (本地计算，不依赖模型)
+  highlightRange?: SourceRange; // errorHighlight 在提交源码中的位置
+  origin?: 'static'; // 由本地静态预检生成，而非模型
+  chunk?: ChunkInfo; // 分段分析时，该步骤来自哪一段
+  cell?: number; // 代码从 notebook 导入时，该步骤所在的单元格 (1-based，对应 "Cell [n]")
+}
+
+// 某一时刻的一个变量
+export interface VariableSnapshot {
+  name: string;
+  type: string; // 例如 "int"、"list"、"DataFrame"
+  repr: string; // 简短的值表示，过长时截断
+  isCulprit?: boolean; // 导致该步骤出错的值
+}
+
+// 沙箱执行时，某一行最后一次执行后的变量状态
+export interface LineSnapshot {
+  line: number; // 1-based
+  variables: VariableSnapshot[];
+  failed?: boolean; // 程序在这一行抛出了未捕获的异常 (变量为出错时的状态)
 }
 
+// 长脚本分段分析时的一段代码
+export interface ChunkInfo {
+  index: number; // 0-based
+  total: number;
+  startLine: number; // 在完整源码中的起止行号 (1-based, 含)
+  endLine: number;
+}
+
+export type LanguageId = 'python' | 'javascript' | 'sql';
+
+export type Locale = 'zh-CN' | 'en';
+
 export interface FlashcardData {
   concept: string; // 抽象出的概念，如 "DataFrame 索引"
   frontCode: string; // 病灶代码
@@ -20,23 +63,194 @@ export interface FlashcardData {
   explanation: string; // 解释
 }
 
+export type CardStatus = 'new' | 'learning' | 'critical' | 'mastered';
+
+// 判定答案的策略：词法比较 / AST 等价 / 模型评分 / 学生自评
+export type CheckStrategyId = 'token' | 'ast' | 'llm' | 'self';
+
+export interface ReviewLogEntry {
+  reviewedAt: number; // 复习时间戳 (ms)
+  quality: number; // SM-2 评分 0-5
+  interval: number; // 本次复习后的间隔 (天)
+  easeFactor: number; // 本次复习后的难度系数
+  acceptedBy?: CheckStrategyId; // 判定答案正确的策略 (答错时为空)
+}
+
+export interface CardStats {
+  correctStreak: number; // 连续正确次数
+  incorrectCount: number; // 累积错误次数
+  status: CardStatus;
+  easeFactor: number; // SM-2 难度系数，默认 2.5，最低 1.3
+  interval: number; // 当前复习间隔 (天)
+  repetitions: number; // 连续成功复习次数 (SM-2 n)
+  dueAt: number; // 下次到期时间戳 (ms)
+  history: ReviewLogEntry[];
+  lastAcceptedBy?: CheckStrategyId; // 最近一次答对时采用的判定策略
+  fixVerifiedAt?: number; // 对应的错误在“验证修复”中被确认已修复的时间 (只奖励一次)
+  hintsUsed?: number; // 提示模式下，学生看到答案前用掉的提示数
+}
+
 export interface Flashcard extends FlashcardData {
   id: string;
-  stats: {
-    correctStreak: number; // 连续正确次数
-    incorrectCount: number; // 累积错误次数
-    status: 'new' | 'learning' | 'critical' | 'mastered';
-  };
+  stats: CardStats;
+  language?: LanguageId; // 旧卡片没有该字段，视为 Python
+}
+
+// 验证修复：原诊断中的一个错误在修改后的代码里怎么样了
+export type FixVerdict = 'resolved' | 'present' | 'changed';
+
+export interface FixVerification {
+  step: TraceStep; // 原诊断中的错误步骤 (不含旧代码中的位置)
+  verdict: FixVerdict;
+  note?: string; // 判断依据；changed 时说明变成了什么错误
+  source: 'model' | 'local'; // 模型判断 / 模型没有给出时的本地比对
 }
 
 export interface DiagnosisResponse {
   rawError: string;
   trace: TraceStep[];
   generatedFlashcards?: FlashcardData[]; // AI 生成的原始闪卡数据
+  repairs?: string[]; // 客户端校验时自动修复的问题 (非模型输出)
+  localOnly?: boolean; // 本地预检已发现语法错误，没有调用模型
+  cachedAt?: number; // 命中本地缓存时，缓存写入的时间戳 (ms)
+  verification?: FixVerification[]; // 验证修复模式下，逐个原错误的结论
+}
+
+// 流式接收过程中已经解析出的部分结果
+export interface PartialDiagnosis {
+  rawError?: string;
+  trace: TraceStep[]; // 只包含已完整接收的步骤
+}
+
+export type DiagnosisErrorCode =
+  | 'notConfigured'
+  | 'auth'
+  | 'rateLimit'
+  | 'network'
+  | 'timeout'
+  | 'server'
+  | 'invalidOutput'
+  | 'safety'
+  | 'inputTooLong'
+  | 'badRequest'
+  | 'unknown';
+
+// 错误面板上给出的建议操作
+export type SuggestedAction =
+  | { type: 'openSettings' }
+  | { type: 'retry' }
+  | { type: 'waitAndRetry'; seconds: number }
+  | { type: 'shortenCode' }
+  | { type: 'editCode' };
+
+export interface DiagnosisFailure {
+  code: DiagnosisErrorCode;
+  message: string; // 底层技术细节 (英文原文)
+  retryable: boolean; // 用户手动重试是否有意义
+  actions: SuggestedAction[];
+  attempts?: number; // 放弃前已尝试的次数
 }
 
 export interface DiagnosisState {
   status: 'idle' | 'analyzing' | 'complete' | 'error';
   result: DiagnosisResponse | null;
-  error: string | null;
-}
\ No newline at end of file
+  error: DiagnosisFailure | null;
+  execution?: ExecutionResult; // 开启沙箱运行时的真实执行结果
+  traceback?: ParsedTraceback; // 诊断时附带的 traceback
+  partial?: PartialDiagnosis; // 流式模式下 analyzing 阶段的中间结果
+}
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'fixture';
+
+// 出错后值得重试的错误类别；不在重试列表中的错误立即失败
+export type RetryableErrorClass = 'network' | 'timeout' | 'rateLimit' | 'server' | 'invalidOutput';
+
+export interface AnalysisOptions {
+  model: string; // 留空则使用提供方默认模型 (Gemini 内置默认值 / OpenAI 兼容接口的 openAIModel)
+  temperature: number;
+  maxAttempts: number; // 含首次请求
+  attemptTimeoutMs: number; // 单次请求超时，0 表示不限制
+  retryOn: RetryableErrorClass[];
+  maxPromptTokens: number; // 单次请求的估算 token 上限，接近时提示，超过时可分段
+  chunkLongScripts: boolean; // 超过上限时在顶层 def/class 处切分，逐段分析后合并
+}
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  openAIBaseUrl: string; // 例如 http://localhost:11434/v1 (Ollama) 或 http://localhost:8080/v1 (llama.cpp)
+  openAIModel: string;
+  openAIApiKey: string; // 本地服务通常留空
+  streaming: boolean; // 流式接收诊断结果，逐步渲染 TraceMap
+  skipModelOnSyntaxErrors: boolean; // 本地预检发现语法错误时直接给出结果，不调用模型
+  useResponseCache: boolean; // 相同代码复用之前的诊断结果
+  hintMode: boolean; // 提示模式：错误步骤逐级给出提示，按需才显示修复代码
+  analysis: AnalysisOptions;
+}
+
+export type ExecutionStatus = 'ok' | 'error' | 'timeout' | 'memory' | 'unavailable';
+
+export interface ExecutionResult {
+  status: ExecutionStatus;
+  stdout: string;
+  stderr: string;
+  traceback?: string; // 解释器输出的完整 traceback
+  exceptionType?: string; // 例如 "KeyError"
+  exceptionMessage?: string;
+  errorLine?: number; // 用户代码中出错的行号 (1-based)
+  snapshots?: LineSnapshot[]; // 逐行的变量状态 (按行号排序)
+  durationMs: number;
+}
+
+// 学生粘贴的 Python traceback 中的一帧
+export interface TracebackFrame {
+  file: string; // 例如 "main.py"、"<stdin>"、"Cell In[3]"
+  line: number; // traceback 报告的行号 (相对于该文件或单元格)
+  functionName?: string;
+  code?: string; // traceback 引用的那一行源码
+}
+
+export interface ParsedTraceback {
+  exceptionType: string; // 例如 "KeyError"、"pandas.errors.ParserError"
+  message: string;
+  frames: TracebackFrame[]; // 由外到内，最后一帧是抛出异常的位置
+  failingFrame?: number; // 属于提交代码的最内层帧 (frames 下标)
+  errorLine?: number; // 该帧在提交代码中的行号 (1-based)
+}
+
+// .ipynb 中保存的某个代码单元格的上次运行输出
+export interface NotebookCellOutput {
+  cell: number; // 单元格在 notebook 中的位置 (1-based)
+  executionCount: number | null; // Jupyter 中显示的 In [n]，未运行过为 null
+  stdout: string; // stream 输出 (含 stderr 流)
+  result: string; // execute_result / display_data 的 text/plain
+  error?: {
+    name: string; // ename，例如 "KeyError"
+    value: string; // evalue
+    traceback: string; // 已去除 ANSI 颜色码
+  };
+}
+
+export interface AnalysisContext {
+  execution?: ExecutionResult; // 真实运行结果，作为模型的额外证据
+  staticFindings?: TraceStep[]; // 本地静态预检发现的问题，作为模型的提示
+  language?: LanguageId; // 默认 Python
+  locale?: Locale; // 模型输出文本的语言，默认简体中文
+  chunk?: ChunkInfo & { outline: string }; // 分段分析：当前段的位置 + 整个文件的结构概要
+  notebookOutputs?: NotebookCellOutput[]; // 导入的 notebook 中保存的运行输出，作为额外证据
+  traceback?: ParsedTraceback; // 学生粘贴的真实报错 (已解析并定位到提交代码)
+  previousErrors?: TraceStep[]; // 验证修复：上一次诊断发现的错误步骤
+}
+
+export interface DiagnosisRun {
+  id: string;
+  createdAt: number; // 时间戳 (ms)
+  code: string;
+  result: DiagnosisResponse;
+  providerId: ProviderId;
+  model: string; // 实际使用的模型名称
+  flashcardIds: string[]; // 本次诊断生成的闪卡 ID
+  execution?: ExecutionResult;
+  traceback?: ParsedTraceback;
+  language?: LanguageId; // 旧记录没有该字段，视为 Python
+  hintsUsed?: Record<number, number>; // 提示模式下每个步骤 (trace 下标) 已揭示的提示数
+}